@@ -14,6 +14,7 @@ import {
   MkcolOptions,
   NoParentAction,
   Stats,
+  TRASH_DIR,
 } from "./core";
 import {
   FileSystemError,
@@ -149,7 +150,7 @@ export abstract class AbstractDirectory
     }
 
     if (result) {
-      await this._doDelete();
+      await this._doDelete(errors);
     }
 
     return result;
@@ -234,7 +235,7 @@ export abstract class AbstractDirectory
     options = { ...this.fs.defaultMkcolOptions, ...options };
 
     try {
-      const result = await this.$mkcol(options);
+      const result = await this.$mkcol(options, errors);
       await this._afterMkcol(options, result);
       return result;
     } catch (e) {
@@ -266,9 +267,9 @@ export abstract class AbstractDirectory
     return this.list(options, errors);
   }
 
-  public abstract _doDelete(): Promise<void>;
+  public abstract _doDelete(errors?: FileSystemError[]): Promise<void>;
   public abstract _doList(): Promise<Item[]>;
-  public abstract _doMkcol(): Promise<void>;
+  public abstract _doMkcol(errors?: FileSystemError[]): Promise<void>;
 
   protected async $list(options: ListOptions): Promise<Item[]> {
     await this._validate(options);
@@ -283,10 +284,18 @@ export abstract class AbstractDirectory
       item.path = normalizePath(item.path);
     }
 
+    // The trash directory is hidden from the listings and the traversals
+    // of the file system in the trash mode.
+    if (this.path === "/" && this.fs.options.trash) {
+      return list.filter((item) => item.path !== TRASH_DIR);
+    }
     return list;
   }
 
-  protected async $mkcol(options: MkcolOptions): Promise<boolean> {
+  protected async $mkcol(
+    options: MkcolOptions,
+    errors?: FileSystemError[]
+  ): Promise<boolean> {
     if (!this.fs.supportDirectory()) {
       return true;
     }
@@ -328,7 +337,7 @@ export abstract class AbstractDirectory
       }
     }
 
-    await this._doMkcol();
+    await this._doMkcol(errors);
     return true;
   }
 
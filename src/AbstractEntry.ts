@@ -4,11 +4,15 @@ import {
   DeleteOptions,
   Directory,
   Entry,
+  EntryType,
+  ExistsAction,
   HeadOptions,
   MoveOptions,
   NotExistAction,
   PatchOptions,
   Stats,
+  TRASH_DIR,
+  TrashItem,
   URLOptions,
 } from "./core";
 import {
@@ -20,7 +24,7 @@ import {
   NotReadableError,
   TypeMismatchError,
 } from "./errors";
-import { getParentPath } from "./util";
+import { getParentPath, joinPaths } from "./util";
 
 interface ErrorParams {
   code?: number;
@@ -108,6 +112,7 @@ export abstract class AbstractEntry implements Entry {
         ...this.fs.defaultDeleteOptions,
         ...options,
         recursive: true,
+        trash: false,
       },
       errors
     );
@@ -171,6 +176,9 @@ export abstract class AbstractEntry implements Entry {
 
     try {
       await this._validate(options);
+      if (this._isTrashable(options)) {
+        return this._moveToTrash(options, errors);
+      }
       return this._deleteExisting(options, errors);
     } catch (e) {
       if (isFileSystemError(e) && e.name === NotFoundError.name) {
@@ -265,4 +273,55 @@ export abstract class AbstractEntry implements Entry {
     const error = this._createTypeMismatchError(params);
     return this.fs._handleFileSystemError(error, errors, callback);
   }
+
+  protected _isTrashable(options: DeleteOptions) {
+    const path = this.path;
+    return (
+      (options.trash ?? this.fs.options.trash ?? false) &&
+      path !== "/" &&
+      path !== TRASH_DIR &&
+      !path.startsWith(TRASH_DIR + "/")
+    );
+  }
+
+  /**
+   * Moves the entry into the trash directory as one item,
+   * then writes the metadata which marks the item complete.
+   */
+  protected async _moveToTrash(
+    options: DeleteOptions,
+    errors?: FileSystemError[]
+  ): Promise<boolean> {
+    const fs = this.fs;
+    const isDirectory = this.stats?.size == null;
+    if (isDirectory && !options.recursive) {
+      const children = await fs.list(this.path, { ignoreHook: true });
+      if (0 < children.length) {
+        // Lets the FileSystem report the error.
+        return this._deleteExisting(options, errors);
+      }
+    }
+
+    const id = await fs._createTrashId();
+    const trashPath = joinPaths(TRASH_DIR, id);
+    const to = isDirectory ? fs.getDirectory(trashPath) : fs.getFile(trashPath);
+    const result = await this.move(
+      to,
+      { onExists: ExistsAction.Overwrite, ignoreHook: true },
+      errors
+    );
+    if (!result) {
+      return false;
+    }
+
+    const item: TrashItem = {
+      deleted: Date.now(),
+      id,
+      path: this.path,
+      type: isDirectory ? EntryType.Directory : EntryType.File,
+    };
+    return fs.write(trashPath + ".json", JSON.stringify(item), {
+      ignoreHook: true,
+    });
+  }
 }
@@ -18,6 +18,7 @@ import { AbstractEntry } from "./AbstractEntry";
 import { AbstractFileSystem } from "./AbstractFileSystem";
 import {
   CopyOptions,
+  DeleteOptions,
   Entry,
   EntryType,
   ExistsAction,
@@ -85,8 +86,11 @@ export abstract class AbstractFile extends AbstractEntry implements File {
     return to._write(data, options, errors);
   }
 
-  public async _deleteExisting(): Promise<boolean> {
-    await this._doDelete();
+  public async _deleteExisting(
+    _options: DeleteOptions,
+    errors?: FileSystemError[]
+  ): Promise<boolean> {
+    await this._doDelete(errors);
     return true;
   }
 
@@ -138,7 +142,7 @@ export abstract class AbstractFile extends AbstractEntry implements File {
         }
       }
 
-      const result = await this.$write(data, options);
+      const result = await this.$write(data, options, errors);
       if (this.stats) {
         await this._afterPut(options, result);
       } else {
@@ -246,7 +250,10 @@ export abstract class AbstractFile extends AbstractEntry implements File {
       return data as ReturnData<T>;
     }
     const converter = this._getConverter();
-    return converter.convert(data, type, options);
+    const convertOptions = { ...options };
+    delete convertOptions.start; // Already applied by _read()
+    delete convertOptions.length;
+    return converter.convert(data, type, convertOptions);
   }
 
   public async write(
@@ -257,12 +264,13 @@ export abstract class AbstractFile extends AbstractEntry implements File {
     return this._write(data, options, errors);
   }
 
-  public abstract _doDelete(): Promise<void>;
+  public abstract _doDelete(errors?: FileSystemError[]): Promise<void>;
   public abstract _doRead(stats: Stats, options: ReadOptions): Promise<Data>;
   public abstract _doWrite(
     data: Data,
     stats: Stats | undefined | null,
-    options: WriteOptions
+    options: WriteOptions,
+    errors?: FileSystemError[]
   ): Promise<void>;
   public abstract supportAppend(): boolean;
   public abstract supportRangeRead(): boolean;
@@ -291,7 +299,11 @@ export abstract class AbstractFile extends AbstractEntry implements File {
     return data;
   }
 
-  protected async $write(data: Data, options: WriteOptions): Promise<boolean> {
+  protected async $write(
+    data: Data,
+    options: WriteOptions,
+    errors?: FileSystemError[]
+  ): Promise<boolean> {
     const length = options.length;
     if (length === 0) {
       return true;
@@ -343,7 +355,7 @@ export abstract class AbstractFile extends AbstractEntry implements File {
       }
     }
 
-    await this._doWrite(data, this.stats, options);
+    await this._doWrite(data, this.stats, options, errors);
     return true;
   }
 
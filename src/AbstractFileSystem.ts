@@ -5,6 +5,7 @@ import {
   CopyOptions,
   DeleteOptions,
   Directory,
+  EmptyTrashOptions,
   Entry,
   EntryType,
   ExistsAction,
@@ -21,6 +22,8 @@ import {
   PatchOptions,
   ReadOptions,
   Stats,
+  TRASH_DIR,
+  TrashItem,
   URLOptions,
   WriteOptions,
 } from "./core";
@@ -28,19 +31,23 @@ import {
   createError,
   FileSystemError,
   isFileSystemError,
+  isNotFoundError,
   NoModificationAllowedError,
   NotFoundError,
   NotReadableError,
+  PathExistError,
   SyntaxError,
   TypeMismatchError,
 } from "./errors";
-import { INVALID_CHARS, normalizePath } from "./util";
+import { getParentPath, INVALID_CHARS, joinPaths, normalizePath } from "./util";
 
 interface CopyInfo {
   from: Entry;
   to: Entry;
 }
 
+const TRASH_ID = /^\d{15}$/;
+
 interface ErrorParams {
   code?: number;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -122,6 +129,26 @@ export abstract class AbstractFileSystem implements FileSystem {
     };
   }
 
+  /**
+   * Prepares the trash directory and returns an unused id of the trash item.
+   */
+  public async _createTrashId(): Promise<string> {
+    await this.mkcol(TRASH_DIR, {
+      onExists: ExistsAction.Skip,
+      onNoParent: NoParentAction.Error,
+      ignoreHook: true,
+    });
+    // Milliseconds, incremented when the same millisecond is taken.
+    let time = Date.now();
+    for (;;) {
+      const id = String(time).padStart(15, "0");
+      if (!(await this._exists(joinPaths(TRASH_DIR, id)))) {
+        return id;
+      }
+      time++;
+    }
+  }
+
   public async _handleError(
     params: ErrorParams,
     errors?: FileSystemError[],
@@ -208,6 +235,27 @@ export abstract class AbstractFileSystem implements FileSystem {
     return this.list(path, options, errors);
   }
 
+  /**
+   * Deletes the trash items permanently, and returns the number of them.
+   */
+  public async emptyTrash(options?: EmptyTrashOptions): Promise<number> {
+    const olderThan = options?.olderThan;
+    const maxDeleted = olderThan == null ? Infinity : Date.now() - olderThan;
+    let count = 0;
+    for (const item of await this.listTrash()) {
+      if (maxDeleted <= item.deleted) {
+        continue;
+      }
+      // The metadata first, so that an incomplete item is never listed.
+      const trashPath = joinPaths(TRASH_DIR, item.id);
+      for (const path of [trashPath + ".json", trashPath]) {
+        await this._deletePermanently(path);
+      }
+      count++;
+    }
+    return count;
+  }
+
   public getDirectory(path: string): Directory {
     const checked = this._checkPath(path);
     return this._doGetDirectory(checked);
@@ -356,6 +404,31 @@ export abstract class AbstractFileSystem implements FileSystem {
     return dir.list(options, errors);
   }
 
+  /**
+   * Lists the entries in the trash, the most recently deleted first.
+   */
+  public async listTrash(): Promise<TrashItem[]> {
+    let paths: string[];
+    try {
+      paths = await this.list(TRASH_DIR, { ignoreHook: true });
+    } catch (e) {
+      if (isNotFoundError(e)) {
+        return [];
+      }
+      throw e;
+    }
+
+    const items: TrashItem[] = [];
+    for (const path of paths) {
+      if (!/\/\d{15}\.json$/.test(path)) {
+        continue;
+      }
+      const text = await this.read(path, "text", { ignoreHook: true });
+      items.push(JSON.parse(text) as TrashItem);
+    }
+    return items.sort((a, b) => b.deleted - a.deleted);
+  }
+
   public ls(path: string, options?: ListOptions): Promise<string[]>;
   public ls(
     path: string,
@@ -435,7 +508,7 @@ export abstract class AbstractFileSystem implements FileSystem {
       if (result != null) {
         return result;
       }
-      await this._doPatch(path, stats, props, options);
+      await this._doPatch(path, stats, props, options, errors);
       await this._afterPatch(path, true, options);
       return true;
     } catch (e) {
@@ -483,6 +556,51 @@ export abstract class AbstractFileSystem implements FileSystem {
     return this.list(path, options, errors);
   }
 
+  /**
+   * Moves the trash item back to its original path,
+   * which must not exist.
+   */
+  public async restoreFromTrash(id: string): Promise<void> {
+    if (!TRASH_ID.test(id)) {
+      throw createError({
+        name: NotFoundError.name,
+        repository: this.repository,
+        path: TRASH_DIR,
+        message: `Trash item "${id}" is not found`,
+      });
+    }
+    const trashPath = joinPaths(TRASH_DIR, id);
+    const text = await this.read(trashPath + ".json", "text", {
+      ignoreHook: true,
+    });
+    const item = JSON.parse(text) as TrashItem;
+    const path = item.path;
+    if (await this._exists(path)) {
+      throw createError({
+        name: PathExistError.name,
+        repository: this.repository,
+        path,
+      });
+    }
+
+    await this.mkcol(getParentPath(path), {
+      onExists: ExistsAction.Skip,
+      onNoParent: NoParentAction.MakeParents,
+      ignoreHook: true,
+    });
+    const isDirectory = item.type === EntryType.Directory;
+    const from = isDirectory
+      ? this.getDirectory(trashPath)
+      : this.getFile(trashPath);
+    const to = isDirectory ? this.getDirectory(path) : this.getFile(path);
+    await from.move(to, {
+      onExists: ExistsAction.Overwrite,
+      onNoParent: NoParentAction.Error,
+      ignoreHook: true,
+    });
+    await this._deletePermanently(trashPath + ".json");
+  }
+
   public rm = (
     path: string,
     options?: DeleteOptions,
@@ -528,7 +646,8 @@ export abstract class AbstractFileSystem implements FileSystem {
     path: string,
     stats: Stats,
     props: Stats,
-    options: PatchOptions
+    options: PatchOptions,
+    errors?: FileSystemError[]
   ): Promise<void>;
   public abstract canPatchAccessed(): boolean;
   public abstract canPatchCreated(): boolean;
@@ -678,6 +797,34 @@ export abstract class AbstractFileSystem implements FileSystem {
     }
   }
 
+  private async _deletePermanently(path: string) {
+    // FileSystem.delete() throws NotFoundError regardless of onNotExist.
+    try {
+      await this.delete(path, {
+        onNotExist: NotExistAction.Ignore,
+        recursive: true,
+        ignoreHook: true,
+        trash: false,
+      });
+    } catch (e) {
+      if (!isNotFoundError(e)) {
+        throw e;
+      }
+    }
+  }
+
+  private async _exists(path: string) {
+    try {
+      await this.head(path, { ignoreHook: true });
+      return true;
+    } catch (e) {
+      if (isNotFoundError(e)) {
+        return false;
+      }
+      throw e;
+    }
+  }
+
   private async _prepareCopy(
     fromPath: string,
     toPath: string,
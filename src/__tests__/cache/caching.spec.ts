@@ -0,0 +1,102 @@
+import { CachingFileSystem } from "../../cache/CachingFileSystem";
+import { LRUCache } from "../../cache/lru";
+import { ExistsAction } from "../../core";
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+
+const source = new MemoryFileSystem("/caching");
+const fs = new CachingFileSystem(source, { maxContentSize: 10 });
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it("cache stats, listings and contents", async () => {
+  await fs.mkdir("/dir");
+  await fs.write("/dir/small.txt", "small");
+  await fs.write("/dir/large.txt", "0123456789abc");
+
+  let head: jest.SpyInstance | undefined;
+  let list: jest.SpyInstance | undefined;
+  let read: jest.SpyInstance | undefined;
+  for (let i = 0; i < 3; i++) {
+    expect((await fs.head("/dir/small.txt")).size).toBe(5);
+    expect((await fs.list("/dir")).sort()).toEqual([
+      "/dir/large.txt",
+      "/dir/small.txt",
+    ]);
+    expect(await fs.read("/dir/small.txt", "text")).toBe("small");
+    if (!head) {
+      head = jest.spyOn(source, "head");
+      list = jest.spyOn(source, "list");
+      read = jest.spyOn(source, "read");
+    }
+  }
+  expect(head).not.toHaveBeenCalled();
+  expect(list).not.toHaveBeenCalled();
+  expect(read).not.toHaveBeenCalled();
+
+  // Too large to be cached
+  const text = await fs.read("/dir/large.txt", "text", { start: 10 });
+  expect(text).toBe("abc");
+  const range = await fs.read("/dir/small.txt", "text", {
+    start: 1,
+    length: 3,
+  });
+  expect(range).toBe("mal");
+});
+
+it("invalidate by modifications", async () => {
+  await fs.write("/dir/small.txt", "changed");
+  expect(await fs.read("/dir/small.txt", "text")).toBe("changed");
+  expect((await fs.head("/dir/small.txt")).size).toBe(7);
+
+  await fs.write("/dir/new.txt", "new");
+  expect(await fs.list("/dir")).toContain("/dir/new.txt");
+
+  await fs.patch("/dir/new.txt", { modified: 1000 });
+  expect((await fs.head("/dir/new.txt")).modified).toBe(1000);
+
+  await fs.move("/dir/new.txt", "/dir/moved.txt", {
+    onExists: ExistsAction.Overwrite,
+  });
+  const list = await fs.list("/dir");
+  expect(list).toContain("/dir/moved.txt");
+  expect(list).not.toContain("/dir/new.txt");
+});
+
+it("expire by TTL", async () => {
+  const ttlfs = new CachingFileSystem(source, { ttl: 1000 });
+  const head = jest.spyOn(source, "head");
+  const now = Date.now();
+  const dateNow = jest.spyOn(Date, "now").mockReturnValue(now);
+  await ttlfs.head("/dir/small.txt");
+  head.mockClear();
+  await ttlfs.head("/dir/small.txt");
+  expect(head).not.toHaveBeenCalled();
+  dateNow.mockReturnValue(now + 1000);
+  await ttlfs.head("/dir/small.txt");
+  expect(head).toHaveBeenCalled();
+});
+
+it("evict the least recently used", () => {
+  const cache = new LRUCache<string>({
+    maxBytes: 10,
+    maxEntries: 3,
+    ttl: 1000,
+  });
+  cache.set("a", "a");
+  cache.set("b", "b");
+  cache.set("c", "c");
+  cache.get("a");
+  cache.set("d", "d");
+  expect(cache.get("b")).toBeUndefined();
+  expect(cache.get("a")).toBe("a");
+
+  cache.set("large", "large", 8);
+  expect(cache.byteLength).toBe(8);
+  cache.set("larger", "larger", 8);
+  expect(cache.get("large")).toBeUndefined();
+  expect(cache.byteLength).toBe(8);
+  cache.set("too large", "too large", 11);
+  expect(cache.get("too large")).toBeUndefined();
+});
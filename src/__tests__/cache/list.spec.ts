@@ -0,0 +1,6 @@
+import { CachingFileSystem } from "../../cache/CachingFileSystem";
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+import { testAll } from "../list";
+
+const fs = new CachingFileSystem(new MemoryFileSystem("/isomorphic-fs-test"));
+testAll(fs);
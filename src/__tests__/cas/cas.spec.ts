@@ -0,0 +1,122 @@
+import { ContentAddressedFileSystem } from "../../cas/ContentAddressedFileSystem";
+import { ExistsAction, NoParentAction, NotExistAction } from "../../core";
+import { ErrorLike, InvalidModificationError } from "../../errors";
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+
+const source = new MemoryFileSystem("/cas");
+const fs = new ContentAddressedFileSystem(source);
+const logo = "<svg>logo</svg>";
+
+const countObjects = async () => {
+  let count = 0;
+  for (const dirPath of await source.list("/objects")) {
+    count += (await source.list(dirPath)).length;
+  }
+  return count;
+};
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it("store identical contents once", async () => {
+  for (const tenant of ["/a", "/b"]) {
+    await fs.mkdir(tenant + "/assets", {
+      onNoParent: NoParentAction.MakeParents,
+    });
+    await fs.write(tenant + "/assets/logo.svg", logo);
+  }
+  expect(await countObjects()).toBe(1);
+
+  const stats = await fs.head("/a/assets/logo.svg");
+  expect(stats.size).toBe(logo.length);
+  expect(stats.etag).toBe(await fs.getFile("/b/assets/logo.svg").hash());
+  expect(await source.read("/refs/" + (stats.etag as string), "text")).toBe(
+    "2"
+  );
+  expect(await fs.read("/b/assets/logo.svg", "text", { start: 5 })).toBe(
+    "logo</svg>"
+  );
+});
+
+it("copy references without transferring contents", async () => {
+  const read = jest.spyOn(source, "read");
+  const write = jest.spyOn(source, "write");
+  await fs.copy("/a/assets/logo.svg", "/a/logo.svg", {
+    onExists: ExistsAction.Overwrite,
+  });
+  await fs.copy("/b/assets", "/c", {
+    onExists: ExistsAction.Overwrite,
+    recursive: true,
+  });
+  for (const [path] of [...read.mock.calls, ...write.mock.calls]) {
+    expect(path.startsWith("/objects/")).toBe(false);
+  }
+  expect(await countObjects()).toBe(1);
+  expect(await fs.read("/c/logo.svg", "text")).toBe(logo);
+
+  const sha = (await fs.head("/a/logo.svg")).etag as string;
+  expect(await fs.getFile("/a/logo.svg").hash()).toBe(sha);
+  expect(await source.read("/refs/" + sha, "text")).toBe("4");
+});
+
+it("count references on move, overwrite and delete", async () => {
+  const sha = (await fs.head("/a/logo.svg")).etag as string;
+  await fs.move("/a/logo.svg", "/a/moved.svg", {
+    onExists: ExistsAction.Overwrite,
+  });
+  expect(await source.read("/refs/" + sha, "text")).toBe("4");
+
+  await fs.write("/a/moved.svg", "changed");
+  expect(await source.read("/refs/" + sha, "text")).toBe("3");
+  expect(await countObjects()).toBe(2);
+
+  await fs.delete("/c", {
+    onNotExist: NotExistAction.Error,
+    recursive: true,
+  });
+  await fs.delete("/b/assets/logo.svg");
+  expect(await source.read("/refs/" + sha, "text")).toBe("1");
+  expect(await fs.gc()).toBe(0);
+
+  await fs.delete("/a/assets/logo.svg");
+  expect(await source.read("/refs/" + sha, "text")).toBe("0");
+  // Kept until gc()
+  expect(await countObjects()).toBe(2);
+  expect(await fs.gc()).toBe(1);
+  expect(await countObjects()).toBe(1);
+  expect(await fs.read("/a/moved.svg", "text")).toBe("changed");
+});
+
+it("count concurrent references of the same content", async () => {
+  const paths = ["/x/1.txt", "/x/2.txt", "/x/3.txt"];
+  await fs.mkcol("/x");
+  await Promise.all(paths.map((path) => fs.write(path, "concurrent")));
+  const sha = (await fs.head("/x/1.txt")).etag as string;
+  expect(await source.read("/refs/" + sha, "text")).toBe("3");
+
+  await fs.delete("/x/1.txt");
+  expect(await fs.gc()).toBe(0);
+  expect(await fs.read("/x/2.txt", "text")).toBe("concurrent");
+});
+
+it("check the destination on copy", async () => {
+  await fs.copy("/x/2.txt", "/x/new.txt", { onExists: ExistsAction.Error });
+  expect(await fs.read("/x/new.txt", "text")).toBe("concurrent");
+
+  await fs.write("/x/other.txt", "other");
+  await fs.copy("/x/2.txt", "/x/other.txt", { onExists: ExistsAction.Skip });
+  expect(await fs.read("/x/other.txt", "text")).toBe("other");
+  await fs.copy("/x/2.txt", "/x/skipped.txt", {
+    onExists: ExistsAction.Skip,
+  });
+  expect(await fs.read("/x/skipped.txt", "text")).toBe("concurrent");
+
+  try {
+    await fs.copy("/x/2.txt", "/x/other.txt", { onExists: ExistsAction.Error });
+    throw new Error("Copied");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(InvalidModificationError.name);
+  }
+  expect(await fs.read("/x/other.txt", "text")).toBe("other");
+});
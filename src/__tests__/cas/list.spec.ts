@@ -0,0 +1,8 @@
+import { ContentAddressedFileSystem } from "../../cas/ContentAddressedFileSystem";
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+import { testAll } from "../list";
+
+const fs = new ContentAddressedFileSystem(
+  new MemoryFileSystem("/isomorphic-fs-test")
+);
+testAll(fs);
@@ -0,0 +1,70 @@
+import { ChrootFileSystem } from "../../chroot/ChrootFileSystem";
+import { NoParentAction, NotExistAction } from "../../core";
+import {
+  ErrorLike,
+  NoModificationAllowedError,
+  NotFoundError,
+  SyntaxError,
+} from "../../errors";
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+
+const source = new MemoryFileSystem("/chroot");
+const fs = new ChrootFileSystem(source, "/tenants/42");
+
+beforeAll(async () => {
+  await source.mkdir("/tenants/42", { onNoParent: NoParentAction.MakeParents });
+  await source.mkdir("/tenants/43");
+  await source.write("/tenants/43/secret.txt", "secret");
+  await source.write("/secret.txt", "secret");
+});
+
+it("map paths under the base path", async () => {
+  await fs.mkdir("/dir");
+  await fs.write("/dir/a.txt", "a");
+  expect(await source.read("/tenants/42/dir/a.txt", "text")).toBe("a");
+  expect(await fs.list("/")).toEqual(["/dir"]);
+  expect(await fs.list("/dir")).toEqual(["/dir/a.txt"]);
+});
+
+it("hide the base path in errors", async () => {
+  try {
+    await fs.read("/dir/missing.txt", "text");
+    throw new Error("/dir/missing.txt was found");
+  } catch (e) {
+    const error = e as ErrorLike;
+    expect(error.name).toBe(NotFoundError.name);
+    expect(error["path"]).toBe("/dir/missing.txt");
+    expect(JSON.stringify(error)).not.toContain("/tenants/42");
+  }
+});
+
+it("never tell paths outside of the base path", () => {
+  expect(fs._toPath("/tenants/42/dir")).toBe("/dir");
+  expect(fs._toPath("/tenants/43/secret.txt")).toBeUndefined();
+});
+
+it("reject escapes", async () => {
+  for (const path of ["/../43/secret.txt", "/dir/../../secret.txt"]) {
+    try {
+      await fs.read(path, "text");
+      throw new Error(`${path} was read`);
+    } catch (e) {
+      expect((e as ErrorLike).name).toBe(SyntaxError.name);
+    }
+  }
+  expect(() => fs._toSourcePath("/../secret.txt")).toThrow();
+  expect(fs._toSourcePath("/dir/../a.txt")).toBe("/tenants/42/a.txt");
+});
+
+it("never delete the root", async () => {
+  try {
+    await fs.delete("/", {
+      onNotExist: NotExistAction.Error,
+      recursive: true,
+    });
+    throw new Error("/ was deleted");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(NoModificationAllowedError.name);
+  }
+  expect(await source.list("/tenants")).toContain("/tenants/42");
+});
@@ -0,0 +1,14 @@
+import { ChrootFileSystem } from "../../chroot/ChrootFileSystem";
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+import { NoParentAction } from "../../core";
+import { testAll } from "../head";
+
+const source = new MemoryFileSystem("/isomorphic-fs-test");
+const fs = new ChrootFileSystem(source, "/tenants/head");
+testAll(fs, {
+  setup: async () => {
+    await source.mkdir("/tenants/head", {
+      onNoParent: NoParentAction.MakeParents,
+    });
+  },
+});
@@ -0,0 +1,14 @@
+import { ChrootFileSystem } from "../../chroot/ChrootFileSystem";
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+import { NoParentAction } from "../../core";
+import { testAll } from "../list";
+
+const source = new MemoryFileSystem("/isomorphic-fs-test");
+const fs = new ChrootFileSystem(source, "/tenants/list");
+testAll(fs, {
+  setup: async () => {
+    await source.mkdir("/tenants/list", {
+      onNoParent: NoParentAction.MakeParents,
+    });
+  },
+});
@@ -0,0 +1,113 @@
+import {
+  COMPRESSION_PROP,
+  CompressedFileSystem,
+  UNCOMPRESSED_SIZE_PROP,
+} from "../../compressed/CompressedFileSystem";
+import { globToRegExp } from "../../compressed/compression";
+import { NoParentAction } from "../../core";
+import { createError, ErrorLike, NotSupportedError } from "../../errors";
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+
+const source = new MemoryFileSystem("/compressed");
+const fs = new CompressedFileSystem(source, {
+  excludes: ["*.gz", "/raw/**"],
+});
+
+const log = "2022-05-01T00:00:00Z INFO request served\n".repeat(1000);
+const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+it("compress contents", async () => {
+  await fs.write("/access.log", log);
+  expect(await fs.read("/access.log", "text")).toBe(log);
+
+  const stats = await fs.head("/access.log");
+  expect(stats.size).toBe(log.length);
+  const sourceStats = await source.head("/access.log");
+  expect(sourceStats[COMPRESSION_PROP]).toBe("gzip");
+  expect(sourceStats[UNCOMPRESSED_SIZE_PROP]).toBe(log.length);
+  expect(sourceStats.size as number).toBeLessThan(log.length / 10);
+
+  const u8 = await source.read("/access.log", "uint8array");
+  expect([u8[0], u8[1]]).toEqual([0x1f, 0x8b]);
+
+  const text = await fs.read("/access.log", "text", { start: 41, length: 20 });
+  expect(text).toBe(log.substring(41, 61));
+});
+
+it("append to a compressed file", async () => {
+  await fs.write("/access.log", "appended", { append: true });
+  expect(await fs.read("/access.log", "text")).toBe(log + "appended");
+  expect((await fs.head("/access.log")).size).toBe(log.length + 8);
+});
+
+it("store excluded paths and contents as they are", async () => {
+  await fs.write("/archive.gz", log);
+  await fs.mkdir("/raw/dir", { onNoParent: NoParentAction.MakeParents });
+  await fs.write("/raw/dir/access.log", log);
+  await fs.write("/image.bin", png);
+  for (const path of ["/archive.gz", "/raw/dir/access.log", "/image.bin"]) {
+    const stats = await source.head(path);
+    expect(stats[COMPRESSION_PROP]).toBe("identity");
+    expect((await fs.head(path)).size).toBe(stats.size);
+  }
+  expect(await source.read("/archive.gz", "text")).toBe(log);
+  expect(await fs.read("/image.bin", "uint8array")).toEqual(png);
+
+  // Overwrites a compressed file
+  await fs.write("/access.log", png);
+  expect((await source.head("/access.log"))[COMPRESSION_PROP]).toBe("identity");
+  expect(await fs.read("/access.log", "uint8array")).toEqual(png);
+});
+
+it("read files written directly to the source", async () => {
+  await source.write("/direct.txt", "direct");
+  expect((await fs.head("/direct.txt")).size).toBe(6);
+  expect(await fs.read("/direct.txt", "text")).toBe("direct");
+});
+
+it("compress by deflate", async () => {
+  const deflatefs = new CompressedFileSystem(source, { format: "deflate" });
+  await deflatefs.write("/deflate.log", log);
+  expect((await source.head("/deflate.log"))[COMPRESSION_PROP]).toBe("deflate");
+  // Readable without the option
+  expect(await fs.read("/deflate.log", "text")).toBe(log);
+});
+
+it("leave nothing when the props cannot be patched", async () => {
+  jest.spyOn(source, "patch").mockRejectedValue(
+    createError({
+      name: NotSupportedError.name,
+      repository: source.repository,
+      path: "/unpatched.log",
+    })
+  );
+  try {
+    await fs.write("/unpatched.log", log);
+    throw new Error("Written");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(NotSupportedError.name);
+  } finally {
+    jest.restoreAllMocks();
+  }
+  expect(await source.list("/")).not.toContain("/unpatched.log");
+});
+
+it("keep the props given to patch", async () => {
+  const props = { [COMPRESSION_PROP]: "gzip", tag: "x" };
+  await fs.patch("/direct.txt", props);
+  expect(props[COMPRESSION_PROP]).toBe("gzip");
+  const stats = await source.head("/direct.txt");
+  expect(stats["tag"]).toBe("x");
+  expect(stats[COMPRESSION_PROP]).toBeUndefined();
+});
+
+it("convert globs", () => {
+  expect(globToRegExp("*.gz").test("/a/b.gz")).toBe(true);
+  expect(globToRegExp("*.gz").test("/a/b.gzip")).toBe(false);
+  expect(globToRegExp("/logs/*.log").test("/logs/a.log")).toBe(true);
+  expect(globToRegExp("/logs/*.log").test("/logs/a/b.log")).toBe(false);
+  expect(globToRegExp("logs/**/*.log").test("/logs/a.log")).toBe(true);
+  expect(globToRegExp("logs/**/*.log").test("/logs/a/b.log")).toBe(true);
+  expect(globToRegExp("/a?c").test("/abc")).toBe(true);
+  expect(globToRegExp("/a+c").test("/aac")).toBe(false);
+});
@@ -0,0 +1,8 @@
+import { CompressedFileSystem } from "../../compressed/CompressedFileSystem";
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+import { testAll } from "../head";
+
+const fs = new CompressedFileSystem(
+  new MemoryFileSystem("/isomorphic-fs-test")
+);
+testAll(fs);
@@ -0,0 +1,16 @@
+import { EncryptedFileSystem } from "../../encrypted/EncryptedFileSystem";
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+import { getCrypto } from "../../util";
+import { testAll } from "../basic";
+
+const subtle = getCrypto().subtle;
+const masterKey = subtle.generateKey({ name: "AES-KW", length: 256 }, false, [
+  "wrapKey",
+  "unwrapKey",
+]);
+const fs = new EncryptedFileSystem(
+  new MemoryFileSystem("/isomorphic-fs-test"),
+  masterKey,
+  { chunkSize: 16 }
+);
+testAll(fs);
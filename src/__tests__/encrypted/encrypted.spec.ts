@@ -0,0 +1,103 @@
+import { EncryptedFileSystem } from "../../encrypted/EncryptedFileSystem";
+import { ErrorLike, OperationError } from "../../errors";
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+import { getCrypto } from "../../util";
+
+const subtle = getCrypto().subtle;
+const generateMasterKey = () =>
+  subtle.generateKey({ name: "AES-KW", length: 256 }, false, [
+    "wrapKey",
+    "unwrapKey",
+  ]);
+const nameKey = subtle.generateKey({ name: "HMAC", hash: "SHA-256" }, false, [
+  "sign",
+]);
+const masterKey = generateMasterKey();
+
+const source = new MemoryFileSystem("/encrypted");
+const fs = new EncryptedFileSystem(source, masterKey, {
+  chunkSize: 16,
+  nameKey,
+});
+const text = "The quick brown fox jumps over the lazy dog.";
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it("encrypt contents and names", async () => {
+  await fs.mkdir("/secret");
+  await fs.write("/secret/fox.txt", text);
+  expect(await fs.read("/secret/fox.txt", "text")).toBe(text);
+  expect((await fs.head("/secret/fox.txt")).size).toBe(text.length);
+  expect(await fs.list("/secret")).toEqual(["/secret/fox.txt"]);
+
+  const [dirPath] = await source.list("/");
+  expect(dirPath).not.toContain("secret");
+  const [filePath] = await source.list(dirPath as string);
+  expect(filePath).not.toContain("fox");
+  const encrypted = await source.read(filePath as string, "text");
+  expect(encrypted).not.toContain("quick");
+  // 3 chunks
+  expect((await source.head(filePath as string)).size).toBe(
+    44 + text.length + 3 * 28
+  );
+});
+
+it("decrypt only the chunks touched by a range", async () => {
+  const read = jest.spyOn(source, "read");
+  const u8 = await fs.read("/secret/fox.txt", "uint8array", {
+    start: 20,
+    length: 4,
+  });
+  expect(new TextDecoder().decode(u8)).toBe("jump");
+  // The header and the second chunk
+  expect(read.mock.calls.map((call) => call[2])).toEqual([
+    { start: 0, length: 44 },
+    { start: 44 + 44, length: 44 },
+  ]);
+});
+
+it("skip entries which are not encrypted", async () => {
+  await source.write("/plain.txt", text);
+  expect(await fs.list("/")).toEqual(["/secret"]);
+});
+
+it("reject tampered contents", async () => {
+  const [dirPath] = await fs.source.list("/");
+  const [filePath] = await source.list(dirPath as string);
+  const u8 = await source.read(filePath as string, "uint8array");
+  const tampered = u8.slice();
+  tampered[100] ^= 1;
+  await source.write(filePath as string, tampered);
+  try {
+    await fs.read("/secret/fox.txt", "text");
+    throw new Error("Tampered contents were read");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(OperationError.name);
+  }
+
+  // Chunks cannot be cut off
+  await source.write(filePath as string, u8.subarray(0, 44 + 2 * 44));
+  try {
+    await fs.read("/secret/fox.txt", "text");
+    throw new Error("Truncated contents were read");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(OperationError.name);
+  }
+});
+
+it("reject another master key", async () => {
+  await fs.write("/secret/fox.txt", text);
+  const other = new EncryptedFileSystem(source, generateMasterKey(), {
+    chunkSize: 16,
+    nameKey,
+  });
+  expect((await other.head("/secret/fox.txt")).size).toBe(text.length);
+  try {
+    await other.read("/secret/fox.txt", "text");
+    throw new Error("Read by another master key");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(OperationError.name);
+  }
+});
@@ -0,0 +1,19 @@
+import { EncryptedFileSystem } from "../../encrypted/EncryptedFileSystem";
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+import { getCrypto } from "../../util";
+import { testAll } from "../head";
+
+const subtle = getCrypto().subtle;
+const masterKey = subtle.generateKey({ name: "AES-KW", length: 256 }, false, [
+  "wrapKey",
+  "unwrapKey",
+]);
+const nameKey = subtle.generateKey({ name: "HMAC", hash: "SHA-256" }, false, [
+  "sign",
+]);
+const fs = new EncryptedFileSystem(
+  new MemoryFileSystem("/isomorphic-fs-test"),
+  masterKey,
+  { nameKey }
+);
+testAll(fs);
@@ -0,0 +1,147 @@
+import { NotExistAction } from "../../core";
+import {
+  ErasureCodedFileSystem,
+  ERASURE_SIZE_PROP,
+} from "../../erasure/ErasureCodedFileSystem";
+import {
+  createError,
+  ErrorLike,
+  NotReadableError,
+  NotSupportedError,
+} from "../../errors";
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+
+const backends = [0, 1, 2, 3, 4].map(
+  (i) => new MemoryFileSystem(`/erasure-${i}`)
+);
+// 3 data shards of 4 bytes and 2 parity shards in a stripe.
+const fs = new ErasureCodedFileSystem(backends, {
+  parityShards: 2,
+  shardSize: 4,
+});
+const text = "The quick brown fox jumps over the lazy dog";
+
+async function lose(indices: number[], path: string) {
+  for (const i of indices) {
+    await backends[i]?.delete(path, {
+      onNotExist: NotExistAction.Error,
+      recursive: false,
+    });
+  }
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it("split a file into shards", async () => {
+  await fs.mkcol("/dir");
+  await fs.write("/dir/fox.txt", text);
+
+  expect((await fs.head("/dir/fox.txt")).size).toBe(43);
+  // 4 stripes of 12 bytes
+  for (const backend of backends) {
+    expect((await backend.head("/dir/fox.txt")).size).toBe(16);
+  }
+  const shard = await backends[1]?.read("/dir/fox.txt", "text", {
+    start: 0,
+    length: 4,
+  });
+  expect(shard).toBe("quic");
+  expect(await fs.read("/dir/fox.txt", "text")).toBe(text);
+  expect(await fs.list("/dir")).toEqual(["/dir/fox.txt"]);
+});
+
+it("read only the shards the range touches", async () => {
+  const spies = backends.map((backend) => jest.spyOn(backend, "read"));
+  const u8 = await fs.read("/dir/fox.txt", "uint8array", {
+    start: 13,
+    length: 5,
+  });
+  expect(new TextDecoder().decode(u8)).toBe(text.substring(13, 18));
+  expect(spies.map((spy) => spy.mock.calls.length)).toEqual([1, 1, 0, 0, 0]);
+});
+
+it("write a range", async () => {
+  await fs.write("/dir/fox.txt", "QUICK", { start: 4 });
+  expect(await fs.read("/dir/fox.txt", "text")).toBe(
+    text.replace("quick", "QUICK")
+  );
+});
+
+it("read while parity shards are lost", async () => {
+  await fs.write("/lost.txt", text);
+  await lose([0, 3], "/lost.txt");
+  expect(await fs.read("/lost.txt", "text")).toBe(text);
+  expect(await fs.read("/lost.txt", "text", { start: 30, length: 13 })).toBe(
+    text.substring(30)
+  );
+
+  await lose([2], "/lost.txt");
+  try {
+    await fs.read("/lost.txt", "text");
+    throw new Error("Read");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(NotReadableError.name);
+  }
+
+  await fs.delete("/lost.txt");
+  for (const backend of backends) {
+    expect(await backend.list("/")).not.toContain("/lost.txt");
+  }
+});
+
+it("repair the lost shards", async () => {
+  await fs.write("/repaired.txt", text);
+  await fs.patch("/repaired.txt", {
+    accessed: 1000,
+    created: 1000,
+    modified: 1000,
+  });
+  await lose([1, 4], "/repaired.txt");
+  await lose([1, 4], "/dir/fox.txt");
+
+  expect(await fs.repair()).toBe(4);
+  expect(await fs.repair()).toBe(0);
+  for (const i of [1, 4]) {
+    const backend = backends[i] as MemoryFileSystem;
+    expect((await backend.head("/repaired.txt")).modified).toBe(1000);
+  }
+  await lose([0, 2], "/repaired.txt");
+  expect(await fs.read("/repaired.txt", "text")).toBe(text);
+});
+
+it("leave no shard when the props cannot be patched", async () => {
+  const backend = backends[2] as MemoryFileSystem;
+  jest.spyOn(backend, "patch").mockRejectedValue(
+    createError({
+      name: NotSupportedError.name,
+      repository: backend.repository,
+      path: "/unpatched.txt",
+    })
+  );
+  try {
+    await fs.write("/unpatched.txt", text);
+    throw new Error("Written");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(NotSupportedError.name);
+  } finally {
+    jest.restoreAllMocks();
+  }
+  expect(await backend.list("/")).not.toContain("/unpatched.txt");
+});
+
+it("keep the props given to patch", async () => {
+  const props = { [ERASURE_SIZE_PROP]: 1, tag: "x" };
+  await fs.patch("/dir/fox.txt", props);
+  expect(props[ERASURE_SIZE_PROP]).toBe(1);
+  const stats = await fs.head("/dir/fox.txt");
+  expect(stats["tag"]).toBe("x");
+  expect(stats.size).toBe(43);
+});
+
+it("reject too many parity shards", () => {
+  expect(
+    () => new ErasureCodedFileSystem(backends, { parityShards: 5 })
+  ).toThrow(RangeError);
+});
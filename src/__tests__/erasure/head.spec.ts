@@ -0,0 +1,10 @@
+import { ErasureCodedFileSystem } from "../../erasure/ErasureCodedFileSystem";
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+import { testAll } from "../head";
+
+const fs = new ErasureCodedFileSystem([
+  new MemoryFileSystem("/isomorphic-fs-test"),
+  new MemoryFileSystem("/isomorphic-fs-test"),
+  new MemoryFileSystem("/isomorphic-fs-test"),
+]);
+testAll(fs);
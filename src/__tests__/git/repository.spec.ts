@@ -0,0 +1,153 @@
+import { execFileSync } from "child_process";
+import { mkdirSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  ErrorLike,
+  NoModificationAllowedError,
+  NotFoundError,
+} from "../../errors";
+import { GitFileSystem } from "../../git/GitFileSystem";
+import { NodeFileSystem } from "../../node/NodeFileSystem";
+
+const workDir = join(tmpdir(), "univ-fs-test-git");
+const source = { fs: new NodeFileSystem(join(workDir, ".git")), path: "/" };
+const time1 = 1577934245; // 2020-01-02T03:04:05Z
+const time2 = 1609556645; // 2021-01-02T03:04:05Z
+
+function git(args: string[], time = time2) {
+  return execFileSync("git", args, {
+    cwd: workDir,
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: "test",
+      GIT_AUTHOR_EMAIL: "test@example.com",
+      GIT_AUTHOR_DATE: `${time} +0000`,
+      GIT_COMMITTER_NAME: "test",
+      GIT_COMMITTER_EMAIL: "test@example.com",
+      GIT_COMMITTER_DATE: `${time} +0000`,
+    },
+  })
+    .toString()
+    .trim();
+}
+
+function config(version: number) {
+  const lines: string[] = [];
+  for (let i = 0; i < 200; i++) {
+    lines.push(`  "key${i}": "value${i}",`);
+  }
+  return `{\n${lines.join("\n")}\n  "version": ${version}\n}\n`;
+}
+
+beforeAll(() => {
+  rmSync(workDir, { recursive: true, force: true });
+  mkdirSync(join(workDir, "dir"), { recursive: true });
+  git(["init", "-q", "-b", "main"]);
+  writeFileSync(join(workDir, "config.json"), config(1));
+  writeFileSync(join(workDir, "dir", "a.txt"), "a");
+  git(["add", "-A"], time1);
+  git(["commit", "-q", "-m", "first"], time1);
+  git(["tag", "-a", "v1", "-m", "version 1"], time1);
+  git(["branch", "old"], time1);
+  writeFileSync(join(workDir, "config.json"), config(2));
+  git(["add", "-A"]);
+  git(["commit", "-q", "-m", "second"]);
+});
+
+afterAll(() => {
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+describe("loose objects", () => {
+  it("read HEAD", async () => {
+    const fs = new GitFileSystem("git-test", source);
+    expect(await fs.read("/config.json", "text")).toBe(config(2));
+    expect(await fs.read("/dir/a.txt", "text")).toBe("a");
+    const list = await fs.list("/");
+    expect(list.sort()).toEqual(["/config.json", "/dir"]);
+  });
+
+  it("etag is the blob SHA and modified is the commit time", async () => {
+    const fs = new GitFileSystem("git-test", source);
+    const stats = await fs.head("/config.json");
+    expect(stats.etag).toBe(git(["rev-parse", "HEAD:config.json"]));
+    expect(stats.modified).toBe(time2 * 1000);
+    expect(stats.size).toBe(config(2).length);
+  });
+
+  it("range read", async () => {
+    const fs = new GitFileSystem("git-test", source);
+    const text = await fs.read("/dir/a.txt", "text", { start: 0, length: 1 });
+    expect(text).toBe("a");
+  });
+});
+
+describe("packfiles", () => {
+  beforeAll(() => {
+    git(["repack", "-a", "-d", "-f", "-q"]);
+    git(["prune-packed"]);
+    git(["pack-refs", "--all"]);
+  });
+
+  it("contains deltas", () => {
+    const packDir = join(workDir, ".git", "objects", "pack");
+    const index = readdirSync(packDir).find((name) => name.endsWith(".idx"));
+    const verify = git(["verify-pack", "-v", join(packDir, index as string)]);
+    expect(verify).toMatch(/chain length = 1/);
+  });
+
+  it("read a branch", async () => {
+    const fs = new GitFileSystem("git-test", source, { ref: "main" });
+    expect(await fs.read("/config.json", "text")).toBe(config(2));
+    const old = new GitFileSystem("git-test", source, { ref: "old" });
+    expect(await old.read("/config.json", "text")).toBe(config(1));
+  });
+
+  it("read an annotated tag", async () => {
+    const fs = new GitFileSystem("git-test", source, { ref: "v1" });
+    expect(await fs.read("/config.json", "text")).toBe(config(1));
+    const stats = await fs.head("/config.json");
+    expect(stats.modified).toBe(time1 * 1000);
+  });
+
+  it("read a commit", async () => {
+    const sha = git(["rev-parse", "HEAD~1"]);
+    const fs = new GitFileSystem("git-test", source, { ref: sha });
+    expect(await fs.read("/config.json", "text")).toBe(config(1));
+    expect(await fs.read("/dir/a.txt", "text")).toBe("a");
+  });
+});
+
+it("unknown ref", async () => {
+  const fs = new GitFileSystem("git-test", source, { ref: "unknown" });
+  try {
+    await fs.read("/config.json", "text");
+    throw new Error("unknown was found");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(NotFoundError.name);
+  }
+});
+
+it("load again after failing to load", async () => {
+  const fs = new GitFileSystem("git-test", source, { ref: "later" });
+  try {
+    await fs.read("/config.json", "text");
+    throw new Error("later was found");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(NotFoundError.name);
+  }
+
+  git(["branch", "later"]);
+  expect(await fs.read("/config.json", "text")).toBe(config(2));
+});
+
+it("read-only", async () => {
+  const fs = new GitFileSystem("git-test", source);
+  try {
+    await fs.write("/new.txt", "new");
+    throw new Error("/new.txt was written");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(NoModificationAllowedError.name);
+  }
+});
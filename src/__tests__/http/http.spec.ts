@@ -0,0 +1,86 @@
+import { Server } from "http";
+import {
+  ErrorLike,
+  NoModificationAllowedError,
+  NotFoundError,
+} from "../../errors";
+import { HttpFileSystem } from "../../http/HttpFileSystem";
+import { startServer, stopServer } from "./server";
+
+const port = 19021;
+const fs = new HttpFileSystem(`http://localhost:${port}/`);
+let server: Server;
+
+beforeAll(async () => {
+  server = await startServer(port);
+});
+
+afterAll(async () => {
+  await stopServer(server);
+});
+
+it("head", async () => {
+  const stats = await fs.head("/test.txt");
+  expect(stats.size).toBe(10);
+  expect(stats.modified).toBe(Date.UTC(2022, 4, 1));
+  expect(stats.etag).toBe("10");
+});
+
+it("head directory", async () => {
+  const stats = await fs.head("/dir");
+  expect(stats.size).toBeUndefined();
+});
+
+it("nothing", async () => {
+  try {
+    await fs.head("/nothing.txt");
+    throw new Error("/nothing.txt exists");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(NotFoundError.name);
+  }
+});
+
+it("read", async () => {
+  expect(await fs.read("/test.txt", "text")).toBe("0123456789");
+  expect(await fs.read("/dir/日本語.txt", "text")).toBe("日本語");
+});
+
+it("range read", async () => {
+  const text = await fs.read("/test.txt", "text", { start: 2, length: 3 });
+  expect(text).toBe("234");
+});
+
+it("range read without range support", async () => {
+  const text = await fs.read("/norange/c.txt", "text", {
+    start: 2,
+    length: 3,
+  });
+  expect(text).toBe("234");
+});
+
+it("get url", async () => {
+  const url = await fs.getURL("/dir/a.txt");
+  expect(url).toBe(`http://localhost:${port}/dir/a.txt`);
+});
+
+it("read-only", async () => {
+  try {
+    await fs.write("/test.txt", "changed");
+    throw new Error("/test.txt was written");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(NoModificationAllowedError.name);
+  }
+  try {
+    await fs.delete("/test.txt");
+    throw new Error("/test.txt was deleted");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(NoModificationAllowedError.name);
+  }
+  try {
+    await fs.mkcol("/new");
+    throw new Error("/new was made");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(NoModificationAllowedError.name);
+  }
+  expect(await fs.read("/test.txt", "text")).toBe("0123456789");
+});
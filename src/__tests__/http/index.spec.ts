@@ -0,0 +1,46 @@
+import { Server } from "http";
+import { ErrorLike, NotSupportedError } from "../../errors";
+import { HttpFileSystem } from "../../http/HttpFileSystem";
+import { startServer, stopServer } from "./server";
+
+const port = 19022;
+const baseURL = `http://localhost:${port}`;
+let server: Server;
+
+beforeAll(async () => {
+  server = await startServer(port);
+});
+
+afterAll(async () => {
+  await stopServer(server);
+});
+
+it("html index", async () => {
+  const fs = new HttpFileSystem(baseURL, { index: "html" });
+  const list = await fs.list("/dir");
+  expect(list.sort()).toEqual(["/dir/a.txt", "/dir/sub", "/dir/日本語.txt"]);
+  const root = await fs.list("/");
+  expect(root.sort()).toEqual(["/dir", "/norange", "/test.txt"]);
+});
+
+it("json index", async () => {
+  const fs = new HttpFileSystem(baseURL, {
+    index: "json",
+    indexFile: "index.json",
+  });
+  const items = await fs.getDirectory("/dir").ls();
+  expect(items.sort()).toEqual(["/dir/a.txt", "/dir/sub", "/dir/日本語.txt"]);
+  const sub = await fs.list("/dir/sub");
+  expect(sub).toEqual(["/dir/sub/b.txt"]);
+});
+
+it("no index", async () => {
+  const fs = new HttpFileSystem(baseURL);
+  expect(fs.supportDirectory()).toBe(false);
+  try {
+    await fs.list("/dir");
+    throw new Error("/dir was listed");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(NotSupportedError.name);
+  }
+});
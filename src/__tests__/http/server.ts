@@ -0,0 +1,104 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+
+const modified = new Date(Date.UTC(2022, 4, 1)).toUTCString();
+
+export const files: { [path: string]: string } = {
+  "/test.txt": "0123456789",
+  "/dir/a.txt": "a",
+  "/dir/sub/b.txt": "bb",
+  "/dir/日本語.txt": "日本語",
+  "/norange/c.txt": "0123456789",
+};
+
+function listDirectory(dir: string) {
+  const names = new Set<string>();
+  for (const path of Object.keys(files)) {
+    if (path.startsWith(dir)) {
+      const rest = path.substring(dir.length);
+      const slash = rest.indexOf("/");
+      names.add(slash < 0 ? rest : rest.substring(0, slash + 1));
+    }
+  }
+  return Array.from(names);
+}
+
+function handle(req: IncomingMessage, res: ServerResponse) {
+  const url = new URL(req.url as string, "http://localhost");
+  const path = decodeURIComponent(url.pathname);
+
+  if (path.endsWith("/index.json") || path.endsWith("/")) {
+    const dir = path.substring(0, path.lastIndexOf("/") + 1);
+    const names = listDirectory(dir);
+    if (names.length === 0) {
+      res.writeHead(404).end();
+    } else if (path.endsWith("/index.json")) {
+      const index = names.map((name) =>
+        name.endsWith("/")
+          ? { name: name.slice(0, -1), type: "directory", mtime: modified }
+          : {
+              name,
+              type: "file",
+              mtime: modified,
+              size: Buffer.byteLength(files[dir + name] as string),
+            }
+      );
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(index));
+    } else {
+      const links = names.map(
+        (name) =>
+          `<a href="${encodeURIComponent(name).replace(
+            "%2F",
+            "/"
+          )}">${name}</a>`
+      );
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end(
+        `<html><body><a href="../">../</a>${links.join("")}</body></html>`
+      );
+    }
+    return;
+  }
+
+  const content = files[path];
+  if (content == null) {
+    if (0 < listDirectory(path + "/").length) {
+      res.writeHead(301, { Location: url.pathname + "/" }).end();
+    } else {
+      res.writeHead(404).end();
+    }
+    return;
+  }
+
+  let body = Buffer.from(content);
+  const headers: { [name: string]: string | number } = {
+    "Content-Length": body.length,
+    "Last-Modified": modified,
+    ETag: `"${body.length}"`,
+  };
+  const range = /^bytes=(\d+)-(\d*)$/.exec(req.headers.range ?? "");
+  let status = 200;
+  if (range && !path.startsWith("/norange/")) {
+    const start = parseInt(range[1] as string, 10);
+    const end = range[2] ? parseInt(range[2], 10) : body.length - 1;
+    headers["Content-Range"] = `bytes ${start}-${end}/${body.length}`;
+    body = body.subarray(start, end + 1);
+    headers["Content-Length"] = body.length;
+    status = 206;
+  }
+  res.writeHead(status, headers);
+  res.end(req.method === "HEAD" ? undefined : body);
+}
+
+export function startServer(port: number): Promise<Server> {
+  const server = createServer(handle);
+  return new Promise((resolve) => {
+    server.listen(port, () => resolve(server));
+  });
+}
+
+export function stopServer(server: Server): Promise<void> {
+  return new Promise((resolve, reject) => {
+    server.close((e) => (e ? reject(e) : resolve()));
+  });
+}
@@ -0,0 +1,10 @@
+import "fake-indexeddb/auto";
+import { IndexedDBFileSystem } from "../../idb/IndexedDBFileSystem";
+import { testAll } from "../basic";
+
+const fs = new IndexedDBFileSystem("isomorphic-fs-test-basic");
+testAll(fs, {
+  teardown: async () => {
+    await fs.close();
+  },
+});
@@ -0,0 +1,65 @@
+import "fake-indexeddb/auto";
+import { ErrorLike, QuotaExceededError } from "../../errors";
+import { CHUNK_SIZE } from "../../idb/idb";
+import { IndexedDBDirectory } from "../../idb/IndexedDBDirectory";
+import { IndexedDBFileSystem } from "../../idb/IndexedDBFileSystem";
+
+const fs = new IndexedDBFileSystem("isomorphic-fs-test-chunk");
+
+afterAll(async () => {
+  await fs.close();
+});
+
+function bytes(size: number, seed: number) {
+  const u8 = new Uint8Array(size);
+  for (let i = 0; i < size; i++) {
+    u8[i] = (i + seed) % 251;
+  }
+  return u8;
+}
+
+it("range read across chunks", async () => {
+  const u8 = bytes(CHUNK_SIZE * 2 + 100, 0);
+  await fs.write("/big.bin", u8);
+  const start = CHUNK_SIZE - 10;
+  const part = await fs.read("/big.bin", "uint8array", { start, length: 20 });
+  expect(part).toEqual(u8.subarray(start, start + 20));
+});
+
+it("range write across chunks", async () => {
+  const u8 = await fs.read("/big.bin", "uint8array");
+  const patch = bytes(CHUNK_SIZE, 7);
+  await fs.write("/big.bin", patch, { start: CHUNK_SIZE + 50 });
+  u8.set(patch, CHUNK_SIZE + 50);
+  const after = await fs.read("/big.bin", "uint8array");
+  expect(after.length).toBe(CHUNK_SIZE * 2 + 100);
+  expect(after).toEqual(u8);
+});
+
+it("append", async () => {
+  await fs.write("/append.txt", "abc");
+  await fs.write("/append.txt", "def", { append: true });
+  expect(await fs.read("/append.txt", "text")).toBe("abcdef");
+});
+
+it("patch custom props and times", async () => {
+  const modified = Date.UTC(2020, 0, 1);
+  await fs.patch("/append.txt", { modified, owner: "otani" });
+  const stats = await fs.head("/append.txt");
+  expect(stats.modified).toBe(modified);
+  expect(stats["owner"]).toBe("otani");
+});
+
+it("map IndexedDB errors", async () => {
+  const dir = fs.getDirectory("/") as IndexedDBDirectory;
+  try {
+    await fs.mkcol("/dir");
+    await (fs.getDirectory("/dir") as IndexedDBDirectory)._doMkcol();
+    throw new Error("/dir was created twice");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe("ConstraintError");
+  }
+  const error = fs._error(dir.path, { name: "QuotaExceededError" }, true);
+  expect(error.name).toBe(QuotaExceededError.name);
+  expect(error.code).toBe(QuotaExceededError.code);
+});
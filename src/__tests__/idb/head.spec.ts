@@ -0,0 +1,10 @@
+import "fake-indexeddb/auto";
+import { IndexedDBFileSystem } from "../../idb/IndexedDBFileSystem";
+import { testAll } from "../head";
+
+const fs = new IndexedDBFileSystem("isomorphic-fs-test-head");
+testAll(fs, {
+  teardown: async () => {
+    await fs.close();
+  },
+});
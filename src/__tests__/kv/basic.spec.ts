@@ -0,0 +1,5 @@
+import { MapFileSystem } from "../../kv/MapFileSystem";
+import { testAll } from "../basic";
+
+const fs = new MapFileSystem("isomorphic-fs-test-basic");
+testAll(fs);
@@ -0,0 +1,5 @@
+import { MapFileSystem } from "../../kv/MapFileSystem";
+import { testAll } from "../head";
+
+const fs = new MapFileSystem("isomorphic-fs-test-head");
+testAll(fs);
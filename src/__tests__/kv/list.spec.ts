@@ -0,0 +1,5 @@
+import { MapFileSystem } from "../../kv/MapFileSystem";
+import { testAll } from "../list";
+
+const fs = new MapFileSystem("isomorphic-fs-test-list");
+testAll(fs);
@@ -0,0 +1,84 @@
+import { NotExistAction } from "../../core";
+import { MapFileSystem } from "../../kv/MapFileSystem";
+import { WebStorageFileSystem } from "../../kv/WebStorageFileSystem";
+
+class MemoryStorage implements Storage {
+  private readonly items = new Map<string, string>();
+
+  public get length() {
+    return this.items.size;
+  }
+
+  public clear() {
+    this.items.clear();
+  }
+
+  public getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  public key(index: number) {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+
+  public removeItem(key: string) {
+    this.items.delete(key);
+  }
+
+  public setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+}
+
+const map = new Map<string, Uint8Array>();
+const fs = new MapFileSystem("kv-test", map, { chunkSize: 4 });
+
+it("range read across chunks", async () => {
+  await fs.write("/range.txt", "0123456789");
+  const text = await fs.read("/range.txt", "text", { start: 3, length: 6 });
+  expect(text).toBe("345678");
+});
+
+it("range write and append across chunks", async () => {
+  await fs.write("/range.txt", "abc", { start: 2 });
+  await fs.write("/range.txt", "XYZ", { append: true });
+  const text = await fs.read("/range.txt", "text");
+  expect(text).toBe("01abc56789XYZ");
+  const stats = await fs.head("/range.txt");
+  expect(stats.size).toBe(13);
+});
+
+it("removes stale chunks on overwrite", async () => {
+  await fs.write("/range.txt", "short");
+  const chunks = Array.from(map.keys()).filter((key) =>
+    key.startsWith("c:/range.txt:")
+  );
+  expect(chunks.length).toBe(2);
+  expect(await fs.read("/range.txt", "text")).toBe("short");
+});
+
+it("removes chunks on delete", async () => {
+  await fs.delete("/range.txt");
+  expect(Array.from(map.keys()).some((key) => key.startsWith("c:"))).toBe(
+    false
+  );
+});
+
+it("web storage", async () => {
+  const storage = new MemoryStorage();
+  storage.setItem("other", "kept");
+  const wsfs = new WebStorageFileSystem(storage);
+  await wsfs.mkdir("/dir");
+  await wsfs.write("/dir/binary.bin", new Uint8Array([0, 127, 128, 255]));
+  const u8 = await wsfs.read("/dir/binary.bin", "uint8array");
+  expect(Array.from(u8)).toEqual([0, 127, 128, 255]);
+  const list = await wsfs.list("/dir");
+  expect(list).toEqual(["/dir/binary.bin"]);
+
+  await wsfs.delete("/dir", {
+    onNotExist: NotExistAction.Error,
+    recursive: true,
+  });
+  expect(await wsfs.list("/")).toEqual([]);
+  expect(storage.getItem("other")).toBe("kept");
+});
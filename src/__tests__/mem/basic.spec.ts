@@ -0,0 +1,5 @@
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+import { testAll } from "../basic";
+
+const fs = new MemoryFileSystem("/isomorphic-fs-test");
+testAll(fs);
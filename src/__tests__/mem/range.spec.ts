@@ -0,0 +1,30 @@
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+
+const fs = new MemoryFileSystem("/isomorphic-fs-test");
+
+it("range read", async () => {
+  await fs.write("/range.txt", "0123456789");
+  const text = await fs.read("/range.txt", "text", { start: 2, length: 3 });
+  expect(text).toBe("234");
+});
+
+it("range write", async () => {
+  await fs.write("/range.txt", "abc", { start: 8 });
+  const text = await fs.read("/range.txt", "text");
+  expect(text).toBe("01234567abc");
+  const stats = await fs.head("/range.txt");
+  expect(stats.size).toBe(11);
+});
+
+it("etag changes on write", async () => {
+  const before = await fs.head("/range.txt");
+  await fs.write("/range.txt", "x", { append: true });
+  const after = await fs.head("/range.txt");
+  expect(after.etag).not.toBe(before.etag);
+});
+
+it("patch custom props", async () => {
+  await fs.patch("/range.txt", { author: "otani" });
+  const stats = await fs.head("/range.txt");
+  expect(stats["author"]).toBe("otani");
+});
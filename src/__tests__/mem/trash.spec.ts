@@ -0,0 +1,117 @@
+import { EntryType, ExistsAction, NotExistAction } from "../../core";
+import { ErrorLike, NotFoundError, PathExistError } from "../../errors";
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+
+const fs = new MemoryFileSystem("/trash", { trash: true });
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it("move a deleted directory into the trash as one item", async () => {
+  await fs.mkcol("/dir");
+  await fs.mkcol("/dir/sub");
+  await fs.write("/dir/a.txt", "a");
+  await fs.write("/dir/sub/b.txt", "b");
+  await fs.delete("/dir", {
+    onNotExist: NotExistAction.Error,
+    recursive: true,
+  });
+
+  try {
+    await fs.head("/dir");
+    throw new Error("Found");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(NotFoundError.name);
+  }
+  const items = await fs.listTrash();
+  expect(items.length).toBe(1);
+  expect(items[0]?.path).toBe("/dir");
+  expect(items[0]?.type).toBe(EntryType.Directory);
+});
+
+it("hide the trash from the listings and the traversals", async () => {
+  expect(await fs.list("/")).toEqual([]);
+
+  await fs.write("/c.txt", "c");
+  await fs.copy("/", "/copied", {
+    onExists: ExistsAction.Overwrite,
+    recursive: true,
+  });
+  expect(await fs.list("/copied")).toEqual(["/copied/c.txt"]);
+  for (const path of ["/c.txt", "/copied"]) {
+    await fs.delete(path, {
+      onNotExist: NotExistAction.Error,
+      recursive: true,
+      trash: false,
+    });
+  }
+});
+
+it("restore a directory from the trash", async () => {
+  const [item] = await fs.listTrash();
+  await fs.restoreFromTrash(item?.id as string);
+
+  expect(await fs.read("/dir/sub/b.txt", "text")).toBe("b");
+  expect(await fs.listTrash()).toEqual([]);
+});
+
+it("restore a file to a path which exists", async () => {
+  await fs.delete("/dir/a.txt");
+  await fs.write("/dir/a.txt", "new");
+  const [item] = await fs.listTrash();
+  try {
+    await fs.restoreFromTrash(item?.id as string);
+    throw new Error("Restored");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(PathExistError.name);
+  }
+  expect(await fs.read("/dir/a.txt", "text")).toBe("new");
+});
+
+it("restore an unknown item", async () => {
+  try {
+    await fs.restoreFromTrash("../dir");
+    throw new Error("Restored");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(NotFoundError.name);
+  }
+});
+
+it("delete permanently when trash is false", async () => {
+  await fs.delete("/dir/sub/b.txt", {
+    onNotExist: NotExistAction.Error,
+    recursive: false,
+    trash: false,
+  });
+  expect((await fs.listTrash()).length).toBe(1);
+});
+
+it("move does not trash the source", async () => {
+  await fs.move("/dir/a.txt", "/moved.txt", {
+    onExists: ExistsAction.Overwrite,
+  });
+  expect(await fs.read("/moved.txt", "text")).toBe("new");
+  expect((await fs.listTrash()).length).toBe(1);
+});
+
+it("empty the trash older than the age", async () => {
+  const now = Date.now();
+  jest.spyOn(Date, "now").mockReturnValue(now + 60000);
+  await fs.delete("/moved.txt");
+  expect((await fs.listTrash()).length).toBe(2);
+
+  expect(await fs.emptyTrash({ olderThan: 30000 })).toBe(1);
+  const items = await fs.listTrash();
+  expect(items.map((item) => item.path)).toEqual(["/moved.txt"]);
+
+  expect(await fs.emptyTrash()).toBe(1);
+  expect(await fs.list("/.trash")).toEqual([]);
+});
+
+it("list the trash directory when not in the trash mode", async () => {
+  const plain = new MemoryFileSystem("/plain");
+  await plain.mkcol("/.trash");
+  await plain.write("/.trash/a.txt", "a");
+  expect(await plain.list("/")).toEqual(["/.trash"]);
+});
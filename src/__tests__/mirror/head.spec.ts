@@ -0,0 +1,8 @@
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+import { MirrorFileSystem } from "../../mirror/MirrorFileSystem";
+import { testAll } from "../head";
+
+const fs = new MirrorFileSystem(new MemoryFileSystem("/isomorphic-fs-test"), [
+  new MemoryFileSystem("/isomorphic-fs-test"),
+]);
+testAll(fs);
@@ -0,0 +1,117 @@
+import { ExistsAction, NotExistAction } from "../../core";
+import {
+  createError,
+  ErrorLike,
+  FileSystemError,
+  NetworkError,
+  NoModificationAllowedError,
+  TimeoutError,
+} from "../../errors";
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+import { MirrorFileSystem } from "../../mirror/MirrorFileSystem";
+import { ReadOnlyFileSystem } from "../../readonly/ReadOnlyFileSystem";
+
+const primary = new MemoryFileSystem("/primary");
+const replica = new MemoryFileSystem("/replica");
+const fs = new MirrorFileSystem(primary, [replica]);
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it("write to all the backends", async () => {
+  await fs.mkcol("/dir");
+  await fs.write("/dir/a.txt", "mirrored");
+  await fs.patch("/dir/a.txt", {
+    accessed: 1000,
+    created: 1000,
+    modified: 1000,
+    tag: "hot",
+  });
+
+  for (const backend of [primary, replica]) {
+    expect(await backend.read("/dir/a.txt", "text")).toBe("mirrored");
+    const stats = await backend.head("/dir/a.txt");
+    expect(stats.modified).toBe(1000);
+    expect(stats["tag"]).toBe("hot");
+  }
+});
+
+it("fail over to the replica", async () => {
+  const error = createError({
+    name: NetworkError.name,
+    repository: primary.repository,
+    path: "/dir/a.txt",
+  });
+  jest.spyOn(primary, "_doHead").mockRejectedValue(error);
+  jest.spyOn(primary, "list").mockRejectedValue(error);
+
+  expect(await fs.read("/dir/a.txt", "text")).toBe("mirrored");
+  expect(await fs.list("/dir")).toEqual(["/dir/a.txt"]);
+});
+
+it("do not fail over by other errors", async () => {
+  await replica.write("/replica-only.txt", "replica");
+  try {
+    await fs.head("/replica-only.txt");
+    throw new Error("Found");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe("NotFoundError");
+  }
+
+  jest.spyOn(primary, "_doHead").mockRejectedValue(
+    createError({
+      name: TimeoutError.name,
+      repository: primary.repository,
+      path: "/replica-only.txt",
+    })
+  );
+  expect((await fs.head("/replica-only.txt")).size).toBe(7);
+});
+
+it("delete from all the backends", async () => {
+  await fs.copy("/dir", "/copied", {
+    onExists: ExistsAction.Overwrite,
+    recursive: true,
+  });
+  await fs.delete("/dir", {
+    onNotExist: NotExistAction.Error,
+    recursive: true,
+  });
+  for (const backend of [primary, replica]) {
+    expect(await backend.list("/")).not.toContain("/dir");
+    expect(await backend.read("/copied/a.txt", "text")).toBe("mirrored");
+  }
+});
+
+it("report divergences within the write quorum", async () => {
+  const broken = new ReadOnlyFileSystem(new MemoryFileSystem("/broken"));
+  const quorum = new MirrorFileSystem(primary, [replica, broken], {
+    writeQuorum: 2,
+  });
+
+  const errors: FileSystemError[] = [];
+  expect(await quorum.write("/quorum.txt", "two", undefined, errors)).toBe(
+    true
+  );
+  expect(errors.length).toBe(1);
+  expect(errors[0]?.name).toBe(NoModificationAllowedError.name);
+  expect(errors[0]?.repository).toBe("/broken");
+  expect(await replica.read("/quorum.txt", "text")).toBe("two");
+});
+
+it("fail without the write quorum", async () => {
+  const broken = new ReadOnlyFileSystem(new MemoryFileSystem("/broken"));
+  const quorum = new MirrorFileSystem(primary, [broken]);
+
+  const errors: FileSystemError[] = [];
+  expect(await quorum.mkcol("/failed", undefined, errors)).toBe(false);
+  expect(errors.length).toBe(1);
+  expect(errors[0]?.name).toBe(NoModificationAllowedError.name);
+});
+
+it("reject an illegal write quorum", () => {
+  expect(() => new MirrorFileSystem(primary, [], { writeQuorum: 2 })).toThrow(
+    RangeError
+  );
+});
@@ -0,0 +1,8 @@
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+import { MountFileSystem } from "../../mount/MountFileSystem";
+import { testAll } from "../basic";
+
+const fs = new MountFileSystem("mount-test-basic", {
+  "/": new MemoryFileSystem("/isomorphic-fs-test"),
+});
+testAll(fs);
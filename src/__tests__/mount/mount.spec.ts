@@ -0,0 +1,97 @@
+import { ExistsAction } from "../../core";
+import { ErrorLike, NoModificationAllowedError } from "../../errors";
+import { MapFileSystem } from "../../kv/MapFileSystem";
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+import { MountFileSystem } from "../../mount/MountFileSystem";
+
+const root = new MemoryFileSystem("/root");
+const cache = new MemoryFileSystem("/cache");
+const data = new MapFileSystem("data");
+const nested = new MemoryFileSystem("/nested");
+const fs = new MountFileSystem("mount-test", {
+  "/": root,
+  "/cache": cache,
+  "/data": data,
+  "/data/deep/nested": nested,
+});
+
+it("route to the longest prefix", async () => {
+  await fs.write("/root.txt", "root");
+  await fs.write("/cache/cache.txt", "cache");
+  await fs.write("/data/data.txt", "data");
+  await fs.write("/data/deep/nested/nested.txt", "nested");
+  expect(await root.read("/root.txt", "text")).toBe("root");
+  expect(await cache.read("/cache.txt", "text")).toBe("cache");
+  expect(await data.read("/data.txt", "text")).toBe("data");
+  expect(await nested.read("/nested.txt", "text")).toBe("nested");
+});
+
+it("list mount points as directories", async () => {
+  const list = await fs.list("/");
+  expect(list.sort()).toEqual(["/cache", "/data", "/root.txt"]);
+  expect((await fs.list("/data")).sort()).toEqual([
+    "/data/data.txt",
+    "/data/deep",
+  ]);
+  expect(await fs.list("/data/deep")).toEqual(["/data/deep/nested"]);
+  const stats = await fs.head("/data/deep");
+  expect(stats.size).toBeUndefined();
+});
+
+it("copy across mounts", async () => {
+  await fs.copy("/cache/cache.txt", "/data/copied.txt", {
+    onExists: ExistsAction.Overwrite,
+  });
+  expect(await data.read("/copied.txt", "text")).toBe("cache");
+  expect(await cache.read("/cache.txt", "text")).toBe("cache");
+});
+
+it("move a directory across mounts", async () => {
+  await fs.mkdir("/cache/dir");
+  await fs.write("/cache/dir/a.txt", "a");
+  await fs.write("/cache/dir/b.txt", "b");
+  await fs.move("/cache/dir", "/data/dir", {
+    onExists: ExistsAction.Overwrite,
+  });
+  expect((await data.list("/dir")).sort()).toEqual([
+    "/dir/a.txt",
+    "/dir/b.txt",
+  ]);
+  expect(await data.read("/dir/b.txt", "text")).toBe("b");
+  expect(await cache.list("/")).toEqual(["/cache.txt"]);
+});
+
+it("delegate moves within a mount", async () => {
+  const spy = jest.spyOn(data, "move");
+  await fs.move("/data/copied.txt", "/data/moved.txt", {
+    onExists: ExistsAction.Overwrite,
+  });
+  expect(spy).toHaveBeenCalledWith(
+    "/copied.txt",
+    "/moved.txt",
+    expect.anything(),
+    undefined
+  );
+  spy.mockRestore();
+  expect(await fs.read("/data/moved.txt", "text")).toBe("cache");
+});
+
+it("reject deleting mount points", async () => {
+  try {
+    await fs.delete("/data/deep/nested");
+    throw new Error("/data/deep/nested was deleted");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(NoModificationAllowedError.name);
+  }
+});
+
+it("reject writing outside of mounts", async () => {
+  const unrooted = new MountFileSystem("mount-test", { "/cache": cache });
+  try {
+    await unrooted.write("/outside.txt", "outside");
+    throw new Error("/outside.txt was written");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(NoModificationAllowedError.name);
+  }
+  expect(await unrooted.list("/")).toEqual(["/cache"]);
+});
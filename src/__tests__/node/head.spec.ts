@@ -0,0 +1,17 @@
+import { mkdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { NodeFileSystem } from "../../node/NodeFileSystem";
+import { testAll } from "../head";
+
+const rootDir = join(tmpdir(), "univ-fs-test-head");
+const fs = new NodeFileSystem(rootDir);
+testAll(fs, {
+  setup: async () => {
+    await rm(rootDir, { recursive: true, force: true });
+    await mkdir(rootDir, { recursive: true });
+  },
+  teardown: async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  },
+});
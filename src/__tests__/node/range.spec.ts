@@ -0,0 +1,80 @@
+import { rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  ErrorLike,
+  NotFoundError,
+  NotSupportedError,
+  TypeMismatchError,
+} from "../../errors";
+import { NodeFileSystem } from "../../node/NodeFileSystem";
+
+const rootDir = join(tmpdir(), "univ-fs-test-range");
+rmSync(rootDir, { recursive: true, force: true });
+const fs = new NodeFileSystem(rootDir);
+
+afterAll(() => {
+  rmSync(rootDir, { recursive: true, force: true });
+});
+
+it("range read", async () => {
+  await fs.write("/range.txt", "0123456789");
+  const text = await fs.read("/range.txt", "text", { start: 2, length: 3 });
+  expect(text).toBe("234");
+});
+
+it("range write", async () => {
+  await fs.write("/range.txt", "abc", { start: 8 });
+  const text = await fs.read("/range.txt", "text");
+  expect(text).toBe("01234567abc");
+});
+
+it("append", async () => {
+  await fs.write("/range.txt", "!", { append: true });
+  const text = await fs.read("/range.txt", "text");
+  expect(text).toBe("01234567abc!");
+});
+
+it("patch modified", async () => {
+  const modified = Date.UTC(2020, 0, 1);
+  await fs.patch("/range.txt", { modified });
+  const stats = await fs.head("/range.txt");
+  expect(stats.modified).toBe(modified);
+});
+
+it("map errors", async () => {
+  try {
+    await fs.read("/nothing.txt");
+    throw new Error("/nothing.txt exists");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(NotFoundError.name);
+  }
+  try {
+    await fs.write("/range.txt/child.txt", "child");
+    throw new Error("/range.txt/child.txt was written");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(TypeMismatchError.name);
+  }
+});
+
+it("map errors of opening a file to read", async () => {
+  jest.spyOn(fs, "_doHead").mockResolvedValue({ size: 1 });
+  try {
+    await fs.read("/nothing.txt");
+    throw new Error("/nothing.txt exists");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(NotFoundError.name);
+  } finally {
+    jest.restoreAllMocks();
+  }
+});
+
+it("reject custom props", async () => {
+  const modified = Date.UTC(2020, 0, 1);
+  try {
+    await fs.patch("/range.txt", { modified, tag: "x" });
+    throw new Error("tag was patched");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(NotSupportedError.name);
+  }
+});
@@ -0,0 +1,10 @@
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+import { OverlayFileSystem } from "../../overlay/OverlayFileSystem";
+import { testAll } from "../list";
+
+const fs = new OverlayFileSystem(
+  "overlay-test-list",
+  new MemoryFileSystem("/lower"),
+  new MemoryFileSystem("/upper")
+);
+testAll(fs);
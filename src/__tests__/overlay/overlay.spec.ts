@@ -0,0 +1,68 @@
+import { NotExistAction } from "../../core";
+import { ErrorLike, NotFoundError } from "../../errors";
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+import { OverlayFileSystem } from "../../overlay/OverlayFileSystem";
+
+const lower = new MemoryFileSystem("/lower");
+const upper = new MemoryFileSystem("/upper");
+const fs = new OverlayFileSystem("overlay-test", lower, upper);
+
+beforeAll(async () => {
+  await lower.write("/config.txt", "template");
+  await lower.mkdir("/dir");
+  await lower.write("/dir/a.txt", "a");
+  await lower.write("/dir/b.txt", "b");
+});
+
+it("read through to the lower layer", async () => {
+  expect(await fs.read("/config.txt", "text")).toBe("template");
+  expect((await fs.list("/dir")).sort()).toEqual(["/dir/a.txt", "/dir/b.txt"]);
+  expect(await upper.list("/")).toEqual([]);
+});
+
+it("copy up on the first write", async () => {
+  await fs.write("/config.txt", "!", { append: true });
+  expect(await fs.read("/config.txt", "text")).toBe("template!");
+  expect(await upper.read("/config.txt", "text")).toBe("template!");
+  expect(await lower.read("/config.txt", "text")).toBe("template");
+
+  await fs.write("/dir/a.txt", "A");
+  expect(await upper.read("/dir/a.txt", "text")).toBe("A");
+  expect(await lower.read("/dir/a.txt", "text")).toBe("a");
+  expect((await fs.list("/dir")).sort()).toEqual(["/dir/a.txt", "/dir/b.txt"]);
+});
+
+it("hide deleted lower entries", async () => {
+  await fs.delete("/dir/b.txt");
+  expect(await fs.list("/dir")).toEqual(["/dir/a.txt"]);
+  try {
+    await fs.head("/dir/b.txt");
+    throw new Error("/dir/b.txt was found");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(NotFoundError.name);
+  }
+  expect(await lower.read("/dir/b.txt", "text")).toBe("b");
+});
+
+it("recreate a deleted file", async () => {
+  await fs.write("/dir/b.txt", "B");
+  expect(await fs.read("/dir/b.txt", "text")).toBe("B");
+  expect((await fs.list("/dir")).sort()).toEqual(["/dir/a.txt", "/dir/b.txt"]);
+  await fs.delete("/dir/b.txt");
+});
+
+it("recreate a deleted directory without the lower children", async () => {
+  await fs.delete("/dir", {
+    onNotExist: NotExistAction.Error,
+    recursive: true,
+  });
+  expect(await fs.list("/")).toEqual(["/config.txt"]);
+  await fs.mkdir("/dir");
+  expect(await fs.list("/dir")).toEqual([]);
+  await fs.write("/dir/c.txt", "c");
+  expect(await fs.list("/dir")).toEqual(["/dir/c.txt"]);
+  expect((await lower.list("/dir")).sort()).toEqual([
+    "/dir/a.txt",
+    "/dir/b.txt",
+  ]);
+});
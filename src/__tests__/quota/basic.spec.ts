@@ -0,0 +1,6 @@
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+import { QuotaFileSystem } from "../../quota/QuotaFileSystem";
+import { testAll } from "../basic";
+
+const fs = new QuotaFileSystem(new MemoryFileSystem("/isomorphic-fs-test"));
+testAll(fs);
@@ -0,0 +1,128 @@
+import { ExistsAction, NotExistAction } from "../../core";
+import {
+  ErrorLike,
+  FileSystemError,
+  NotFoundError,
+  QuotaExceededError,
+} from "../../errors";
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+import { QuotaFileSystem } from "../../quota/QuotaFileSystem";
+
+const source = new MemoryFileSystem("/quota");
+const fs = new QuotaFileSystem(source, {
+  maxBytes: 20,
+  limits: { "/small": { maxBytes: 5, maxEntries: 2 } },
+});
+
+async function expectExceeded(fn: () => Promise<unknown>) {
+  try {
+    await fn();
+    throw new Error("Not exceeded");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(QuotaExceededError.name);
+  }
+}
+
+it("count the existing entries at first", async () => {
+  await source.mkcol("/small");
+  await source.write("/small/a.txt", "abc");
+
+  expect(await fs.getUsage("/")).toEqual({ bytes: 3, entries: 2 });
+  expect(await fs.getUsage("/small")).toEqual({ bytes: 3, entries: 1 });
+});
+
+it("reject a write before it reaches the source", async () => {
+  await expectExceeded(() => fs.write("/small/b.txt", "defgh"));
+  expect(await source.list("/small")).toEqual(["/small/a.txt"]);
+
+  await fs.write("/small/b.txt", "de");
+  expect(await fs.getUsage("/small")).toEqual({ bytes: 5, entries: 2 });
+  await expectExceeded(() => fs.write("/small/b.txt", "f", { append: true }));
+  await expectExceeded(() => fs.mkcol("/small/dir"));
+});
+
+it("count appends and deletes", async () => {
+  await fs.write("/big.txt", "0123456789");
+  await fs.write("/big.txt", "01", { append: true });
+  expect(await fs.getUsage("/")).toEqual({ bytes: 17, entries: 4 });
+  await expectExceeded(() => fs.write("/big.txt", "0123", { append: true }));
+
+  await fs.delete("/small/a.txt");
+  expect(await fs.getUsage("/small")).toEqual({ bytes: 2, entries: 1 });
+  expect(await fs.getUsage("/")).toEqual({ bytes: 14, entries: 3 });
+});
+
+it("count moves and copies", async () => {
+  await fs.move("/small/b.txt", "/b.txt", {
+    onExists: ExistsAction.Overwrite,
+  });
+  expect(await fs.getUsage("/small")).toEqual({ bytes: 0, entries: 0 });
+  expect(await fs.getUsage("/")).toEqual({ bytes: 14, entries: 3 });
+
+  await fs.copy("/b.txt", "/small/c.txt", {
+    onExists: ExistsAction.Overwrite,
+  });
+  expect(await fs.getUsage("/small")).toEqual({ bytes: 2, entries: 1 });
+  expect(await fs.getUsage("/")).toEqual({ bytes: 16, entries: 4 });
+  await expectExceeded(() =>
+    fs.copy("/big.txt", "/small/big.txt", {
+      onExists: ExistsAction.Overwrite,
+    })
+  );
+
+  await fs.delete("/small", {
+    onNotExist: NotExistAction.Error,
+    recursive: true,
+  });
+  expect(await fs.getUsage("/")).toEqual({ bytes: 14, entries: 2 });
+});
+
+it("move within the same directory without counting", async () => {
+  const options = { onExists: ExistsAction.Overwrite };
+  await fs.move("/big.txt", "/moved.txt", options);
+  expect(await fs.getUsage("/")).toEqual({ bytes: 14, entries: 2 });
+
+  await fs.mkcol("/small");
+  await fs.mkcol("/dir");
+  await fs.write("/dir/d.txt", "d");
+  await fs.move("/dir", "/small/dir", options);
+  expect(await fs.getUsage("/small")).toEqual({ bytes: 1, entries: 2 });
+  expect(await fs.getUsage("/small/dir")).toEqual({ bytes: 1, entries: 1 });
+  expect(await fs.getUsage("/")).toEqual({ bytes: 15, entries: 5 });
+  await expectExceeded(() =>
+    fs.move("/moved.txt", "/small/moved.txt", options)
+  );
+  expect(await fs.getUsage("/small")).toEqual({ bytes: 1, entries: 2 });
+});
+
+it("reserve the usage of concurrent writes", async () => {
+  await fs.delete("/small/dir", {
+    onNotExist: NotExistAction.Error,
+    recursive: true,
+  });
+  const results = await Promise.all(
+    ["/small/x.txt", "/small/y.txt"].map((path) =>
+      fs.write(path, "abc").then(
+        () => true,
+        () => false
+      )
+    )
+  );
+  expect(results.filter((written) => written).length).toBe(1);
+  expect(await fs.getUsage("/small")).toEqual({ bytes: 3, entries: 1 });
+});
+
+it("report a move of a missing entry through the errors", async () => {
+  const errors: FileSystemError[] = [];
+  const file = fs.getFile("/missing.txt");
+  const to = fs.getFile("/moved-missing.txt");
+  expect(await file.move(to, undefined, errors)).toBe(false);
+  expect(errors.map((error) => error.name)).toEqual([NotFoundError.name]);
+});
+
+it("scan again after failing to scan", async () => {
+  const scanned = new QuotaFileSystem(source, { maxBytes: 100 });
+  jest.spyOn(source, "list").mockRejectedValueOnce(new Error("Failed to list"));
+  await expect(scanned.getUsage("/")).rejects.toThrow();
+  expect((await scanned.getUsage("/")).entries).toBeGreaterThan(0);
+});
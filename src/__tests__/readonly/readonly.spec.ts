@@ -0,0 +1,92 @@
+import { ExistsAction, NotExistAction } from "../../core";
+import { ErrorLike, NoModificationAllowedError } from "../../errors";
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+import { ReadOnlyFileSystem } from "../../readonly/ReadOnlyFileSystem";
+
+const source = new MemoryFileSystem("/readonly");
+const fs = new ReadOnlyFileSystem(source);
+
+async function expectRejected(modify: () => Promise<unknown>) {
+  try {
+    await modify();
+    throw new Error("Modified");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(NoModificationAllowedError.name);
+  }
+}
+
+beforeAll(async () => {
+  await source.mkdir("/dir");
+  await source.write("/dir/file.txt", "0123456789");
+});
+
+it("allow reading", async () => {
+  expect(await fs.read("/dir/file.txt", "text")).toBe("0123456789");
+  const text = await fs.read("/dir/file.txt", "text", { start: 2, length: 3 });
+  expect(text).toBe("234");
+  expect((await fs.head("/dir/file.txt")).size).toBe(10);
+  expect(await fs.list("/dir")).toEqual(["/dir/file.txt"]);
+  expect(await fs.hash("/dir/file.txt")).toBe(
+    await source.hash("/dir/file.txt")
+  );
+  const url = await fs.getURL("/dir/file.txt");
+  expect(url.startsWith("data:")).toBe(true);
+});
+
+it("reject modifications", async () => {
+  await expectRejected(() => fs.write("/dir/file.txt", "changed"));
+  await expectRejected(() => fs.write("/dir/new.txt", "new"));
+  await expectRejected(() =>
+    fs.delete("/dir/file.txt", {
+      onNotExist: NotExistAction.Error,
+      recursive: false,
+    })
+  );
+  await expectRejected(() => fs.mkdir("/new"));
+  await expectRejected(() => fs.patch("/dir/file.txt", { tag: "x" }));
+  await expectRejected(() =>
+    fs.copy("/dir/file.txt", "/dir/copied.txt", {
+      onExists: ExistsAction.Overwrite,
+    })
+  );
+  await expectRejected(() =>
+    fs.move("/dir/file.txt", "/dir/moved.txt", {
+      onExists: ExistsAction.Overwrite,
+    })
+  );
+  await expectRejected(() => fs.getURL("/dir/file.txt", { method: "PUT" }));
+  expect(await source.list("/dir")).toEqual(["/dir/file.txt"]);
+  expect(await source.read("/dir/file.txt", "text")).toBe("0123456789");
+});
+
+it("copy out but never move out", async () => {
+  const other = new MemoryFileSystem("/other");
+  const file = fs.getFile("/dir/file.txt");
+  await file.copy(other.getFile("/copied.txt"), {
+    onExists: ExistsAction.Overwrite,
+  });
+  expect(await other.read("/copied.txt", "text")).toBe("0123456789");
+  await expectRejected(() =>
+    file.move(other.getFile("/moved.txt"), {
+      onExists: ExistsAction.Overwrite,
+    })
+  );
+  expect(await other.list("/")).toEqual(["/copied.txt"]);
+});
+
+it("reject modifications whatever the source supports", async () => {
+  jest.spyOn(source, "supportDirectory").mockReturnValue(false);
+  try {
+    const flat = new ReadOnlyFileSystem(source);
+    await expectRejected(() => flat.mkcol("/flat"));
+    await expectRejected(() => flat.getDirectory("/flat").mkcol());
+  } finally {
+    jest.restoreAllMocks();
+  }
+  await expectRejected(() => fs.write("/dir/empty.txt", "", { length: 0 }));
+  await expectRejected(() =>
+    fs.getFile("/dir/empty.txt").write("", { length: 0 })
+  );
+  expect(await source.list("/")).toEqual(["/dir"]);
+  expect(await source.list("/dir")).toEqual(["/dir/file.txt"]);
+});
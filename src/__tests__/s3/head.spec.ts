@@ -0,0 +1,25 @@
+import { rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { S3FileSystem } from "../../s3/S3FileSystem";
+import { testAll } from "../head";
+import { createS3rver } from "./s3rver";
+
+const port = 19012;
+const directory = join(tmpdir(), "univ-fs-test-s3-head");
+const server = createS3rver(port, directory);
+const fs = new S3FileSystem("univ-fs", {
+  endpoint: `http://localhost:${port}`,
+  forcePathStyle: true,
+  credentials: { accessKeyId: "S3RVER", secretAccessKey: "S3RVER" },
+});
+testAll(fs, {
+  setup: async () => {
+    rmSync(directory, { recursive: true, force: true });
+    await server.run();
+  },
+  teardown: async () => {
+    await server.close();
+    rmSync(directory, { recursive: true, force: true });
+  },
+});
@@ -0,0 +1,24 @@
+interface S3rver {
+  close(): Promise<void>;
+  run(): Promise<unknown>;
+}
+
+interface S3rverOptions {
+  configureBuckets: { name: string }[];
+  directory: string;
+  port: number;
+  silent: boolean;
+}
+
+// s3rver has no type definitions.
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const S3rver = require("s3rver") as new (options: S3rverOptions) => S3rver;
+
+export function createS3rver(port: number, directory: string): S3rver {
+  return new S3rver({
+    port,
+    silent: true,
+    directory,
+    configureBuckets: [{ name: "univ-fs" }],
+  });
+}
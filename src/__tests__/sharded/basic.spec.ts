@@ -0,0 +1,10 @@
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+import { ShardedFileSystem } from "../../sharded/ShardedFileSystem";
+import { testAll } from "../basic";
+
+const fs = new ShardedFileSystem("/isomorphic-fs-test", {
+  a: new MemoryFileSystem("/isomorphic-fs-test"),
+  b: new MemoryFileSystem("/isomorphic-fs-test"),
+  c: new MemoryFileSystem("/isomorphic-fs-test"),
+});
+testAll(fs);
@@ -0,0 +1,98 @@
+import { FileSystem } from "../../core";
+import { isNotFoundError } from "../../errors";
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+import { ShardedFileSystem } from "../../sharded/ShardedFileSystem";
+
+const a = new MemoryFileSystem("/a");
+const b = new MemoryFileSystem("/b");
+const c = new MemoryFileSystem("/c");
+const fs = new ShardedFileSystem("/sharded", { a, b });
+const paths = Array.from({ length: 30 }, (_, i) => `/dir/file${i}.txt`);
+
+async function exists(shard: FileSystem, path: string) {
+  try {
+    await shard.head(path);
+    return true;
+  } catch (e) {
+    if (isNotFoundError(e)) {
+      return false;
+    }
+    throw e;
+  }
+}
+
+async function countFiles(shard: FileSystem) {
+  let count = 0;
+  for (const path of paths) {
+    if (await exists(shard, path)) {
+      count++;
+    }
+  }
+  return count;
+}
+
+it("distribute files over the shards", async () => {
+  await fs.mkcol("/dir");
+  for (const path of paths) {
+    await fs.write(path, path);
+  }
+
+  const counts = [await countFiles(a), await countFiles(b)];
+  expect(counts[0]).toBeGreaterThan(0);
+  expect(counts[1]).toBeGreaterThan(0);
+  expect((counts[0] as number) + (counts[1] as number)).toBe(paths.length);
+  for (const path of paths) {
+    expect(await exists(fs._getOwner(path), path)).toBe(true);
+  }
+});
+
+it("merge the listings of the shards", async () => {
+  const list = await fs.list("/dir");
+  expect(list.sort()).toEqual([...paths].sort());
+});
+
+it("rebalance after a shard is added", async () => {
+  fs.addShard("c", c);
+  for (const path of paths) {
+    expect(await fs.read(path, "text")).toBe(path);
+  }
+
+  const moved = await fs.rebalance();
+  expect(moved).toBe(await countFiles(c));
+  expect(moved).toBeGreaterThan(0);
+  expect(moved).toBeLessThan(paths.length);
+  for (const path of paths) {
+    expect(await exists(fs._getOwner(path), path)).toBe(true);
+    expect(await fs.read(path, "text")).toBe(path);
+  }
+});
+
+it("rebalance after a shard is removed", async () => {
+  const onA = await countFiles(a);
+  fs.removeShard("a");
+  for (const path of paths) {
+    expect(await fs.read(path, "text")).toBe(path);
+  }
+
+  expect(await fs.rebalance()).toBe(onA);
+  expect(await countFiles(a)).toBe(0);
+  expect((await countFiles(b)) + (await countFiles(c))).toBe(paths.length);
+});
+
+it("write a file onto its owner shard", async () => {
+  const path = paths[0] as string;
+  const owner = fs._getOwner(path);
+  const other = owner === b ? c : b;
+  await owner.delete(path);
+  await other.write(path, "misplaced");
+
+  expect(await fs.read(path, "text")).toBe("misplaced");
+  await fs.write(path, "placed");
+  expect(await exists(other, path)).toBe(false);
+  expect(await owner.read(path, "text")).toBe("placed");
+});
+
+it("keep the last shard", () => {
+  fs.removeShard("b");
+  expect(() => fs.removeShard("c")).toThrow(RangeError);
+});
@@ -0,0 +1,9 @@
+import { SqliteFileSystem } from "../../sqlite/SqliteFileSystem";
+import { testAll } from "../basic";
+
+const fs = new SqliteFileSystem("isomorphic-fs-test-basic");
+testAll(fs, {
+  teardown: async () => {
+    await fs.close();
+  },
+});
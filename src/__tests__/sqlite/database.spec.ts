@@ -0,0 +1,147 @@
+import initSqlJs from "sql.js";
+import { ExistsAction, NotExistAction } from "../../core";
+import {
+  DataError,
+  ErrorLike,
+  FileSystemError,
+  NotFoundError,
+} from "../../errors";
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+import { SQLITE_CHUNK_SIZE } from "../../sqlite/sqlite";
+import { SqliteDirectory } from "../../sqlite/SqliteDirectory";
+import { SqliteFileSystem } from "../../sqlite/SqliteFileSystem";
+
+function bytes(size: number, seed: number) {
+  const u8 = new Uint8Array(size);
+  for (let i = 0; i < size; i++) {
+    u8[i] = (i + seed) % 251;
+  }
+  return u8;
+}
+
+it("range read and write across chunks", async () => {
+  const fs = new SqliteFileSystem("/sqlite");
+  const u8 = bytes(SQLITE_CHUNK_SIZE * 2 + 100, 0);
+  await fs.write("/big.bin", u8);
+  const start = SQLITE_CHUNK_SIZE - 10;
+  const part = await fs.read("/big.bin", "uint8array", { start, length: 20 });
+  expect(part).toEqual(u8.subarray(start, start + 20));
+
+  const patch = bytes(SQLITE_CHUNK_SIZE, 7);
+  await fs.write("/big.bin", patch, { start: SQLITE_CHUNK_SIZE + 50 });
+  u8.set(patch, SQLITE_CHUNK_SIZE + 50);
+  expect(await fs.read("/big.bin", "uint8array")).toEqual(u8);
+
+  await fs.write("/big.bin", "end", { append: true });
+  const stats = await fs.head("/big.bin");
+  expect(stats.size).toBe(u8.length + 3);
+  await fs.close();
+});
+
+it("move a directory with a single rename", async () => {
+  const fs = new SqliteFileSystem("/sqlite");
+  await fs.mkcol("/from");
+  await fs.mkcol("/from/sub");
+  await fs.write("/from/sub/a.txt", "a");
+  await fs.write("/from/b.txt", "b");
+  await fs.patch("/from/b.txt", { owner: "otani" });
+
+  const copy = jest.spyOn(SqliteDirectory.prototype, "_copy");
+  await fs.move("/from", "/to");
+  expect(copy).not.toHaveBeenCalled();
+  copy.mockRestore();
+
+  expect(await fs.list("/")).toEqual(["/to"]);
+  expect(await fs.read("/to/sub/a.txt", "text")).toBe("a");
+  const stats = await fs.head("/to/b.txt");
+  expect(stats["owner"]).toBe("otani");
+  await fs.close();
+});
+
+it("move as the core does when the rename is not possible", async () => {
+  const fs = new SqliteFileSystem("/sqlite");
+  await fs.write("/a.txt", "a");
+  await fs.write("/b.txt", "b");
+
+  const errors: FileSystemError[] = [];
+  const missing = fs.getFile("/missing.txt");
+  expect(await missing.move(fs.getFile("/c.txt"), undefined, errors)).toBe(
+    false
+  );
+  expect(errors.map((error) => error.name)).toEqual([NotFoundError.name]);
+
+  await expect(fs.move("/a.txt", "/b.txt")).rejects.toThrow();
+  expect(await fs.read("/b.txt", "text")).toBe("b");
+  await fs.move("/a.txt", "/b.txt", { onExists: ExistsAction.Overwrite });
+  expect(await fs.list("/")).toEqual(["/b.txt"]);
+  expect(await fs.read("/b.txt", "text")).toBe("a");
+  await fs.close();
+});
+
+it("delete a tree atomically", async () => {
+  const fs = new SqliteFileSystem("/sqlite");
+  await fs.mkcol("/dir");
+  await fs.mkcol("/dir/sub");
+  await fs.write("/dir/sub/a.txt", "a");
+  await fs.write("/dir_other.txt", "other");
+  await fs.delete("/dir", {
+    onNotExist: NotExistAction.Error,
+    recursive: true,
+  });
+  expect(await fs.list("/")).toEqual(["/dir_other.txt"]);
+
+  const db = new (await initSqlJs()).Database(await fs.flush());
+  const chunks = db.exec("SELECT path FROM chunks")[0]?.values;
+  expect(chunks).toEqual([["/dir_other.txt"]]);
+  db.close();
+  await fs.close();
+});
+
+it("roll back a failed transaction", async () => {
+  const fs = new SqliteFileSystem("/sqlite");
+  await fs.write("/a.txt", "a");
+  await expect(
+    fs._transact("/a.txt", true, (db) => {
+      db.run("DELETE FROM entries WHERE path = '/a.txt'");
+      throw new Error("Failed");
+    })
+  ).rejects.toThrow("Failed");
+  expect(await fs.read("/a.txt", "text")).toBe("a");
+  await fs.close();
+});
+
+it("keep the database on another FileSystem", async () => {
+  const mem = new MemoryFileSystem("/mem");
+  const source = { fs: mem, path: "/app.sqlite" };
+  const fs = new SqliteFileSystem("/sqlite", source);
+  await fs.mkcol("/docs");
+  await fs.write("/docs/hello.txt", "Hello, World!");
+  await fs.patch("/docs/hello.txt", { lang: "en" });
+  await fs.flush();
+  await fs.close();
+
+  const header = await mem.read("/app.sqlite", "uint8array", { length: 15 });
+  expect(new TextDecoder().decode(header)).toBe("SQLite format 3");
+  const reopened = new SqliteFileSystem("/sqlite", source);
+  expect(await reopened.read("/docs/hello.txt", "text")).toBe("Hello, World!");
+  const stats = await reopened.head("/docs/hello.txt");
+  expect(stats["lang"]).toBe("en");
+  await reopened.close();
+});
+
+it("load again after failing to load", async () => {
+  const mem = new MemoryFileSystem("/mem");
+  const source = { fs: mem, path: "/broken.sqlite" };
+  await mem.write(source.path, "not a database");
+  const fs = new SqliteFileSystem("/sqlite", source);
+  try {
+    await fs.list("/");
+    throw new Error("Loaded");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(DataError.name);
+  }
+
+  await mem.delete(source.path);
+  expect(await fs.list("/")).toEqual([]);
+  await fs.close();
+});
@@ -0,0 +1,9 @@
+import { SqliteFileSystem } from "../../sqlite/SqliteFileSystem";
+import { testAll } from "../head";
+
+const fs = new SqliteFileSystem("isomorphic-fs-test-head");
+testAll(fs, {
+  teardown: async () => {
+    await fs.close();
+  },
+});
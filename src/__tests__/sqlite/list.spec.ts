@@ -0,0 +1,9 @@
+import { SqliteFileSystem } from "../../sqlite/SqliteFileSystem";
+import { testAll } from "../list";
+
+const fs = new SqliteFileSystem("isomorphic-fs-test-list");
+testAll(fs, {
+  teardown: async () => {
+    await fs.close();
+  },
+});
@@ -0,0 +1,145 @@
+import { gzipSync } from "fflate";
+import {
+  DataError,
+  ErrorLike,
+  NoModificationAllowedError,
+  NotFoundError,
+} from "../../errors";
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+import { TarFileSystem } from "../../tar/TarFileSystem";
+
+const encoder = new TextEncoder();
+const mtime = 1577934245; // 2020-01-02T03:04:05Z
+
+function block(name: string, size: number, type: string, linkname = "") {
+  const u8 = new Uint8Array(512);
+  const write = (str: string, offset: number) =>
+    u8.set(encoder.encode(str), offset);
+  write(name, 0);
+  write("0000644", 100);
+  write("0000000", 108);
+  write("0000000", 116);
+  write(size.toString(8).padStart(11, "0"), 124);
+  write(mtime.toString(8).padStart(11, "0"), 136);
+  write("        ", 148);
+  write(type, 156);
+  write(linkname, 157);
+  write("ustar\0", 257);
+  write("00", 263);
+  const sum = u8.reduce((a, b) => a + b, 0);
+  write(sum.toString(8).padStart(6, "0") + "\0 ", 148);
+  return u8;
+}
+
+function member(name: string, content: string, type = "0") {
+  const data = encoder.encode(content);
+  const padded = new Uint8Array(Math.ceil(data.length / 512) * 512);
+  padded.set(data);
+  return [block(name, data.length, type), padded];
+}
+
+function pax(records: string) {
+  const data = encoder.encode(records);
+  return member("PaxHeader", records, "x").map((u8, i) =>
+    i === 0 ? block("PaxHeader", data.length, "x") : u8
+  );
+}
+
+function concat(parts: Uint8Array[]) {
+  const u8 = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    u8.set(part, offset);
+    offset += part.length;
+  }
+  return u8;
+}
+
+const longName = "dir/" + "x".repeat(120) + ".txt";
+const pathRecord = ` path=${longName}\n`;
+const paxLength = pathRecord.length + 3;
+const archive = concat([
+  block("dir/", 0, "5"),
+  ...member("dir/hello.txt", "Hello, World!"),
+  ...pax(`${paxLength}${pathRecord}`),
+  ...member("ignored", "long"),
+  block("link.txt", 0, "2", "dir/hello.txt"),
+  ...member("big.bin", "0123456789".repeat(200)),
+  new Uint8Array(1024),
+]);
+
+it("list members", async () => {
+  const fs = new TarFileSystem("/tar", archive);
+  const root = await fs.list("/");
+  expect(root.sort()).toEqual(["/big.bin", "/dir", "/link.txt"]);
+  const dir = await fs.list("/dir");
+  expect(dir.sort()).toEqual(["/dir/hello.txt", "/" + longName]);
+});
+
+it("carry member stats", async () => {
+  const fs = new TarFileSystem("/tar", archive);
+  const stats = await fs.head("/dir/hello.txt");
+  expect(stats.size).toBe(13);
+  expect(stats.modified).toBe(mtime * 1000);
+  expect(stats["mode"]).toBe(0o644);
+});
+
+it("read members", async () => {
+  const fs = new TarFileSystem("/tar", archive);
+  expect(await fs.read("/dir/hello.txt", "text")).toBe("Hello, World!");
+  expect(await fs.read("/" + longName, "text")).toBe("long");
+  expect(await fs.read("/link.txt", "text")).toBe("Hello, World!");
+  const text = await fs.read("/big.bin", "text", { start: 1005, length: 10 });
+  expect(text).toBe("5678901234");
+});
+
+it("read gzipped members from another FileSystem", async () => {
+  const mem = new MemoryFileSystem("/mem");
+  await mem.write("/archive.tar.gz", gzipSync(archive));
+  const fs = new TarFileSystem("/tar", { fs: mem, path: "/archive.tar.gz" });
+  expect(await fs.read("/dir/hello.txt", "text")).toBe("Hello, World!");
+  const big = await fs.read("/big.bin", "text");
+  expect(big).toBe("0123456789".repeat(200));
+});
+
+it("reject modifications", async () => {
+  const fs = new TarFileSystem("/tar", archive);
+  try {
+    await fs.write("/dir/hello.txt", "Bye");
+    throw new Error("/dir/hello.txt was written");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(NoModificationAllowedError.name);
+  }
+});
+
+it("reject members outside of the archive as corrupt", async () => {
+  for (const parts of [
+    member("../evil.txt", "evil"),
+    [block("evil.txt", 0, "2", "../../etc/passwd")],
+  ]) {
+    const fs = new TarFileSystem(
+      "/tar",
+      concat([...parts, new Uint8Array(1024)])
+    );
+    try {
+      await fs.list("/");
+      throw new Error("Loaded");
+    } catch (e) {
+      expect((e as ErrorLike).name).toBe(DataError.name);
+    }
+  }
+});
+
+it("load again after failing to load", async () => {
+  const mem = new MemoryFileSystem("/mem");
+  const fs = new TarFileSystem("/tar", { fs: mem, path: "/later.tar" });
+  try {
+    await fs.list("/");
+    throw new Error("Loaded");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(NotFoundError.name);
+  }
+
+  await mem.write("/later.tar", archive);
+  expect(await fs.read("/dir/hello.txt", "text")).toBe("Hello, World!");
+});
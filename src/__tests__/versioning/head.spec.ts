@@ -0,0 +1,8 @@
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+import { VersioningFileSystem } from "../../versioning/VersioningFileSystem";
+import { testAll } from "../head";
+
+const fs = new VersioningFileSystem(
+  new MemoryFileSystem("/isomorphic-fs-test")
+);
+testAll(fs);
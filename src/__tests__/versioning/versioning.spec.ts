@@ -0,0 +1,101 @@
+import { NotExistAction } from "../../core";
+import {
+  ErrorLike,
+  NoModificationAllowedError,
+  NotFoundError,
+} from "../../errors";
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+import { VersioningFileSystem } from "../../versioning/VersioningFileSystem";
+
+const source = new MemoryFileSystem("/versioning");
+const fs = new VersioningFileSystem(source, { maxVersions: 3 });
+const decoder = new TextDecoder();
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it("keep versions on write, patch and delete", async () => {
+  await fs.write("/doc.txt", "first");
+  expect(await fs.listVersions("/doc.txt")).toEqual([]);
+
+  await fs.write("/doc.txt", "second!");
+  await fs.patch("/doc.txt", { modified: 1000 });
+  await fs.delete("/doc.txt", {
+    onNotExist: NotExistAction.Error,
+    recursive: false,
+  });
+
+  const versions = await fs.listVersions("/doc.txt");
+  expect(versions.map((v) => v.stats.size)).toEqual([7, 7, 5]);
+  expect(versions[0]?.stats.modified).toBe(1000);
+  expect(versions[1]?.versioned).toBeGreaterThan(
+    versions[2]?.versioned as number
+  );
+  const u8 = await fs.readVersion("/doc.txt", versions[2]?.id as string);
+  expect(decoder.decode(u8)).toBe("first");
+});
+
+it("restore a version", async () => {
+  const [, , oldest] = await fs.listVersions("/doc.txt");
+  await fs.restore("/doc.txt", oldest?.id as string);
+  expect(await fs.read("/doc.txt", "text")).toBe("first");
+
+  await fs.write("/doc.txt", "third");
+  // The restored contents became a version
+  const [latest] = await fs.listVersions("/doc.txt");
+  const u8 = await fs.readVersion("/doc.txt", latest?.id as string);
+  expect(decoder.decode(u8)).toBe("first");
+  expect(await fs.listVersions("/doc.txt")).toHaveLength(3);
+
+  try {
+    await fs.readVersion("/doc.txt", "../doc.txt");
+    throw new Error("Read an illegal version");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(NotFoundError.name);
+  }
+});
+
+it("hide the versions", async () => {
+  expect(await fs.list("/")).toEqual(["/doc.txt"]);
+  expect(await source.list("/")).toContain("/.versions");
+  try {
+    await fs.head("/.versions");
+    throw new Error("Found the versions");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(NotFoundError.name);
+  }
+  try {
+    await fs.write("/.versions/doc.txt", "forged");
+    throw new Error("Wrote to the versions");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(NoModificationAllowedError.name);
+  }
+});
+
+it("delete old versions", async () => {
+  const now = Date.now();
+  const dateNow = jest.spyOn(Date, "now").mockReturnValue(now);
+  const store = new MemoryFileSystem("/versions");
+  const agedfs = new VersioningFileSystem(source, {
+    maxAge: 60 * 1000,
+    store,
+  });
+  await agedfs.write("/aged.txt", "1");
+  await agedfs.write("/aged.txt", "2");
+  dateNow.mockReturnValue(now + 30 * 1000);
+  await agedfs.write("/aged.txt", "3");
+  expect(await agedfs.listVersions("/aged.txt")).toHaveLength(2);
+
+  dateNow.mockReturnValue(now + 90 * 1000);
+  await agedfs.prune("/aged.txt");
+  const versions = await agedfs.listVersions("/aged.txt");
+  expect(versions).toHaveLength(1);
+  const u8 = await agedfs.readVersion("/aged.txt", versions[0]?.id as string);
+  expect(decoder.decode(u8)).toBe("2");
+
+  // Not on the source
+  expect(await source.list("/.versions")).not.toContain(
+    "/.versions/%2Faged.txt"
+  );
+});
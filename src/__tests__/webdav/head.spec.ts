@@ -0,0 +1,15 @@
+import { v2 as webdav } from "webdav-server";
+import { WebDAVFileSystem } from "../../webdav/WebDAVFileSystem";
+import { testAll } from "../head";
+
+const port = 19002;
+const server = new webdav.WebDAVServer();
+const fs = new WebDAVFileSystem(`http://localhost:${port}/`);
+testAll(fs, {
+  setup: async () => {
+    await server.startAsync(port);
+  },
+  teardown: async () => {
+    await server.stopAsync();
+  },
+});
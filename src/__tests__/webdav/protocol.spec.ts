@@ -0,0 +1,81 @@
+import { v2 as webdav } from "webdav-server";
+import {
+  ErrorLike,
+  NoModificationAllowedError,
+  NotFoundError,
+  NotSupportedError,
+} from "../../errors";
+import { WebDAVFileSystem } from "../../webdav/WebDAVFileSystem";
+
+const port = 19004;
+const server = new webdav.WebDAVServer();
+const fs = new WebDAVFileSystem(`http://localhost:${port}/`);
+
+beforeAll(async () => {
+  await server.startAsync(port);
+});
+
+afterAll(async () => {
+  await server.stopAsync();
+});
+
+it("range read", async () => {
+  await fs.write("/range.txt", "0123456789");
+  const text = await fs.read("/range.txt", "text", { start: 3, length: 4 });
+  expect(text).toBe("3456");
+});
+
+it("range write", async () => {
+  await fs.write("/range.txt", "abc", { start: 2 });
+  expect(await fs.read("/range.txt", "text")).toBe("01abc56789");
+});
+
+it("patch custom props", async () => {
+  await fs.patch("/range.txt", { owner: "otani", version: 2 });
+  const stats = await fs.head("/range.txt");
+  expect(stats["owner"]).toBe("otani");
+  expect(stats["version"]).toBe(2);
+});
+
+it("reject a patch without a multistatus", async () => {
+  const fetch = fs._fetch.bind(fs);
+  const spy = jest
+    .spyOn(fs, "_fetch")
+    .mockImplementation((method, path, request) =>
+      method === "PROPPATCH"
+        ? Promise.resolve({ ok: true, status: 200 } as Response)
+        : fetch(method, path, request)
+    );
+  try {
+    await fs.patch("/range.txt", { owner: "ohtani" });
+    throw new Error("/range.txt was patched");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(NoModificationAllowedError.name);
+  } finally {
+    spy.mockRestore();
+  }
+  expect((await fs.head("/range.txt"))["owner"]).toBe("otani");
+});
+
+it("get only the URLs which can be honored", async () => {
+  expect(await fs.getURL("/range.txt")).toBe(
+    `http://localhost:${port}/range.txt`
+  );
+  await expect(
+    fs.getURL("/range.txt", { method: "PUT" })
+  ).rejects.toMatchObject({
+    name: NotSupportedError.name,
+  });
+  await expect(fs.getURL("/range.txt", { expires: 60 })).rejects.toMatchObject({
+    name: NotSupportedError.name,
+  });
+});
+
+it("map status codes", async () => {
+  try {
+    await fs.read("/nothing/file.txt", "text");
+    throw new Error("/nothing/file.txt was read");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(NotFoundError.name);
+  }
+});
@@ -0,0 +1,90 @@
+import { strToU8, zipSync } from "fflate";
+import { DataError, ErrorLike, NotSupportedError } from "../../errors";
+import { MemoryFileSystem } from "../../mem/MemoryFileSystem";
+import { ZipFileSystem } from "../../zip/ZipFileSystem";
+
+it("read an archive created by another tool", async () => {
+  const mtime = new Date(2020, 0, 2, 3, 4, 6);
+  const archive = zipSync(
+    {
+      "readme.txt": [strToU8("hello"), { level: 0 }],
+      "docs/long.txt": [strToU8("a".repeat(1000)), { level: 9 }],
+    },
+    { mtime }
+  );
+  const fs = new ZipFileSystem("/zip", archive);
+  expect(await fs.read("/readme.txt", "text")).toBe("hello");
+  expect(await fs.read("/docs/long.txt", "text")).toBe("a".repeat(1000));
+  const stats = await fs.head("/docs/long.txt");
+  expect(stats.size).toBe(1000);
+  expect(stats.modified).toBe(mtime.getTime());
+  const list = await fs.list("/");
+  expect(list.sort()).toEqual(["/docs", "/readme.txt"]);
+});
+
+it("rebuild an archive on flush", async () => {
+  const fs = new ZipFileSystem("/zip");
+  await fs.mkcol("/dir");
+  await fs.write("/dir/a.txt", "a".repeat(100));
+  await fs.write("/b.txt", "b");
+  await fs.write("/c.txt", "c");
+  await fs.delete("/c.txt");
+  const archive = await fs.flush();
+
+  const reopened = new ZipFileSystem("/zip", archive);
+  expect(await reopened.read("/dir/a.txt", "text")).toBe("a".repeat(100));
+  expect(await reopened.read("/b.txt", "text")).toBe("b");
+  const list = await reopened.list("/");
+  expect(list.sort()).toEqual(["/b.txt", "/dir"]);
+});
+
+it("keep an archive on another FileSystem", async () => {
+  const mem = new MemoryFileSystem("/mem");
+  const source = { fs: mem, path: "/bundle.zip" };
+  const fs = new ZipFileSystem("/zip", source);
+  await fs.write("/hello.txt", "Hello, World!");
+  await fs.flush();
+
+  const stats = await mem.head("/bundle.zip");
+  expect(stats.size).toBeGreaterThan(0);
+  const reopened = new ZipFileSystem("/zip", source);
+  expect(await reopened.read("/hello.txt", "text")).toBe("Hello, World!");
+});
+
+it("reject an entry outside of the archive as corrupt", async () => {
+  const archive = zipSync({ "../evil.txt": strToU8("evil") });
+  const fs = new ZipFileSystem("/zip", archive);
+  try {
+    await fs.list("/");
+    throw new Error("Loaded");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(DataError.name);
+  }
+});
+
+it("load again after failing to load", async () => {
+  const mem = new MemoryFileSystem("/mem");
+  const source = { fs: mem, path: "/broken.zip" };
+  await mem.write(source.path, "not an archive");
+  const fs = new ZipFileSystem("/zip", source);
+  try {
+    await fs.list("/");
+    throw new Error("Loaded");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(DataError.name);
+  }
+
+  await mem.write(source.path, zipSync({ "a.txt": strToU8("a") }));
+  expect(await fs.list("/")).toEqual(["/a.txt"]);
+});
+
+it("reject patching unsupported props", async () => {
+  const fs = new ZipFileSystem("/zip");
+  await fs.write("/a.txt", "a");
+  try {
+    await fs.patch("/a.txt", { modified: Date.now(), tag: "x" });
+    throw new Error("Patched");
+  } catch (e) {
+    expect((e as ErrorLike).name).toBe(NotSupportedError.name);
+  }
+});
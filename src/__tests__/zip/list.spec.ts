@@ -0,0 +1,5 @@
+import { ZipFileSystem } from "../../zip/ZipFileSystem";
+import { testAll } from "../list";
+
+const fs = new ZipFileSystem("/isomorphic-fs-test");
+testAll(fs);
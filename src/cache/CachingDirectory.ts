@@ -0,0 +1,32 @@
+import { AbstractDirectory } from "../AbstractDirectory";
+import { Item, NotExistAction } from "../core";
+import { CachingFileSystem } from "./CachingFileSystem";
+
+export class CachingDirectory extends AbstractDirectory {
+  constructor(private readonly cfs: CachingFileSystem, path: string) {
+    super(cfs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    try {
+      await this.cfs.source.delete(this.path, {
+        onNotExist: NotExistAction.Error,
+        recursive: false,
+      });
+    } finally {
+      this.cfs._invalidate(this.path, true);
+    }
+  }
+
+  public _doList(): Promise<Item[]> {
+    return this.cfs._list(this.path);
+  }
+
+  public async _doMkcol(): Promise<void> {
+    try {
+      await this.cfs.source.mkcol(this.path);
+    } finally {
+      this.cfs._invalidate(this.path);
+    }
+  }
+}
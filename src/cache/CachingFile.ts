@@ -0,0 +1,49 @@
+import { Data } from "univ-conv";
+import { AbstractFile } from "../AbstractFile";
+import { NotExistAction, ReadOptions, Stats, WriteOptions } from "../core";
+import { CachingFileSystem } from "./CachingFileSystem";
+
+export class CachingFile extends AbstractFile {
+  constructor(private readonly cfs: CachingFileSystem, path: string) {
+    super(cfs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    try {
+      await this.cfs.source.delete(this.path, {
+        onNotExist: NotExistAction.Error,
+        recursive: false,
+      });
+    } finally {
+      this.cfs._invalidate(this.path);
+    }
+  }
+
+  public _doRead(stats: Stats, options: ReadOptions): Promise<Data> {
+    return this.cfs._read(this.path, stats, options);
+  }
+
+  public async _doWrite(
+    data: Data,
+    _stats: Stats | undefined | null,
+    options: WriteOptions
+  ): Promise<void> {
+    try {
+      await this.cfs.source.write(this.path, data, options);
+    } finally {
+      this.cfs._invalidate(this.path);
+    }
+  }
+
+  public supportAppend(): boolean {
+    return true;
+  }
+
+  public supportRangeRead(): boolean {
+    return true;
+  }
+
+  public supportRangeWrite(): boolean {
+    return true;
+  }
+}
@@ -0,0 +1,159 @@
+import { Data } from "univ-conv";
+import { AbstractFileSystem } from "../AbstractFileSystem";
+import {
+  Directory,
+  File,
+  FileSystem,
+  FileSystemOptions,
+  HeadOptions,
+  Item,
+  PatchOptions,
+  ReadOptions,
+  Stats,
+  URLOptions,
+} from "../core";
+import { getParentPath } from "../util";
+import { CachingDirectory } from "./CachingDirectory";
+import { CachingFile } from "./CachingFile";
+import { LRUCache } from "./lru";
+
+export interface CachingFileSystemOptions extends FileSystemOptions {
+  /** The maximum total size of cached contents, 16 MiB by default */
+  maxBytes?: number;
+  /** Files larger than this are never cached, 1 MiB by default */
+  maxContentSize?: number;
+  /** The maximum number of cached stats, listings and contents, 1000 by default */
+  maxEntries?: number;
+  /** Time to live in milliseconds, 60 seconds by default */
+  ttl?: number;
+}
+
+/**
+ * Caches stats, listings and small contents of a FileSystem.
+ * Modifications through this wrapper invalidate the cache,
+ * but modifications made directly on the source are seen only after the TTL.
+ */
+export class CachingFileSystem extends AbstractFileSystem {
+  private readonly cache: LRUCache<Stats | Item[] | Uint8Array>;
+  private readonly maxContentSize: number;
+
+  constructor(
+    public readonly source: FileSystem,
+    options?: CachingFileSystemOptions
+  ) {
+    super(source.repository, options);
+    this.cache = new LRUCache({
+      maxBytes: options?.maxBytes ?? 16 * 1024 * 1024,
+      maxEntries: options?.maxEntries ?? 1000,
+      ttl: options?.ttl ?? 60 * 1000,
+    });
+    this.maxContentSize = options?.maxContentSize ?? 1024 * 1024;
+  }
+
+  public _doGetDirectory(path: string): Directory {
+    return new CachingDirectory(this, path);
+  }
+
+  public _doGetFile(path: string): File {
+    return new CachingFile(this, path);
+  }
+
+  public _doGetURL(
+    path: string,
+    _isDirectory: boolean,
+    options: URLOptions
+  ): Promise<string> {
+    return this.source.getURL(path, options);
+  }
+
+  public async _doHead(path: string, options: HeadOptions): Promise<Stats> {
+    // Some FileSystems answer differently by the type.
+    const key = `${path}|stats:${options.type ?? ""}`;
+    let stats = this.cache.get(key) as Stats | undefined;
+    if (!stats) {
+      stats = await this.source.head(path, options);
+      this.cache.set(key, stats);
+    }
+    return { ...stats };
+  }
+
+  public async _doPatch(
+    path: string,
+    _stats: Stats,
+    props: Stats,
+    options: PatchOptions
+  ): Promise<void> {
+    try {
+      await this.source.patch(path, props, options);
+    } finally {
+      this._invalidate(path);
+    }
+  }
+
+  /**
+   * Removes the cache of the entry and the listing of its parent.
+   */
+  public _invalidate(path: string, recursive = false) {
+    const parentPath = getParentPath(path);
+    this.cache.deleteWhere(
+      (key) =>
+        key.startsWith(path + "|") ||
+        key.startsWith(parentPath + "|") ||
+        (recursive && (path === "/" || key.startsWith(path + "/")))
+    );
+  }
+
+  public async _list(path: string): Promise<Item[]> {
+    const key = `${path}|list`;
+    let items = this.cache.get(key) as Item[] | undefined;
+    if (!items) {
+      const paths = await this.source.list(path);
+      items = paths.map((p) => ({ path: p }));
+      this.cache.set(key, items);
+    }
+    return items.map((item) => ({ ...item }));
+  }
+
+  public async _read(
+    path: string,
+    stats: Stats,
+    options: ReadOptions
+  ): Promise<Data> {
+    const key = `${path}|content`;
+    let content = this.cache.get(key) as Uint8Array | undefined;
+    if (!content) {
+      if (this.maxContentSize < (stats.size ?? 0)) {
+        return this.source.getFile(path).read(undefined, options);
+      }
+      content = await this.source.read(path, "uint8array");
+      this.cache.set(key, content, content.byteLength);
+    }
+    const start = options.start ?? 0;
+    const end = options.length == null ? undefined : start + options.length;
+    // Copies, so that callers cannot modify the cache.
+    return content.slice(start, end);
+  }
+
+  public canPatchAccessed(): boolean {
+    return true;
+  }
+
+  public canPatchCreated(): boolean {
+    return true;
+  }
+
+  public canPatchModified(): boolean {
+    return true;
+  }
+
+  /**
+   * Clears the cache, e.g. after the source is modified directly.
+   */
+  public clearCache() {
+    this.cache.clear();
+  }
+
+  public supportDirectory(): boolean {
+    return this.source.supportDirectory();
+  }
+}
@@ -0,0 +1,4 @@
+export * from "./lru";
+export * from "./CachingDirectory";
+export * from "./CachingFile";
+export * from "./CachingFileSystem";
@@ -0,0 +1,85 @@
+export interface LRUCacheOptions {
+  /** The maximum total size of the values */
+  maxBytes: number;
+  maxEntries: number;
+  /** Time to live in milliseconds */
+  ttl: number;
+}
+
+interface LRUEntry<T> {
+  expires: number;
+  size: number;
+  value: T;
+}
+
+/**
+ * A least recently used cache, which evicts by entry count and total size.
+ * A Map iterates in insertion order, so the first entry is the least recently used.
+ */
+export class LRUCache<T> {
+  private bytes = 0;
+  private readonly entries = new Map<string, LRUEntry<T>>();
+
+  constructor(private readonly options: LRUCacheOptions) {}
+
+  public get byteLength() {
+    return this.bytes;
+  }
+
+  public get size() {
+    return this.entries.size;
+  }
+
+  public clear() {
+    this.entries.clear();
+    this.bytes = 0;
+  }
+
+  public delete(key: string): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return false;
+    }
+    this.entries.delete(key);
+    this.bytes -= entry.size;
+    return true;
+  }
+
+  public deleteWhere(predicate: (key: string) => boolean) {
+    for (const key of Array.from(this.entries.keys())) {
+      if (predicate(key)) {
+        this.delete(key);
+      }
+    }
+  }
+
+  public get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (entry.expires <= Date.now()) {
+      this.bytes -= entry.size;
+      return undefined;
+    }
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  public set(key: string, value: T, size = 0) {
+    this.delete(key);
+    const { maxBytes, maxEntries, ttl } = this.options;
+    if (maxBytes < size || maxEntries <= 0) {
+      return;
+    }
+    this.entries.set(key, { expires: Date.now() + ttl, size, value });
+    this.bytes += size;
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= maxEntries && this.bytes <= maxBytes) {
+        break;
+      }
+      this.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { AbstractDirectory } from "../AbstractDirectory";
+import { Item, NotExistAction } from "../core";
+import { ContentAddressedFileSystem } from "./ContentAddressedFileSystem";
+
+export class ContentAddressedDirectory extends AbstractDirectory {
+  constructor(private readonly cafs: ContentAddressedFileSystem, path: string) {
+    super(cafs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    if (this.path === "/") {
+      throw this._createNoModificationAllowedError({
+        message: "The root directory cannot be deleted",
+      });
+    }
+    const cafs = this.cafs;
+    await cafs.source.delete(cafs._toTreePath(this.path), {
+      onNotExist: NotExistAction.Error,
+      recursive: false,
+    });
+  }
+
+  public _doList(): Promise<Item[]> {
+    return this.cafs._list(this.path);
+  }
+
+  public async _doMkcol(): Promise<void> {
+    const cafs = this.cafs;
+    await cafs.source.mkcol(cafs._toTreePath(this.path));
+  }
+}
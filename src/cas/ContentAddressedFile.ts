@@ -0,0 +1,102 @@
+import { Data } from "univ-conv";
+import { AbstractFile } from "../AbstractFile";
+import {
+  CopyOptions,
+  Entry,
+  ExistsAction,
+  ReadOptions,
+  Stats,
+  WriteOptions,
+} from "../core";
+import {
+  FileSystemError,
+  InvalidModificationError,
+  isNotFoundError,
+  NoModificationAllowedError,
+} from "../errors";
+import { ContentAddressedFileSystem } from "./ContentAddressedFileSystem";
+
+export class ContentAddressedFile extends AbstractFile {
+  constructor(private readonly cafs: ContentAddressedFileSystem, path: string) {
+    super(cafs, path);
+  }
+
+  /**
+   * Copies the reference instead of the content, unless hooks have to see it.
+   */
+  public override async _copy(
+    to: Entry,
+    options: CopyOptions,
+    errors?: FileSystemError[]
+  ): Promise<boolean> {
+    const cafs = this.cafs;
+    if (to.fs !== cafs || (cafs.options.hook && !options.ignoreHook)) {
+      return super._copy(to, options, errors);
+    }
+
+    try {
+      await this._validate(options);
+      try {
+        await (to as ContentAddressedFile)._validate(options);
+        if (options.onExists === ExistsAction.Skip) {
+          return true;
+        }
+        if (options.onExists === ExistsAction.Error) {
+          throw this._createError(InvalidModificationError.name, {
+            path: this.path,
+            from: this.path,
+            to: to.path,
+          });
+        }
+      } catch (e) {
+        if (!isNotFoundError(e)) {
+          throw e;
+        }
+      }
+      await cafs._link(to.path, await cafs._getRef(this.path));
+      return true;
+    } catch (e) {
+      await cafs._handleError(
+        { name: NoModificationAllowedError.name, path: to.path, e },
+        errors
+      );
+      return false;
+    }
+  }
+
+  public async _doDelete(): Promise<void> {
+    await this.cafs._unlink(this.path);
+  }
+
+  public _doRead(stats: Stats, options: ReadOptions): Promise<Data> {
+    const cafs = this.cafs;
+    return cafs.source
+      .getFile(cafs._toObjectPath(stats.etag as string))
+      .read(undefined, options);
+  }
+
+  public async _doWrite(
+    data: Data,
+    _stats: Stats | undefined | null,
+    options: WriteOptions
+  ): Promise<void> {
+    const converter = this._getConverter();
+    const u8 = await converter.toUint8Array(data, {
+      ...options,
+      start: undefined,
+    });
+    await this.cafs._store(this.path, u8);
+  }
+
+  public supportAppend(): boolean {
+    return false;
+  }
+
+  public supportRangeRead(): boolean {
+    return true;
+  }
+
+  public supportRangeWrite(): boolean {
+    return false;
+  }
+}
@@ -0,0 +1,303 @@
+import { createHash } from "sha256-uint8array";
+import { AbstractFileSystem } from "../AbstractFileSystem";
+import {
+  Directory,
+  EntryType,
+  ExistsAction,
+  File,
+  FileSystem,
+  FileSystemOptions,
+  HeadOptions,
+  Item,
+  NoParentAction,
+  NotExistAction,
+  PatchOptions,
+  Stats,
+  URLOptions,
+} from "../core";
+import {
+  createError,
+  DataError,
+  isNotFoundError,
+  NotSupportedError,
+  TypeMismatchError,
+} from "../errors";
+import { getName, getParentPath, joinPaths, toHex } from "../util";
+import { ContentAddressedDirectory } from "./ContentAddressedDirectory";
+import { ContentAddressedFile } from "./ContentAddressedFile";
+
+/** The directory which has the path tree, whose files are references */
+export const TREE_DIR = "/tree";
+/** The directory which has the contents named by their SHA-256 */
+export const OBJECTS_DIR = "/objects";
+/** The directory which has the reference counts of the contents */
+export const REFS_DIR = "/refs";
+
+export interface ContentReference {
+  sha: string;
+  size: number;
+}
+
+/**
+ * Stores each content once under its SHA-256 on the source FileSystem,
+ * and files as references to them, so copying a file copies the reference only.
+ * Contents no longer referenced remain until gc(),
+ * which must not run concurrently with modifications.
+ */
+export class ContentAddressedFileSystem extends AbstractFileSystem {
+  private readonly counting = new Map<string, Promise<void>>();
+  private preparing?: Promise<void>;
+
+  constructor(public readonly source: FileSystem, options?: FileSystemOptions) {
+    super(source.repository, options);
+  }
+
+  /**
+   * Adds to the reference count after the previous updates of the same content,
+   * so that concurrent updates are never lost.
+   */
+  public _addRefCount(sha: string, delta: number): Promise<void> {
+    const previous = this.counting.get(sha) ?? Promise.resolve();
+    const counting = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const count = (await this._getRefCount(sha)) + delta;
+        await this.source.write(joinPaths(REFS_DIR, sha), String(count));
+      });
+    this.counting.set(sha, counting);
+    const cleanUp = () => {
+      if (this.counting.get(sha) === counting) {
+        this.counting.delete(sha);
+      }
+    };
+    counting.then(cleanUp, cleanUp);
+    return counting;
+  }
+
+  public _doGetDirectory(path: string): Directory {
+    return new ContentAddressedDirectory(this, path);
+  }
+
+  public _doGetFile(path: string): File {
+    return new ContentAddressedFile(this, path);
+  }
+
+  public async _doGetURL(
+    path: string,
+    isDirectory: boolean,
+    options: URLOptions
+  ): Promise<string> {
+    if (isDirectory || options.method !== "GET") {
+      throw createError({
+        name: NotSupportedError.name,
+        repository: this.repository,
+        path,
+        message: isDirectory
+          ? `"${path}" is a directory`
+          : `"${options.method as string}" is not supported`,
+      });
+    }
+
+    const stats = await this.head(path);
+    return this.source.getURL(
+      this._toObjectPath(stats.etag as string),
+      options
+    );
+  }
+
+  public async _doHead(path: string, options: HeadOptions): Promise<Stats> {
+    await this._prepare();
+    const stats = await this.source.head(this._toTreePath(path), options);
+    if (stats.size == null) {
+      return stats;
+    }
+    const ref = await this._getRef(path);
+    return { ...stats, size: ref.size, etag: ref.sha };
+  }
+
+  public async _doPatch(
+    path: string,
+    _stats: Stats,
+    props: Stats,
+    options: PatchOptions
+  ): Promise<void> {
+    await this.source.patch(this._toTreePath(path), props, options);
+  }
+
+  public async _getRef(path: string): Promise<ContentReference> {
+    const text = await this.source.read(this._toTreePath(path), "text");
+    try {
+      const ref = JSON.parse(text) as ContentReference;
+      if (!/^[0-9a-f]{64}$/.test(ref.sha) || typeof ref.size !== "number") {
+        throw new Error(`"${path}" has an illegal reference`);
+      }
+      return ref;
+    } catch (e) {
+      throw createError({
+        name: DataError.name,
+        repository: this.repository,
+        path,
+        message: (e as Error).message,
+        e,
+      });
+    }
+  }
+
+  public async _getRefCount(sha: string): Promise<number> {
+    try {
+      const text = await this.source.read(joinPaths(REFS_DIR, sha), "text");
+      return parseInt(text, 10) || 0;
+    } catch (e) {
+      if (isNotFoundError(e)) {
+        return 0;
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Makes the path refer to the content, and counts the references.
+   */
+  public async _link(path: string, ref: ContentReference): Promise<void> {
+    await this._prepare();
+    const source = this.source;
+    const treePath = this._toTreePath(path);
+    // Fails before counting if the parent does not exist.
+    await source.head(getParentPath(treePath), { type: EntryType.Directory });
+    let old: ContentReference | undefined;
+    try {
+      const stats = await source.head(treePath);
+      if (stats.size == null) {
+        throw createError({
+          name: TypeMismatchError.name,
+          repository: this.repository,
+          path,
+          message: `"${path}" is not a file`,
+        });
+      }
+      old = await this._getRef(path);
+    } catch (e) {
+      if (!isNotFoundError(e)) {
+        throw e;
+      }
+    }
+
+    // Counts first, so that gc() never deletes a referenced content.
+    await this._addRefCount(ref.sha, 1);
+    await source.write(treePath, JSON.stringify(ref));
+    if (old) {
+      await this._addRefCount(old.sha, -1);
+    }
+  }
+
+  public async _list(path: string): Promise<Item[]> {
+    await this._prepare();
+    const paths = await this.source.list(this._toTreePath(path));
+    return paths.map((p) => ({ path: joinPaths(path, getName(p)) }));
+  }
+
+  public async _store(path: string, u8: Uint8Array): Promise<void> {
+    await this._prepare();
+    const sha = toHex(createHash().update(u8).digest());
+    const source = this.source;
+    const objectPath = this._toObjectPath(sha);
+    try {
+      await source.head(objectPath);
+    } catch (e) {
+      if (!isNotFoundError(e)) {
+        throw e;
+      }
+      await source.mkcol(getParentPath(objectPath), {
+        onExists: ExistsAction.Skip,
+        onNoParent: NoParentAction.MakeParents,
+      });
+      await source.write(objectPath, u8);
+    }
+    await this._link(path, { sha, size: u8.byteLength });
+  }
+
+  public _toObjectPath(sha: string): string {
+    return joinPaths(OBJECTS_DIR, `${sha.substring(0, 2)}/${sha.substring(2)}`);
+  }
+
+  public _toTreePath(path: string): string {
+    return joinPaths(TREE_DIR, path);
+  }
+
+  public async _unlink(path: string): Promise<void> {
+    const ref = await this._getRef(path);
+    await this.source.delete(this._toTreePath(path), {
+      onNotExist: NotExistAction.Error,
+      recursive: false,
+    });
+    await this._addRefCount(ref.sha, -1);
+  }
+
+  public canPatchAccessed(): boolean {
+    return true;
+  }
+
+  public canPatchCreated(): boolean {
+    return true;
+  }
+
+  public canPatchModified(): boolean {
+    return true;
+  }
+
+  /**
+   * Deletes the contents which are no longer referenced.
+   * Returns the number of the deleted contents.
+   */
+  public async gc(): Promise<number> {
+    await this._prepare();
+    const source = this.source;
+    let deleted = 0;
+    for (const dirPath of await source.list(OBJECTS_DIR)) {
+      for (const objectPath of await source.list(dirPath)) {
+        const sha = getName(dirPath) + getName(objectPath);
+        if (0 < (await this._getRefCount(sha))) {
+          continue;
+        }
+        await source.delete(objectPath, {
+          onNotExist: NotExistAction.Ignore,
+          recursive: false,
+        });
+        const refPath = joinPaths(REFS_DIR, sha);
+        // FileSystem.delete() throws NotFoundError regardless of onNotExist.
+        try {
+          await source.delete(refPath, {
+            onNotExist: NotExistAction.Ignore,
+            recursive: false,
+          });
+        } catch (e) {
+          if (!isNotFoundError(e)) {
+            throw e;
+          }
+        }
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  public supportDirectory(): boolean {
+    return this.source.supportDirectory();
+  }
+
+  private _prepare() {
+    if (!this.preparing) {
+      this.preparing = this._prepareDirectories();
+    }
+    return this.preparing;
+  }
+
+  private async _prepareDirectories() {
+    for (const dirPath of [TREE_DIR, OBJECTS_DIR, REFS_DIR]) {
+      await this.source.mkcol(dirPath, {
+        onExists: ExistsAction.Skip,
+        onNoParent: NoParentAction.Error,
+      });
+    }
+  }
+}
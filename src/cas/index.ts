@@ -0,0 +1,3 @@
+export * from "./ContentAddressedDirectory";
+export * from "./ContentAddressedFile";
+export * from "./ContentAddressedFileSystem";
@@ -0,0 +1,44 @@
+import { AbstractDirectory } from "../AbstractDirectory";
+import { Item, NotExistAction } from "../core";
+import { ChrootFileSystem } from "./ChrootFileSystem";
+
+export class ChrootDirectory extends AbstractDirectory {
+  constructor(private readonly cfs: ChrootFileSystem, path: string) {
+    super(cfs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    if (this.path === "/") {
+      throw this._createNoModificationAllowedError({
+        message: "The root directory cannot be deleted",
+      });
+    }
+    const cfs = this.cfs;
+    await cfs._run((source) =>
+      source.delete(cfs._toSourcePath(this.path), {
+        onNotExist: NotExistAction.Error,
+        recursive: false,
+      })
+    );
+  }
+
+  public async _doList(): Promise<Item[]> {
+    const cfs = this.cfs;
+    const paths = await cfs._run((source) =>
+      source.list(cfs._toSourcePath(this.path))
+    );
+    const items: Item[] = [];
+    for (const sourcePath of paths) {
+      const path = cfs._toPath(sourcePath);
+      if (path != null) {
+        items.push({ path });
+      }
+    }
+    return items;
+  }
+
+  public async _doMkcol(): Promise<void> {
+    const cfs = this.cfs;
+    await cfs._run((source) => source.mkcol(cfs._toSourcePath(this.path)));
+  }
+}
@@ -0,0 +1,50 @@
+import { Data } from "univ-conv";
+import { AbstractFile } from "../AbstractFile";
+import { NotExistAction, ReadOptions, Stats, WriteOptions } from "../core";
+import { ChrootFileSystem } from "./ChrootFileSystem";
+
+export class ChrootFile extends AbstractFile {
+  constructor(private readonly cfs: ChrootFileSystem, path: string) {
+    super(cfs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    const cfs = this.cfs;
+    await cfs._run((source) =>
+      source.delete(cfs._toSourcePath(this.path), {
+        onNotExist: NotExistAction.Error,
+        recursive: false,
+      })
+    );
+  }
+
+  public _doRead(_stats: Stats, options: ReadOptions): Promise<Data> {
+    const cfs = this.cfs;
+    return cfs._run((source) =>
+      source.getFile(cfs._toSourcePath(this.path)).read(undefined, options)
+    );
+  }
+
+  public async _doWrite(
+    data: Data,
+    _stats: Stats | undefined | null,
+    options: WriteOptions
+  ): Promise<void> {
+    const cfs = this.cfs;
+    await cfs._run((source) =>
+      source.write(cfs._toSourcePath(this.path), data, options)
+    );
+  }
+
+  public supportAppend(): boolean {
+    return true;
+  }
+
+  public supportRangeRead(): boolean {
+    return true;
+  }
+
+  public supportRangeWrite(): boolean {
+    return true;
+  }
+}
@@ -0,0 +1,188 @@
+import { AbstractFileSystem } from "../AbstractFileSystem";
+import {
+  Directory,
+  File,
+  FileSystem,
+  FileSystemOptions,
+  HeadOptions,
+  PatchOptions,
+  Stats,
+  URLOptions,
+} from "../core";
+import {
+  createError,
+  FileSystemError,
+  isFileSystemError,
+  SyntaxError,
+} from "../errors";
+import { getPathParts, joinPaths, normalizePath } from "../util";
+import { ChrootDirectory } from "./ChrootDirectory";
+import { ChrootFile } from "./ChrootFile";
+
+/**
+ * Re-roots a FileSystem at a directory.
+ * The directory must exist on the source FileSystem.
+ */
+export class ChrootFileSystem extends AbstractFileSystem {
+  public readonly basePath: string;
+
+  constructor(
+    private readonly source: FileSystem,
+    basePath: string,
+    options?: FileSystemOptions
+  ) {
+    super(source.repository, options);
+    this.basePath = normalizePath(basePath);
+  }
+
+  public _doGetDirectory(path: string): Directory {
+    return new ChrootDirectory(this, path);
+  }
+
+  public _doGetFile(path: string): File {
+    return new ChrootFile(this, path);
+  }
+
+  public _doGetURL(
+    path: string,
+    _isDirectory: boolean,
+    options: URLOptions
+  ): Promise<string> {
+    return this._run((source) =>
+      source.getURL(this._toSourcePath(path), options)
+    );
+  }
+
+  public _doHead(path: string, options: HeadOptions): Promise<Stats> {
+    return this._run((source) =>
+      source.head(this._toSourcePath(path), options)
+    );
+  }
+
+  public async _doPatch(
+    path: string,
+    _stats: Stats,
+    props: Stats,
+    options: PatchOptions
+  ): Promise<void> {
+    await this._run((source) =>
+      source.patch(this._toSourcePath(path), props, options)
+    );
+  }
+
+  /**
+   * Runs an operation on the source FileSystem,
+   * and hides the base path in the error it throws.
+   */
+  public async _run<T>(
+    callback: (source: FileSystem) => Promise<T>
+  ): Promise<T> {
+    try {
+      return await callback(this.source);
+    } catch (e) {
+      throw this._toError(e);
+    }
+  }
+
+  /**
+   * Returns undefined for a path outside of the root,
+   * which must not be told to the caller.
+   */
+  public _toPath(sourcePath: string): string | undefined {
+    const base = this.basePath;
+    if (base === "/") {
+      return sourcePath;
+    }
+    if (sourcePath === base) {
+      return "/";
+    }
+    if (sourcePath.startsWith(base + "/")) {
+      return sourcePath.substring(base.length);
+    }
+    return undefined;
+  }
+
+  public _toSourcePath(path: string): string {
+    let parts: string[];
+    try {
+      parts = getPathParts(path);
+    } catch (e) {
+      throw this._createEscapeError(path, e);
+    }
+    // Never trust the parts, they become a path on the source FileSystem.
+    if (parts.some((part) => part === "..")) {
+      throw this._createEscapeError(path);
+    }
+    const base = this.basePath;
+    const sourcePath = joinPaths(base, parts.join("/"));
+    if (
+      base !== "/" &&
+      sourcePath !== base &&
+      !sourcePath.startsWith(base + "/")
+    ) {
+      throw this._createEscapeError(path);
+    }
+    return sourcePath;
+  }
+
+  public canPatchAccessed(): boolean {
+    return true;
+  }
+
+  public canPatchCreated(): boolean {
+    return true;
+  }
+
+  public canPatchModified(): boolean {
+    return true;
+  }
+
+  public supportDirectory(): boolean {
+    return this.source.supportDirectory();
+  }
+
+  private _createEscapeError(path: string, e?: unknown) {
+    return createError({
+      name: SyntaxError.name,
+      repository: this.repository,
+      path,
+      message: `"${path}" is outside of the root`,
+      e,
+    });
+  }
+
+  private _toError(e: unknown): unknown {
+    if (!isFileSystemError(e)) {
+      return e;
+    }
+
+    const base = this.basePath;
+    // The cause is dropped, it may tell the real path.
+    const error = new FileSystemError({
+      ...e,
+      name: e.name,
+      message: e.message,
+      repository: this.repository,
+      e: undefined,
+    });
+    for (const key of ["path", "from", "to"]) {
+      const value = error[key] as unknown;
+      if (typeof value === "string") {
+        const path = this._toPath(value);
+        if (path == null) {
+          delete error[key];
+        } else {
+          error[key] = path;
+        }
+      }
+    }
+    if (base !== "/" && error.message) {
+      error.message = error.message
+        .split(base + "/")
+        .join("/")
+        .split(`"${base}"`)
+        .join('"/"');
+    }
+    return error;
+  }
+}
@@ -0,0 +1,3 @@
+export * from "./ChrootDirectory";
+export * from "./ChrootFile";
+export * from "./ChrootFileSystem";
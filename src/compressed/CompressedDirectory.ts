@@ -0,0 +1,24 @@
+import { AbstractDirectory } from "../AbstractDirectory";
+import { Item, NotExistAction } from "../core";
+import { CompressedFileSystem } from "./CompressedFileSystem";
+
+export class CompressedDirectory extends AbstractDirectory {
+  constructor(private readonly cfs: CompressedFileSystem, path: string) {
+    super(cfs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    await this.cfs.source.delete(this.path, {
+      onNotExist: NotExistAction.Error,
+      recursive: false,
+    });
+  }
+
+  public _doList(): Promise<Item[]> {
+    return this.cfs._list(this.path);
+  }
+
+  public async _doMkcol(): Promise<void> {
+    await this.cfs.source.mkcol(this.path);
+  }
+}
@@ -0,0 +1,72 @@
+import { Data } from "univ-conv";
+import { AbstractFile } from "../AbstractFile";
+import { NotExistAction, Stats, WriteOptions } from "../core";
+import {
+  COMPRESSION_PROP,
+  CompressedFileSystem,
+  UNCOMPRESSED_SIZE_PROP,
+} from "./CompressedFileSystem";
+
+export class CompressedFile extends AbstractFile {
+  constructor(private readonly cfs: CompressedFileSystem, path: string) {
+    super(cfs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    await this.cfs.source.delete(this.path, {
+      onNotExist: NotExistAction.Error,
+      recursive: false,
+    });
+  }
+
+  public _doRead(stats: Stats): Promise<Data> {
+    return this.cfs._decompress(this.path, stats);
+  }
+
+  public async _doWrite(
+    data: Data,
+    _stats: Stats | undefined | null,
+    options: WriteOptions
+  ): Promise<void> {
+    const converter = this._getConverter();
+    const u8 = await converter.toUint8Array(data, {
+      ...options,
+      start: undefined,
+    });
+    const cfs = this.cfs;
+    const path = this.path;
+    const { compression, data: compressed } = await cfs._compress(path, u8);
+
+    const source = cfs.source;
+    await source.write(path, compressed, { ...options, append: false });
+    try {
+      // The current times, otherwise patch() complains of them.
+      const { accessed, created, modified } = await source.head(path);
+      await source.patch(path, {
+        ...(accessed != null && { accessed }),
+        ...(created != null && { created }),
+        ...(modified != null && { modified }),
+        [COMPRESSION_PROP]: compression,
+        [UNCOMPRESSED_SIZE_PROP]: u8.byteLength,
+      });
+    } catch (e) {
+      // Without the props, the compressed bytes would be read as the content.
+      await source
+        .delete(path, { onNotExist: NotExistAction.Error, recursive: false })
+        .catch(() => undefined);
+      throw e;
+    }
+  }
+
+  public supportAppend(): boolean {
+    return false;
+  }
+
+  public supportRangeRead(): boolean {
+    return false;
+  }
+
+  public supportRangeWrite(): boolean {
+    return false;
+  }
+}
@@ -0,0 +1,182 @@
+import { DEFAULT_CONVERTER } from "univ-conv";
+import { AbstractFileSystem } from "../AbstractFileSystem";
+import {
+  Directory,
+  File,
+  FileSystem,
+  FileSystemOptions,
+  HeadOptions,
+  Item,
+  PatchOptions,
+  Stats,
+  URLOptions,
+} from "../core";
+import { createError, DataError, NotSupportedError } from "../errors";
+import { CompressedDirectory } from "./CompressedDirectory";
+import { CompressedFile } from "./CompressedFile";
+import {
+  compressData,
+  CompressionFormat,
+  decompressData,
+  DEFAULT_EXCLUDE_CONTENT_TYPES,
+  DEFAULT_EXCLUDES,
+  globToRegExp,
+  IDENTITY,
+  sniffContentType,
+} from "./compression";
+
+/** The prop which has "gzip", "deflate" or "identity" */
+export const COMPRESSION_PROP = "compression";
+/** The prop which has the size before compression */
+export const UNCOMPRESSED_SIZE_PROP = "uncompressed-size";
+
+export interface CompressedFileSystemOptions extends FileSystemOptions {
+  /** Content types sniffed from the contents which are stored as they are */
+  excludeContentTypes?: string[];
+  /** Glob patterns of paths which are stored as they are */
+  excludes?: string[];
+  /** "gzip" by default */
+  format?: CompressionFormat;
+}
+
+/**
+ * Compresses the contents of files, except already compressed ones.
+ * The compression and the size before it are stored in the custom props,
+ * so the source FileSystem must keep them.
+ */
+export class CompressedFileSystem extends AbstractFileSystem {
+  public readonly format: CompressionFormat;
+
+  private readonly excludeContentTypes: RegExp[];
+  private readonly excludes: RegExp[];
+
+  constructor(
+    public readonly source: FileSystem,
+    options?: CompressedFileSystemOptions
+  ) {
+    super(source.repository, options);
+    this.format = options?.format ?? "gzip";
+    this.excludes = (options?.excludes ?? DEFAULT_EXCLUDES).map(globToRegExp);
+    // Content types have no "/" in the name part, so they are matched as paths.
+    this.excludeContentTypes = (
+      options?.excludeContentTypes ?? DEFAULT_EXCLUDE_CONTENT_TYPES
+    ).map((contentType) => globToRegExp("/" + contentType));
+  }
+
+  public async _compress(
+    path: string,
+    u8: Uint8Array
+  ): Promise<{ compression: string; data: Uint8Array }> {
+    const contentType = sniffContentType(u8);
+    if (
+      this.excludes.some((re) => re.test(path)) ||
+      (contentType &&
+        this.excludeContentTypes.some((re) => re.test("/" + contentType)))
+    ) {
+      return { compression: IDENTITY, data: u8 };
+    }
+    const format = this.format;
+    return { compression: format, data: await compressData(u8, format) };
+  }
+
+  public async _decompress(path: string, stats: Stats): Promise<Uint8Array> {
+    const u8 = await this.source.read(path, "uint8array");
+    if (!isCompressed(stats)) {
+      return u8;
+    }
+    const compression = stats[COMPRESSION_PROP];
+    try {
+      if (compression !== "gzip" && compression !== "deflate") {
+        throw new Error(`Unsupported compression: ${String(compression)}`);
+      }
+      return await decompressData(u8, compression);
+    } catch (e) {
+      throw createError({
+        name: DataError.name,
+        repository: this.repository,
+        path,
+        e,
+      });
+    }
+  }
+
+  public _doGetDirectory(path: string): Directory {
+    return new CompressedDirectory(this, path);
+  }
+
+  public _doGetFile(path: string): File {
+    return new CompressedFile(this, path);
+  }
+
+  public async _doGetURL(
+    path: string,
+    isDirectory: boolean,
+    options: URLOptions
+  ): Promise<string> {
+    if (isDirectory) {
+      return this.source.getURL(path, options);
+    }
+    if (options.method !== "GET") {
+      throw createError({
+        name: NotSupportedError.name,
+        repository: this.repository,
+        path,
+        message: `"${options.method as string}" is not supported`,
+      });
+    }
+
+    const stats = await this.head(path);
+    if (!isCompressed(stats)) {
+      return this.source.getURL(path, options);
+    }
+    const u8 = await this._decompress(path, stats);
+    return DEFAULT_CONVERTER.toURL(u8, { dstURLType: "data" });
+  }
+
+  public async _doHead(path: string, options: HeadOptions): Promise<Stats> {
+    const stats = await this.source.head(path, options);
+    if (stats.size == null || !isCompressed(stats)) {
+      return stats;
+    }
+    // Some FileSystems keep custom props as strings.
+    return { ...stats, size: Number(stats[UNCOMPRESSED_SIZE_PROP]) };
+  }
+
+  public async _doPatch(
+    path: string,
+    _stats: Stats,
+    props: Stats,
+    options: PatchOptions
+  ): Promise<void> {
+    props = { ...props };
+    delete props[COMPRESSION_PROP];
+    delete props[UNCOMPRESSED_SIZE_PROP];
+    await this.source.patch(path, props, options);
+  }
+
+  public async _list(path: string): Promise<Item[]> {
+    const paths = await this.source.list(path);
+    return paths.map((p) => ({ path: p }));
+  }
+
+  public canPatchAccessed(): boolean {
+    return true;
+  }
+
+  public canPatchCreated(): boolean {
+    return true;
+  }
+
+  public canPatchModified(): boolean {
+    return true;
+  }
+
+  public supportDirectory(): boolean {
+    return this.source.supportDirectory();
+  }
+}
+
+function isCompressed(stats: Stats) {
+  const compression = stats[COMPRESSION_PROP];
+  return compression != null && compression !== IDENTITY;
+}
@@ -0,0 +1,172 @@
+import { isNode } from "univ-conv";
+
+export type CompressionFormat = "deflate" | "gzip";
+
+/** The value of the compression prop of a file stored as it is */
+export const IDENTITY = "identity";
+
+export const DEFAULT_EXCLUDES = [
+  "*.7z",
+  "*.br",
+  "*.bz2",
+  "*.gif",
+  "*.gz",
+  "*.jpeg",
+  "*.jpg",
+  "*.mp3",
+  "*.mp4",
+  "*.png",
+  "*.tgz",
+  "*.webp",
+  "*.woff2",
+  "*.xz",
+  "*.zip",
+  "*.zst",
+];
+
+export const DEFAULT_EXCLUDE_CONTENT_TYPES = [
+  "application/gzip",
+  "application/x-7z-compressed",
+  "application/x-bzip2",
+  "application/x-xz",
+  "application/zip",
+  "application/zstd",
+  "image/*",
+];
+
+type TransformStreamConstructor = new (
+  format: CompressionFormat
+) => TransformStream<Uint8Array, Uint8Array>;
+
+interface CompressionStreams {
+  CompressionStream?: TransformStreamConstructor;
+  DecompressionStream?: TransformStreamConstructor;
+}
+
+const MAGIC_NUMBERS: [number[], string][] = [
+  [[0x1f, 0x8b], "application/gzip"],
+  [[0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c], "application/x-7z-compressed"],
+  [[0x42, 0x5a, 0x68], "application/x-bzip2"],
+  [[0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00], "application/x-xz"],
+  [[0x50, 0x4b, 0x03, 0x04], "application/zip"],
+  [[0x28, 0xb5, 0x2f, 0xfd], "application/zstd"],
+  [[0x47, 0x49, 0x46, 0x38], "image/gif"],
+  [[0xff, 0xd8, 0xff], "image/jpeg"],
+  [[0x89, 0x50, 0x4e, 0x47], "image/png"],
+];
+
+/**
+ * Guesses the content type by the magic number, only for compressed formats.
+ */
+export function sniffContentType(u8: Uint8Array): string | undefined {
+  for (const [magic, contentType] of MAGIC_NUMBERS) {
+    if (magic.every((b, i) => u8[i] === b)) {
+      return contentType;
+    }
+  }
+  if (
+    12 <= u8.byteLength &&
+    String.fromCharCode(...u8.subarray(0, 4)) === "RIFF" &&
+    String.fromCharCode(...u8.subarray(8, 12)) === "WEBP"
+  ) {
+    return "image/webp";
+  }
+  return undefined;
+}
+
+/**
+ * Converts a glob into a RegExp, "**" matches any number of directories.
+ * A pattern without "/" matches the name in any directory.
+ */
+export function globToRegExp(glob: string): RegExp {
+  if (!glob.includes("/")) {
+    glob = "**/" + glob;
+  } else if (!glob.startsWith("/")) {
+    glob = "/" + glob;
+  }
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i] as string;
+    if (c === "*" && glob[i + 1] === "*") {
+      if (glob[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i++;
+      }
+    } else if (c === "*") {
+      source += "[^/]*";
+    } else if (c === "?") {
+      source += "[^/]";
+    } else {
+      source += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+export function compressData(
+  u8: Uint8Array,
+  format: CompressionFormat
+): Promise<Uint8Array> {
+  const { CompressionStream } = globalThis as CompressionStreams;
+  if (typeof CompressionStream === "function") {
+    return transform(u8, new CompressionStream(format));
+  }
+  if (isNode) {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const zlib = require("zlib") as typeof import("zlib");
+    return runZlib(format === "gzip" ? zlib.gzip : zlib.deflate, u8);
+  }
+  throw new Error("CompressionStream is not available");
+}
+
+export function decompressData(
+  u8: Uint8Array,
+  format: CompressionFormat
+): Promise<Uint8Array> {
+  const { DecompressionStream } = globalThis as CompressionStreams;
+  if (typeof DecompressionStream === "function") {
+    return transform(u8, new DecompressionStream(format));
+  }
+  if (isNode) {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const zlib = require("zlib") as typeof import("zlib");
+    return runZlib(format === "gzip" ? zlib.gunzip : zlib.inflate, u8);
+  }
+  throw new Error("DecompressionStream is not available");
+}
+
+function runZlib(
+  fn: (
+    buf: Uint8Array,
+    callback: (error: Error | null, result: Buffer) => void
+  ) => void,
+  u8: Uint8Array
+): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    fn(u8, (error, result) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(
+          new Uint8Array(result.buffer, result.byteOffset, result.byteLength)
+        );
+      }
+    });
+  });
+}
+
+async function transform(
+  u8: Uint8Array,
+  stream: TransformStream<Uint8Array, Uint8Array>
+): Promise<Uint8Array> {
+  const readable = new ReadableStream<Uint8Array>({
+    start: (controller) => {
+      controller.enqueue(u8);
+      controller.close();
+    },
+  }).pipeThrough(stream);
+  return new Uint8Array(await new Response(readable).arrayBuffer());
+}
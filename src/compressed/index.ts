@@ -0,0 +1,4 @@
+export * from "./compression";
+export * from "./CompressedDirectory";
+export * from "./CompressedFile";
+export * from "./CompressedFileSystem";
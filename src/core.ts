@@ -34,8 +34,13 @@ export interface FileSystemOptions {
   defaultReadOptions?: ReadOptions;
   defaultWriteOptions?: WriteOptions;
   hook?: Hook;
+  /** Deleted entries are moved into the trash directory */
+  trash?: boolean;
 }
 
+/** The directory which has the entries deleted in the trash mode */
+export const TRASH_DIR = "/.trash";
+
 export type Method = "GET" | "POST" | "PUT" | "DELETE";
 
 export interface Options {
@@ -79,6 +84,22 @@ export type PatchOptions = HeadOptions;
 export interface DeleteOptions extends Options {
   onNotExist: NotExistAction;
   recursive: boolean;
+  /** Overrides the trash mode of the FileSystem */
+  trash?: boolean;
+}
+
+export interface TrashItem {
+  /** When the entry was deleted */
+  deleted: number;
+  id: string;
+  /** The original path of the entry */
+  path: string;
+  type: EntryType;
+}
+
+export interface EmptyTrashOptions {
+  /** Only the items deleted earlier than this in milliseconds are deleted */
+  olderThan?: number;
 }
 
 export interface MkcolOptions extends Options {
@@ -247,6 +268,7 @@ export interface FileSystem {
     options?: ListOptions,
     errors?: FileSystemError[]
   ): Promise<string[] | null>;
+  emptyTrash(options?: EmptyTrashOptions): Promise<number>;
   getDirectory(path: string): Directory;
   getFile(path: string): File;
   getURL(path: string, options?: URLOptions): Promise<string>;
@@ -273,6 +295,7 @@ export interface FileSystem {
     options?: ListOptions,
     errors?: FileSystemError[]
   ): Promise<string[] | null>;
+  listTrash(): Promise<TrashItem[]>;
   ls(path: string, options?: ListOptions): Promise<string[]>;
   ls(
     path: string,
@@ -324,6 +347,7 @@ export interface FileSystem {
     options?: ListOptions,
     errors?: FileSystemError[]
   ): Promise<string[] | null>;
+  restoreFromTrash(id: string): Promise<void>;
   rm(
     path: string,
     options?: DeleteOptions,
@@ -0,0 +1,26 @@
+import { AbstractDirectory } from "../AbstractDirectory";
+import { Item, NotExistAction } from "../core";
+import { EncryptedFileSystem } from "./EncryptedFileSystem";
+
+export class EncryptedDirectory extends AbstractDirectory {
+  constructor(private readonly efs: EncryptedFileSystem, path: string) {
+    super(efs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    const efs = this.efs;
+    await efs.source.delete(await efs._toSourcePath(this.path), {
+      onNotExist: NotExistAction.Error,
+      recursive: false,
+    });
+  }
+
+  public _doList(): Promise<Item[]> {
+    return this.efs._list(this.path);
+  }
+
+  public async _doMkcol(): Promise<void> {
+    const efs = this.efs;
+    await efs.source.mkcol(await efs._toSourcePath(this.path));
+  }
+}
@@ -0,0 +1,57 @@
+import { Data } from "univ-conv";
+import { AbstractFile } from "../AbstractFile";
+import { NotExistAction, ReadOptions, Stats, WriteOptions } from "../core";
+import { EncryptedFileSystem } from "./EncryptedFileSystem";
+
+export class EncryptedFile extends AbstractFile {
+  constructor(private readonly efs: EncryptedFileSystem, path: string) {
+    super(efs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    const efs = this.efs;
+    await efs.source.delete(await efs._toSourcePath(this.path), {
+      onNotExist: NotExistAction.Error,
+      recursive: false,
+    });
+  }
+
+  public _doRead(stats: Stats, options: ReadOptions): Promise<Data> {
+    return this.efs._read(
+      this.path,
+      stats.size as number,
+      options.start,
+      options.length
+    );
+  }
+
+  public async _doWrite(
+    data: Data,
+    _stats: Stats | undefined | null,
+    options: WriteOptions
+  ): Promise<void> {
+    const converter = this._getConverter();
+    const u8 = await converter.toUint8Array(data, {
+      ...options,
+      start: undefined,
+    });
+    const efs = this.efs;
+    const encrypted = await efs._encrypt(u8);
+    await efs.source.write(await efs._toSourcePath(this.path), encrypted, {
+      ...options,
+      append: false,
+    });
+  }
+
+  public supportAppend(): boolean {
+    return false;
+  }
+
+  public supportRangeRead(): boolean {
+    return true;
+  }
+
+  public supportRangeWrite(): boolean {
+    return false;
+  }
+}
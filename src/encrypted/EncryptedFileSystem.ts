@@ -0,0 +1,275 @@
+import { DEFAULT_CONVERTER, EMPTY_UINT8_ARRAY } from "univ-conv";
+import { AbstractFileSystem } from "../AbstractFileSystem";
+import {
+  Directory,
+  File,
+  FileSystem,
+  FileSystemOptions,
+  HeadOptions,
+  Item,
+  PatchOptions,
+  Stats,
+  URLOptions,
+} from "../core";
+import {
+  createError,
+  DataError,
+  isFileSystemError,
+  NotSupportedError,
+} from "../errors";
+import { getPathParts, joinPaths } from "../util";
+import {
+  CHUNK_OVERHEAD,
+  createHeader,
+  decryptChunk,
+  decryptName,
+  deriveNameKeys,
+  encryptChunk,
+  encryptName,
+  getChunkCount,
+  getPlainSize,
+  HEADER_LENGTH,
+  NameKeys,
+  parseHeader,
+} from "./cipher";
+import { EncryptedDirectory } from "./EncryptedDirectory";
+import { EncryptedFile } from "./EncryptedFile";
+
+export interface EncryptedFileSystemOptions extends FileSystemOptions {
+  /**
+   * The plaintext size of a chunk, 64 KiB by default.
+   * Files must be read with the chunk size they were written with.
+   */
+  chunkSize?: number;
+  /** An HMAC key, which encrypts the names of entries as well when given */
+  nameKey?: CryptoKey | Promise<CryptoKey>;
+}
+
+/**
+ * Encrypts the contents of files by AES-GCM with a random key per file,
+ * which is wrapped by the AES-KW master key.
+ * The keys may be promises, e.g. of keys derived from a passphrase.
+ */
+export class EncryptedFileSystem extends AbstractFileSystem {
+  public readonly chunkSize: number;
+
+  private readonly nameKey?: CryptoKey | Promise<CryptoKey>;
+  private nameKeys?: Promise<NameKeys>;
+
+  constructor(
+    public readonly source: FileSystem,
+    private readonly masterKey: CryptoKey | Promise<CryptoKey>,
+    options?: EncryptedFileSystemOptions
+  ) {
+    super(source.repository, options);
+    this.chunkSize = options?.chunkSize ?? 64 * 1024;
+    this.nameKey = options?.nameKey;
+  }
+
+  public _doGetDirectory(path: string): Directory {
+    return new EncryptedDirectory(this, path);
+  }
+
+  public _doGetFile(path: string): File {
+    return new EncryptedFile(this, path);
+  }
+
+  public async _doGetURL(
+    path: string,
+    isDirectory: boolean,
+    options: URLOptions
+  ): Promise<string> {
+    if (isDirectory || options.method !== "GET") {
+      throw createError({
+        name: NotSupportedError.name,
+        repository: this.repository,
+        path,
+        message: isDirectory
+          ? `"${path}" is a directory`
+          : `"${options.method as string}" is not supported`,
+      });
+    }
+
+    const stats = await this.head(path);
+    const u8 = await this._read(path, stats.size as number);
+    return DEFAULT_CONVERTER.toURL(u8, { dstURLType: "data" });
+  }
+
+  public async _doHead(path: string, options: HeadOptions): Promise<Stats> {
+    const stats = await this.source.head(
+      await this._toSourcePath(path),
+      options
+    );
+    if (stats.size == null) {
+      return stats;
+    }
+    const size = getPlainSize(stats.size, this.chunkSize);
+    if (size < 0) {
+      throw this._createDataError(
+        path,
+        new Error(`"${path}" is not an encrypted file`)
+      );
+    }
+    return { ...stats, size };
+  }
+
+  public async _doPatch(
+    path: string,
+    _stats: Stats,
+    props: Stats,
+    options: PatchOptions
+  ): Promise<void> {
+    await this.source.patch(await this._toSourcePath(path), props, options);
+  }
+
+  public async _encrypt(plain: Uint8Array): Promise<Uint8Array> {
+    const chunkSize = this.chunkSize;
+    const { fileKey, header } = await createHeader(await this.masterKey);
+    const count = getChunkCount(plain.byteLength, chunkSize);
+    const u8 = new Uint8Array(
+      HEADER_LENGTH + count * CHUNK_OVERHEAD + plain.byteLength
+    );
+    u8.set(header);
+    let offset = HEADER_LENGTH;
+    for (let i = 0; i < count; i++) {
+      const chunk = await encryptChunk(
+        fileKey,
+        i,
+        i === count - 1,
+        plain.subarray(i * chunkSize, (i + 1) * chunkSize)
+      );
+      u8.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+    return u8;
+  }
+
+  public async _list(path: string): Promise<Item[]> {
+    const paths = await this.source.list(await this._toSourcePath(path));
+    const nameKeys = await this._getNameKeys();
+    const items: Item[] = [];
+    for (const sourcePath of paths) {
+      const name = getPathParts(sourcePath).pop() as string;
+      if (!nameKeys) {
+        items.push({ path: joinPaths(path, name) });
+        continue;
+      }
+      const decrypted = await decryptName(nameKeys, name);
+      // Skips the entries which are not encrypted by the key.
+      if (decrypted != null) {
+        items.push({ path: joinPaths(path, decrypted) });
+      }
+    }
+    return items;
+  }
+
+  /**
+   * Reads and decrypts only the chunks which the range touches.
+   */
+  public async _read(
+    path: string,
+    size: number,
+    start = 0,
+    length?: number
+  ): Promise<Uint8Array> {
+    const end = length == null ? size : Math.min(start + length, size);
+    if (end <= start) {
+      return EMPTY_UINT8_ARRAY;
+    }
+
+    const source = this.source;
+    const sourcePath = await this._toSourcePath(path);
+    try {
+      const header = await source.read(sourcePath, "uint8array", {
+        start: 0,
+        length: HEADER_LENGTH,
+      });
+      const fileKey = await parseHeader(header, await this.masterKey);
+
+      const chunkSize = this.chunkSize;
+      const encryptedChunkSize = chunkSize + CHUNK_OVERHEAD;
+      const last = getChunkCount(size, chunkSize) - 1;
+      const first = Math.floor(start / chunkSize);
+      const to = Math.floor((end - 1) / chunkSize);
+      const encrypted = await source.read(sourcePath, "uint8array", {
+        start: HEADER_LENGTH + first * encryptedChunkSize,
+        length:
+          (to - first) * encryptedChunkSize +
+          Math.min(chunkSize, size - to * chunkSize) +
+          CHUNK_OVERHEAD,
+      });
+
+      const u8 = new Uint8Array(end - start);
+      for (let i = first; i <= to; i++) {
+        const offset = (i - first) * encryptedChunkSize;
+        const chunk = await decryptChunk(
+          fileKey,
+          i,
+          i === last,
+          encrypted.subarray(offset, offset + encryptedChunkSize)
+        );
+        const chunkStart = i * chunkSize;
+        const from = Math.max(start, chunkStart);
+        const until = Math.min(end, chunkStart + chunk.byteLength);
+        u8.set(
+          chunk.subarray(from - chunkStart, until - chunkStart),
+          from - start
+        );
+      }
+      return u8;
+    } catch (e) {
+      throw this._createDataError(path, e);
+    }
+  }
+
+  public async _toSourcePath(path: string): Promise<string> {
+    const nameKeys = await this._getNameKeys();
+    if (!nameKeys) {
+      return path;
+    }
+    let sourcePath = "/";
+    for (const name of getPathParts(path)) {
+      sourcePath = joinPaths(sourcePath, await encryptName(nameKeys, name));
+    }
+    return sourcePath;
+  }
+
+  public canPatchAccessed(): boolean {
+    return true;
+  }
+
+  public canPatchCreated(): boolean {
+    return true;
+  }
+
+  public canPatchModified(): boolean {
+    return true;
+  }
+
+  public supportDirectory(): boolean {
+    return this.source.supportDirectory();
+  }
+
+  private _createDataError(path: string, e: unknown) {
+    if (isFileSystemError(e)) {
+      return e;
+    }
+    return createError({
+      name: DataError.name,
+      repository: this.repository,
+      path,
+      message: (e as Error).message,
+      e,
+    });
+  }
+
+  private _getNameKeys(): Promise<NameKeys | undefined> {
+    if (!this.nameKey) {
+      return Promise.resolve(undefined);
+    }
+    if (!this.nameKeys) {
+      this.nameKeys = Promise.resolve(this.nameKey).then(deriveNameKeys);
+    }
+    return this.nameKeys;
+  }
+}
@@ -0,0 +1,240 @@
+import { getCrypto } from "../util";
+
+/*
+ * An encrypted file is "UFE1" + the wrapped file key, followed by chunks.
+ * Each chunk is a random IV + the AES-GCM ciphertext of `chunkSize` bytes
+ * (the last one may be shorter) + the authentication tag.
+ */
+const MAGIC = new Uint8Array([0x55, 0x46, 0x45, 0x31]);
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+/** A 256 bits key wrapped by AES-KW */
+const WRAPPED_KEY_LENGTH = 40;
+
+export const HEADER_LENGTH = MAGIC.byteLength + WRAPPED_KEY_LENGTH;
+export const CHUNK_OVERHEAD = IV_LENGTH + TAG_LENGTH;
+
+export interface NameKeys {
+  encKey: CryptoKey;
+  macKey: CryptoKey;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function getChunkCount(size: number, chunkSize: number) {
+  // An empty file has an empty chunk, which authenticates the end.
+  return Math.max(1, Math.ceil(size / chunkSize));
+}
+
+export function getEncryptedSize(size: number, chunkSize: number) {
+  return HEADER_LENGTH + getChunkCount(size, chunkSize) * CHUNK_OVERHEAD + size;
+}
+
+/**
+ * Returns the plaintext size of an encrypted file, or -1 when it is broken.
+ */
+export function getPlainSize(encryptedSize: number, chunkSize: number) {
+  const body = encryptedSize - HEADER_LENGTH;
+  if (body < CHUNK_OVERHEAD) {
+    return -1;
+  }
+  const count = Math.ceil(body / (chunkSize + CHUNK_OVERHEAD));
+  const lastLength = body - (count - 1) * (chunkSize + CHUNK_OVERHEAD);
+  if (lastLength < CHUNK_OVERHEAD) {
+    return -1;
+  }
+  return body - count * CHUNK_OVERHEAD;
+}
+
+export async function createHeader(masterKey: CryptoKey) {
+  const subtle = getCrypto().subtle;
+  const fileKey = await subtle.generateKey(
+    { name: "AES-GCM", length: 256 },
+    true,
+    ["encrypt", "decrypt"]
+  );
+  const wrapped = await subtle.wrapKey("raw", fileKey, masterKey, "AES-KW");
+  const header = new Uint8Array(HEADER_LENGTH);
+  header.set(MAGIC);
+  header.set(new Uint8Array(wrapped), MAGIC.byteLength);
+  return { fileKey, header };
+}
+
+export async function parseHeader(header: Uint8Array, masterKey: CryptoKey) {
+  if (
+    header.byteLength < HEADER_LENGTH ||
+    MAGIC.some((b, i) => header[i] !== b)
+  ) {
+    throw new Error("Not an encrypted file");
+  }
+  return getCrypto().subtle.unwrapKey(
+    "raw",
+    header.subarray(MAGIC.byteLength, HEADER_LENGTH),
+    masterKey,
+    "AES-KW",
+    "AES-GCM",
+    false,
+    ["decrypt"]
+  );
+}
+
+function getAdditionalData(index: number, last: boolean) {
+  // Binds a chunk to its position, so that chunks cannot be reordered or cut off.
+  const ad = new Uint8Array(9);
+  const view = new DataView(ad.buffer);
+  view.setUint32(0, Math.floor(index / 0x100000000));
+  view.setUint32(4, index >>> 0);
+  view.setUint8(8, last ? 1 : 0);
+  return ad;
+}
+
+export async function encryptChunk(
+  fileKey: CryptoKey,
+  index: number,
+  last: boolean,
+  plain: Uint8Array
+) {
+  const crypto = getCrypto();
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const encrypted = (await crypto.subtle.encrypt(
+    {
+      name: "AES-GCM",
+      iv,
+      additionalData: getAdditionalData(index, last),
+    },
+    fileKey,
+    plain
+  )) as ArrayBuffer;
+  const chunk = new Uint8Array(IV_LENGTH + encrypted.byteLength);
+  chunk.set(iv);
+  chunk.set(new Uint8Array(encrypted), IV_LENGTH);
+  return chunk;
+}
+
+export async function decryptChunk(
+  fileKey: CryptoKey,
+  index: number,
+  last: boolean,
+  chunk: Uint8Array
+) {
+  const plain = (await getCrypto().subtle.decrypt(
+    {
+      name: "AES-GCM",
+      iv: chunk.subarray(0, IV_LENGTH),
+      additionalData: getAdditionalData(index, last),
+    },
+    fileKey,
+    chunk.subarray(IV_LENGTH)
+  )) as ArrayBuffer;
+  return new Uint8Array(plain);
+}
+
+/**
+ * Derives the keys for names from an HMAC key.
+ */
+export async function deriveNameKeys(nameKey: CryptoKey): Promise<NameKeys> {
+  const subtle = getCrypto().subtle;
+  const raw = await subtle.sign(
+    "HMAC",
+    nameKey,
+    encoder.encode("\x00univ-fs:names")
+  );
+  const encKey = await subtle.importKey(
+    "raw",
+    raw.slice(0, 32),
+    "AES-CTR",
+    false,
+    ["encrypt", "decrypt"]
+  );
+  return { encKey, macKey: nameKey };
+}
+
+async function getSyntheticIV(keys: NameKeys, name: Uint8Array) {
+  const input = new Uint8Array(name.byteLength + 1);
+  input[0] = 1;
+  input.set(name, 1);
+  const mac = await getCrypto().subtle.sign("HMAC", keys.macKey, input);
+  return new Uint8Array(mac, 0, 16);
+}
+
+/**
+ * Encrypts a name deterministically (SIV), so that it can be looked up.
+ */
+export async function encryptName(keys: NameKeys, name: string) {
+  const u8 = encoder.encode(name);
+  const siv = await getSyntheticIV(keys, u8);
+  const encrypted = (await getCrypto().subtle.encrypt(
+    { name: "AES-CTR", counter: siv, length: 64 },
+    keys.encKey,
+    u8
+  )) as ArrayBuffer;
+  const result = new Uint8Array(siv.byteLength + encrypted.byteLength);
+  result.set(siv);
+  result.set(new Uint8Array(encrypted), siv.byteLength);
+  return toBase32(result);
+}
+
+/**
+ * Decrypts a name, or returns undefined when it is not encrypted by the keys.
+ */
+export async function decryptName(keys: NameKeys, encrypted: string) {
+  const u8 = fromBase32(encrypted);
+  if (!u8 || u8.byteLength < 16) {
+    return undefined;
+  }
+  const siv = u8.subarray(0, 16);
+  const plain = new Uint8Array(
+    (await getCrypto().subtle.decrypt(
+      { name: "AES-CTR", counter: siv, length: 64 },
+      keys.encKey,
+      u8.subarray(16)
+    )) as ArrayBuffer
+  );
+  const expected = await getSyntheticIV(keys, plain);
+  if (expected.some((b, i) => siv[i] !== b)) {
+    return undefined;
+  }
+  return decoder.decode(plain);
+}
+
+// Lower case only, for case-insensitive FileSystems.
+const BASE32 = "abcdefghijklmnopqrstuvwxyz234567";
+
+function toBase32(u8: Uint8Array) {
+  let result = "";
+  let bits = 0;
+  let value = 0;
+  for (const b of u8) {
+    value = ((value << 8) | b) & 0xffff;
+    bits += 8;
+    while (5 <= bits) {
+      bits -= 5;
+      result += BASE32[(value >> bits) & 31] as string;
+    }
+  }
+  if (0 < bits) {
+    result += BASE32[(value << (5 - bits)) & 31] as string;
+  }
+  return result;
+}
+
+function fromBase32(text: string) {
+  const u8 = new Uint8Array(Math.floor((text.length * 5) / 8));
+  let bits = 0;
+  let value = 0;
+  let pos = 0;
+  for (const c of text) {
+    const n = BASE32.indexOf(c);
+    if (n < 0) {
+      return undefined;
+    }
+    value = ((value << 5) | n) & 0xffff;
+    bits += 5;
+    if (8 <= bits) {
+      bits -= 8;
+      u8[pos++] = (value >> bits) & 0xff;
+    }
+  }
+  return u8;
+}
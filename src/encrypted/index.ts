@@ -0,0 +1,4 @@
+export * from "./cipher";
+export * from "./EncryptedDirectory";
+export * from "./EncryptedFile";
+export * from "./EncryptedFileSystem";
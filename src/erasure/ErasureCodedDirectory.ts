@@ -0,0 +1,28 @@
+import { AbstractDirectory } from "../AbstractDirectory";
+import { Item, NotExistAction } from "../core";
+import { ErasureCodedFileSystem } from "./ErasureCodedFileSystem";
+
+export class ErasureCodedDirectory extends AbstractDirectory {
+  constructor(private readonly ecfs: ErasureCodedFileSystem, path: string) {
+    super(ecfs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    const path = this.path;
+    await this.ecfs._all((backend) =>
+      backend.delete(path, {
+        onNotExist: NotExistAction.Error,
+        recursive: false,
+      })
+    );
+  }
+
+  public _doList(): Promise<Item[]> {
+    return this.ecfs._list(this.path);
+  }
+
+  public async _doMkcol(): Promise<void> {
+    const path = this.path;
+    await this.ecfs._all((backend) => backend.mkcol(path));
+  }
+}
@@ -0,0 +1,62 @@
+import { Data } from "univ-conv";
+import { AbstractFile } from "../AbstractFile";
+import { NotExistAction, ReadOptions, Stats, WriteOptions } from "../core";
+import { isNotFoundError } from "../errors";
+import { ErasureCodedFileSystem } from "./ErasureCodedFileSystem";
+
+export class ErasureCodedFile extends AbstractFile {
+  constructor(private readonly ecfs: ErasureCodedFileSystem, path: string) {
+    super(ecfs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    const path = this.path;
+    await this.ecfs._all(async (backend) => {
+      // Lost shards are deleted already.
+      try {
+        await backend.delete(path, {
+          onNotExist: NotExistAction.Error,
+          recursive: false,
+        });
+      } catch (e) {
+        if (!isNotFoundError(e)) {
+          throw e;
+        }
+      }
+    });
+  }
+
+  public _doRead(stats: Stats, options: ReadOptions): Promise<Data> {
+    return this.ecfs._read(
+      this.path,
+      stats.size as number,
+      options.start,
+      options.length
+    );
+  }
+
+  public async _doWrite(
+    data: Data,
+    _stats: Stats | undefined | null,
+    options: WriteOptions
+  ): Promise<void> {
+    const converter = this._getConverter();
+    const u8 = await converter.toUint8Array(data, {
+      ...options,
+      start: undefined,
+    });
+    await this.ecfs._store(this.path, u8);
+  }
+
+  public supportAppend(): boolean {
+    return false;
+  }
+
+  public supportRangeRead(): boolean {
+    return true;
+  }
+
+  public supportRangeWrite(): boolean {
+    return false;
+  }
+}
@@ -0,0 +1,424 @@
+import { DEFAULT_CONVERTER, EMPTY_UINT8_ARRAY } from "univ-conv";
+import { AbstractFileSystem } from "../AbstractFileSystem";
+import {
+  Directory,
+  ExistsAction,
+  File,
+  FileSystem,
+  FileSystemOptions,
+  HeadOptions,
+  Item,
+  NoParentAction,
+  NotExistAction,
+  PatchOptions,
+  Stats,
+  URLOptions,
+} from "../core";
+import {
+  createError,
+  DataError,
+  NotReadableError,
+  NotSupportedError,
+} from "../errors";
+import { ErasureCodedDirectory } from "./ErasureCodedDirectory";
+import { ErasureCodedFile } from "./ErasureCodedFile";
+import {
+  createMatrix,
+  encodeParity,
+  MAX_SHARDS,
+  reconstructShards,
+} from "./reedSolomon";
+
+/** The prop of a shard which has the size of the file */
+export const ERASURE_SIZE_PROP = "erasure-size";
+
+export interface ErasureCodedFileSystemOptions extends FileSystemOptions {
+  /** The number of the backends which have parity shards, 1 by default */
+  parityShards?: number;
+  /**
+   * The bytes of a file in a shard of a stripe, 64 KiB by default.
+   * Files must be read with the shard size they were written with.
+   */
+  shardSize?: number;
+}
+
+/**
+ * Splits each file into stripes of `dataShards` shards,
+ * and stores the shards and the Reed-Solomon parity shards
+ * at the same path on the backends, one shard per backend.
+ * Files are readable while `parityShards` backends are lost,
+ * but modifications need all of them, and repair() rebuilds the lost shards.
+ */
+export class ErasureCodedFileSystem extends AbstractFileSystem {
+  public readonly dataShards: number;
+  public readonly parityShards: number;
+  public readonly shardSize: number;
+
+  private readonly matrix: Uint8Array[];
+
+  constructor(
+    public readonly backends: FileSystem[],
+    options?: ErasureCodedFileSystemOptions
+  ) {
+    super((backends[0] as FileSystem).repository, options);
+    this.parityShards = options?.parityShards ?? 1;
+    this.dataShards = backends.length - this.parityShards;
+    this.shardSize = options?.shardSize ?? 64 * 1024;
+    if (
+      this.parityShards < 0 ||
+      this.dataShards < 1 ||
+      MAX_SHARDS < backends.length
+    ) {
+      throw new RangeError(
+        `${this.parityShards} parity shards of ${backends.length} backends`
+      );
+    }
+    this.matrix = createMatrix(this.dataShards, backends.length);
+  }
+
+  /**
+   * Runs on all the backends at once, fails if any of them fails.
+   */
+  public async _all(
+    fn: (backend: FileSystem) => Promise<unknown>
+  ): Promise<void> {
+    await Promise.all(this.backends.map(fn));
+  }
+
+  /**
+   * Runs on the backends in order until it succeeds on one of them.
+   */
+  public async _any<T>(fn: (backend: FileSystem) => Promise<T>): Promise<T> {
+    let error: unknown;
+    for (const backend of this.backends) {
+      try {
+        return await fn(backend);
+      } catch (e) {
+        error = error ?? e;
+      }
+    }
+    throw error;
+  }
+
+  public _doGetDirectory(path: string): Directory {
+    return new ErasureCodedDirectory(this, path);
+  }
+
+  public _doGetFile(path: string): File {
+    return new ErasureCodedFile(this, path);
+  }
+
+  public async _doGetURL(
+    path: string,
+    isDirectory: boolean,
+    options: URLOptions
+  ): Promise<string> {
+    if (isDirectory || options.method !== "GET") {
+      throw createError({
+        name: NotSupportedError.name,
+        repository: this.repository,
+        path,
+        message: isDirectory
+          ? `"${path}" is a directory`
+          : `"${options.method as string}" is not supported`,
+      });
+    }
+
+    const stats = await this.head(path);
+    const u8 = await this._read(path, stats.size as number);
+    return DEFAULT_CONVERTER.toURL(u8, { dstURLType: "data" });
+  }
+
+  public async _doHead(path: string, options: HeadOptions): Promise<Stats> {
+    const stats = await this._any((backend) => backend.head(path, options));
+    if (stats.size == null) {
+      return stats;
+    }
+    // Some FileSystems keep custom props as strings.
+    const size = Number(stats[ERASURE_SIZE_PROP]);
+    if (!(0 <= size)) {
+      throw createError({
+        name: DataError.name,
+        repository: this.repository,
+        path,
+        message: `"${path}" is not an erasure coded file`,
+      });
+    }
+    return { ...stats, size };
+  }
+
+  public async _doPatch(
+    path: string,
+    _stats: Stats,
+    props: Stats,
+    options: PatchOptions
+  ): Promise<void> {
+    props = { ...props };
+    delete props[ERASURE_SIZE_PROP];
+    await this._all((backend) => backend.patch(path, props, options));
+  }
+
+  public _getShardLength(size: number): number {
+    const stripeSize = this.dataShards * this.shardSize;
+    return Math.ceil(size / stripeSize) * this.shardSize;
+  }
+
+  public async _list(path: string): Promise<Item[]> {
+    const paths = await this._any((backend) => backend.list(path));
+    return paths.map((p) => ({ path: p }));
+  }
+
+  /**
+   * Reads only the stripes which the range touches,
+   * and only the data shards of them unless some are lost.
+   */
+  public async _read(
+    path: string,
+    size: number,
+    start = 0,
+    length?: number
+  ): Promise<Uint8Array> {
+    const end = length == null ? size : Math.min(start + length, size);
+    if (end <= start) {
+      return EMPTY_UINT8_ARRAY;
+    }
+
+    const dataShards = this.dataShards;
+    const shardSize = this.shardSize;
+    const stripeSize = dataShards * shardSize;
+    const firstStripe = Math.floor(start / stripeSize);
+    const lastStripe = Math.floor((end - 1) / stripeSize);
+    const needed: number[] = [];
+    if (firstStripe === lastStripe) {
+      const first = Math.floor((start % stripeSize) / shardSize);
+      const last = Math.floor(((end - 1) % stripeSize) / shardSize);
+      for (let i = first; i <= last; i++) {
+        needed.push(i);
+      }
+    } else {
+      for (let i = 0; i < dataShards; i++) {
+        needed.push(i);
+      }
+    }
+
+    const shards = await this._readShards(
+      path,
+      needed,
+      firstStripe * shardSize,
+      (lastStripe - firstStripe + 1) * shardSize
+    );
+    const u8 = new Uint8Array(end - start);
+    for (let s = firstStripe; s <= lastStripe; s++) {
+      for (const i of needed) {
+        const from = s * stripeSize + i * shardSize;
+        const lo = Math.max(start, from);
+        const hi = Math.min(end, from + shardSize);
+        if (hi <= lo) {
+          continue;
+        }
+        const offset = (s - firstStripe) * shardSize + lo - from;
+        const shard = shards[i] as Uint8Array;
+        u8.set(shard.subarray(offset, offset + hi - lo), lo - start);
+      }
+    }
+    return u8;
+  }
+
+  /**
+   * Reads the range of a shard, or returns undefined if it is lost.
+   */
+  public async _readShard(
+    index: number,
+    path: string,
+    start: number,
+    length: number
+  ): Promise<Uint8Array | undefined> {
+    const backend = this.backends[index] as FileSystem;
+    try {
+      const u8 = await backend.read(path, "uint8array", { start, length });
+      return u8.byteLength === length ? u8 : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  public async _readShards(
+    path: string,
+    needed: number[],
+    start: number,
+    length: number
+  ): Promise<Uint8Array[]> {
+    const shards: (Uint8Array | undefined)[] = this.backends.map(
+      () => undefined
+    );
+    const read = async (i: number) => {
+      shards[i] = await this._readShard(i, path, start, length);
+    };
+    await Promise.all(needed.map(read));
+    if (needed.every((i) => shards[i])) {
+      return shards as Uint8Array[];
+    }
+
+    // Reads the others to reconstruct the lost ones.
+    await Promise.all(
+      shards.map((_shard, i) => (needed.includes(i) ? undefined : read(i)))
+    );
+    return this._reconstruct(path, shards);
+  }
+
+  public _reconstruct(
+    path: string,
+    shards: (Uint8Array | undefined)[]
+  ): Uint8Array[] {
+    try {
+      return reconstructShards(this.matrix, shards);
+    } catch (e) {
+      throw createError({
+        name: NotReadableError.name,
+        repository: this.repository,
+        path,
+        message: (e as Error).message,
+        e,
+      });
+    }
+  }
+
+  public async _store(path: string, u8: Uint8Array): Promise<void> {
+    const shardSize = this.shardSize;
+    const stripeSize = this.dataShards * shardSize;
+    const shardLength = this._getShardLength(u8.byteLength);
+    const dataShards: Uint8Array[] = [];
+    for (let i = 0; i < this.dataShards; i++) {
+      const shard = new Uint8Array(shardLength);
+      for (let offset = 0; offset < shardLength; offset += shardSize) {
+        const from = (offset / shardSize) * stripeSize + i * shardSize;
+        shard.set(u8.subarray(from, from + shardSize), offset);
+      }
+      dataShards.push(shard);
+    }
+
+    const shards =
+      shardLength === 0
+        ? this.backends.map(() => EMPTY_UINT8_ARRAY)
+        : [...dataShards, ...encodeParity(this.matrix, dataShards)];
+    const props = { [ERASURE_SIZE_PROP]: u8.byteLength };
+    await Promise.all(
+      shards.map((shard, i) => this._writeShard(i, path, shard, props))
+    );
+  }
+
+  public async _writeShard(
+    index: number,
+    path: string,
+    shard: Uint8Array,
+    props: Stats
+  ): Promise<void> {
+    const backend = this.backends[index] as FileSystem;
+    await backend.write(path, shard);
+    try {
+      // The current times, otherwise patch() complains of them.
+      const { accessed, created, modified } = await backend.head(path);
+      await backend.patch(path, {
+        ...(accessed != null && { accessed }),
+        ...(created != null && { created }),
+        ...(modified != null && { modified }),
+        ...props,
+      });
+    } catch (e) {
+      // Without the props, the shard could not be decoded.
+      await backend
+        .delete(path, { onNotExist: NotExistAction.Error, recursive: false })
+        .catch(() => undefined);
+      throw e;
+    }
+  }
+
+  public canPatchAccessed(): boolean {
+    return true;
+  }
+
+  public canPatchCreated(): boolean {
+    return true;
+  }
+
+  public canPatchModified(): boolean {
+    return true;
+  }
+
+  /**
+   * Rebuilds the lost shards of the files under the path from the others,
+   * and the lost directories. Returns the number of the rebuilt shards.
+   */
+  public async repair(path = "/"): Promise<number> {
+    path = this._checkPath(path);
+    const stats = await this.head(path);
+    if (stats.size != null) {
+      return this._repairFile(path, stats);
+    }
+
+    if (this.supportDirectory()) {
+      await this._all((backend) =>
+        backend.mkcol(path, {
+          onExists: ExistsAction.Skip,
+          onNoParent: NoParentAction.MakeParents,
+        })
+      );
+    }
+    const children = new Set<string>();
+    for (const backend of this.backends) {
+      try {
+        for (const child of await backend.list(path)) {
+          children.add(child);
+        }
+      } catch {
+        // Lost, filled by the others.
+      }
+    }
+    let repaired = 0;
+    for (const child of children) {
+      repaired += await this.repair(child);
+    }
+    return repaired;
+  }
+
+  public supportDirectory(): boolean {
+    return this.backends.every((backend) => backend.supportDirectory());
+  }
+
+  private async _repairFile(path: string, stats: Stats) {
+    const size = stats.size as number;
+    const shardLength = this._getShardLength(size);
+    const shards = await Promise.all(
+      this.backends.map(async (backend, i) => {
+        try {
+          const shardStats = await backend.head(path);
+          if (
+            shardStats.size !== shardLength ||
+            Number(shardStats[ERASURE_SIZE_PROP]) !== size
+          ) {
+            return undefined;
+          }
+        } catch {
+          return undefined;
+        }
+        return this._readShard(i, path, 0, shardLength);
+      })
+    );
+    const lost = shards.flatMap((shard, i) => (shard ? [] : [i]));
+    if (lost.length === 0) {
+      return 0;
+    }
+
+    const repaired =
+      shardLength === 0
+        ? shards.map(() => EMPTY_UINT8_ARRAY)
+        : this._reconstruct(path, shards);
+    const props: Stats = { ...stats, [ERASURE_SIZE_PROP]: size };
+    delete props.size;
+    delete props.etag;
+    for (const i of lost) {
+      await this._writeShard(i, path, repaired[i] as Uint8Array, props);
+    }
+    return lost.length;
+  }
+}
@@ -0,0 +1,4 @@
+export * from "./reedSolomon";
+export * from "./ErasureCodedDirectory";
+export * from "./ErasureCodedFile";
+export * from "./ErasureCodedFileSystem";
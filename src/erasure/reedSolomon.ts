@@ -0,0 +1,188 @@
+/*
+ * Reed-Solomon erasure coding over GF(2^8) with the polynomial 0x11d.
+ * The encoding matrix is a Vandermonde matrix made systematic,
+ * so the first rows give the data shards as they are,
+ * and any `dataShards` rows of it are invertible.
+ */
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+for (let i = 0, x = 1; i < 255; i++) {
+  EXP[i] = x;
+  LOG[x] = i;
+  x <<= 1;
+  if (x & 0x100) {
+    x ^= 0x11d;
+  }
+}
+for (let i = 255; i < 510; i++) {
+  EXP[i] = EXP[i - 255] as number;
+}
+
+export const MAX_SHARDS = 256;
+
+function mul(a: number, b: number) {
+  if (a === 0 || b === 0) {
+    return 0;
+  }
+  return EXP[(LOG[a] as number) + (LOG[b] as number)] as number;
+}
+
+function div(a: number, b: number) {
+  if (a === 0) {
+    return 0;
+  }
+  return EXP[(LOG[a] as number) + 255 - (LOG[b] as number)] as number;
+}
+
+function pow(a: number, n: number) {
+  if (n === 0) {
+    return 1;
+  }
+  if (a === 0) {
+    return 0;
+  }
+  return EXP[((LOG[a] as number) * n) % 255] as number;
+}
+
+function multiply(a: Uint8Array[], b: Uint8Array[]) {
+  const size = (b[0] as Uint8Array).length;
+  return a.map((row) => {
+    const result = new Uint8Array(size);
+    for (let c = 0; c < size; c++) {
+      let value = 0;
+      for (let i = 0; i < row.length; i++) {
+        value ^= mul(row[i] as number, (b[i] as Uint8Array)[c] as number);
+      }
+      result[c] = value;
+    }
+    return result;
+  });
+}
+
+/**
+ * Inverts a square matrix by Gauss-Jordan elimination.
+ */
+function invert(matrix: Uint8Array[]) {
+  const size = matrix.length;
+  const work = matrix.map((row, r) => {
+    const extended = new Uint8Array(size * 2);
+    extended.set(row);
+    extended[size + r] = 1;
+    return extended;
+  });
+  for (let c = 0; c < size; c++) {
+    const pivot = work.findIndex((row, r) => c <= r && row[c] !== 0);
+    if (pivot < 0) {
+      throw new Error("Singular matrix");
+    }
+    [work[c], work[pivot]] = [work[pivot] as Uint8Array, work[c] as Uint8Array];
+    const row = work[c] as Uint8Array;
+    const scale = row[c] as number;
+    for (let i = 0; i < row.length; i++) {
+      row[i] = div(row[i] as number, scale);
+    }
+    for (let r = 0; r < size; r++) {
+      const other = work[r] as Uint8Array;
+      const factor = other[c] as number;
+      if (r === c || factor === 0) {
+        continue;
+      }
+      for (let i = 0; i < other.length; i++) {
+        other[i] ^= mul(factor, row[i] as number);
+      }
+    }
+  }
+  return work.map((row) => row.slice(size));
+}
+
+/**
+ * Adds the product of the coefficients and the shards to the output.
+ */
+function combine(
+  coefficients: Uint8Array,
+  shards: Uint8Array[],
+  output: Uint8Array
+) {
+  for (let i = 0; i < shards.length; i++) {
+    const c = coefficients[i] as number;
+    if (c === 0) {
+      continue;
+    }
+    const logC = LOG[c] as number;
+    const shard = shards[i] as Uint8Array;
+    for (let b = 0; b < output.length; b++) {
+      const d = shard[b] as number;
+      if (d !== 0) {
+        output[b] ^= EXP[logC + (LOG[d] as number)] as number;
+      }
+    }
+  }
+}
+
+export function createMatrix(
+  dataShards: number,
+  totalShards: number
+): Uint8Array[] {
+  const vandermonde: Uint8Array[] = [];
+  for (let r = 0; r < totalShards; r++) {
+    const row = new Uint8Array(dataShards);
+    for (let c = 0; c < dataShards; c++) {
+      row[c] = pow(r, c);
+    }
+    vandermonde.push(row);
+  }
+  return multiply(vandermonde, invert(vandermonde.slice(0, dataShards)));
+}
+
+/**
+ * Computes the parity shards of the data shards, which have the same length.
+ */
+export function encodeParity(
+  matrix: Uint8Array[],
+  dataShards: Uint8Array[]
+): Uint8Array[] {
+  const length = (dataShards[0] as Uint8Array).byteLength;
+  return matrix.slice(dataShards.length).map((row) => {
+    const parity = new Uint8Array(length);
+    combine(row, dataShards, parity);
+    return parity;
+  });
+}
+
+/**
+ * Fills the missing shards from any `dataShards` of the others.
+ */
+export function reconstructShards(
+  matrix: Uint8Array[],
+  shards: (Uint8Array | undefined)[]
+): Uint8Array[] {
+  const dataShards = (matrix[0] as Uint8Array).length;
+  const indices: number[] = [];
+  for (let i = 0; i < shards.length && indices.length < dataShards; i++) {
+    if (shards[i]) {
+      indices.push(i);
+    }
+  }
+  if (indices.length < dataShards) {
+    throw new Error(
+      `${dataShards} shards are required, but only ${indices.length} exist`
+    );
+  }
+
+  const present = indices.map((i) => shards[i] as Uint8Array);
+  const length = (present[0] as Uint8Array).byteLength;
+  const decoding = invert(indices.map((i) => matrix[i] as Uint8Array));
+  const data: Uint8Array[] = [];
+  for (let i = 0; i < dataShards; i++) {
+    let shard = shards[i];
+    if (!shard) {
+      shard = new Uint8Array(length);
+      combine(decoding[i] as Uint8Array, present, shard);
+    }
+    data.push(shard);
+  }
+  const parity = encodeParity(matrix, data);
+  return shards.map(
+    (shard, i) => shard ?? (i < dataShards ? data[i] : parity[i - dataShards])
+  ) as Uint8Array[];
+}
@@ -0,0 +1,21 @@
+import { AbstractDirectory } from "../AbstractDirectory";
+import { Item } from "../core";
+import { GitFileSystem } from "./GitFileSystem";
+
+export class GitDirectory extends AbstractDirectory {
+  constructor(private readonly gfs: GitFileSystem, path: string) {
+    super(gfs, path);
+  }
+
+  public _doDelete(): Promise<void> {
+    return Promise.reject(this.gfs._createReadOnlyError(this.path));
+  }
+
+  public _doList(): Promise<Item[]> {
+    return this.gfs._listEntries(this.path);
+  }
+
+  public _doMkcol(): Promise<void> {
+    return Promise.reject(this.gfs._createReadOnlyError(this.path));
+  }
+}
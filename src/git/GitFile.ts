@@ -0,0 +1,37 @@
+import { Data } from "univ-conv";
+import { AbstractFile } from "../AbstractFile";
+import { ReadOptions, Stats } from "../core";
+import { GitFileSystem } from "./GitFileSystem";
+
+export class GitFile extends AbstractFile {
+  constructor(private readonly gfs: GitFileSystem, path: string) {
+    super(gfs, path);
+  }
+
+  public _doDelete(): Promise<void> {
+    return Promise.reject(this.gfs._createReadOnlyError(this.path));
+  }
+
+  public async _doRead(_stats: Stats, options: ReadOptions): Promise<Data> {
+    const u8 = await this.gfs._readBlob(this.path);
+    const start = options.start ?? 0;
+    const end = options.length == null ? undefined : start + options.length;
+    return u8.subarray(start, end);
+  }
+
+  public _doWrite(): Promise<void> {
+    return Promise.reject(this.gfs._createReadOnlyError(this.path));
+  }
+
+  public supportAppend(): boolean {
+    return false;
+  }
+
+  public supportRangeRead(): boolean {
+    return true;
+  }
+
+  public supportRangeWrite(): boolean {
+    return false;
+  }
+}
@@ -0,0 +1,433 @@
+import { DEFAULT_CONVERTER } from "univ-conv";
+import { AbstractFileSystem } from "../AbstractFileSystem";
+import {
+  Directory,
+  EntryType,
+  File,
+  FileSystem,
+  FileSystemOptions,
+  Item,
+  Stats,
+  URLOptions,
+} from "../core";
+import {
+  createError,
+  DataError,
+  FileSystemError,
+  isFileSystemError,
+  isNotFoundError,
+  NoModificationAllowedError,
+  NotFoundError,
+  NotSupportedError,
+} from "../errors";
+import { getPathParts, joinPaths } from "../util";
+import {
+  applyDelta,
+  GIT_MODE_DIRECTORY,
+  GIT_MODE_SUBMODULE,
+  GitCommit,
+  GitObject,
+  GitObjectType,
+  GitPackIndex,
+  GitPackType,
+  GitTreeEntry,
+  inflatePacked,
+  isSha,
+  parseCommit,
+  parseLooseObject,
+  parsePackHeader,
+  parsePackIndex,
+  parseTag,
+  parseTree,
+  searchPackIndex,
+  toObjectType,
+} from "./git";
+import { GitDirectory } from "./GitDirectory";
+import { GitFile } from "./GitFile";
+
+export interface GitSource {
+  fs: FileSystem;
+  /** The path of the ".git" directory, or of a bare repository */
+  path: string;
+}
+
+export interface GitFileSystemOptions extends FileSystemOptions {
+  /** A commit SHA, a branch, a tag or "HEAD" (the default) */
+  ref?: string;
+}
+
+interface GitPack {
+  /** The end offset of each object, for range reads */
+  ends: Map<number, number>;
+  index: GitPackIndex;
+  path: string;
+}
+
+export class GitFileSystem extends AbstractFileSystem {
+  public readonly ref: string;
+
+  private commit?: GitCommit;
+  private loading?: Promise<void>;
+  private packs?: Promise<GitPack[]>;
+  private readonly sizes = new Map<string, number>();
+  private readonly trees = new Map<string, GitTreeEntry[]>();
+
+  constructor(
+    repository: string,
+    private readonly source: GitSource,
+    options?: GitFileSystemOptions
+  ) {
+    super(repository, options);
+    this.ref = options?.ref ?? "HEAD";
+  }
+
+  public _createReadOnlyError(path: string): FileSystemError {
+    return createError({
+      name: NoModificationAllowedError.name,
+      repository: this.repository,
+      path,
+      message: `"${this.repository}" is read-only`,
+    });
+  }
+
+  public _doGetDirectory(path: string): Directory {
+    return new GitDirectory(this, path);
+  }
+
+  public _doGetFile(path: string): File {
+    return new GitFile(this, path);
+  }
+
+  public async _doGetURL(
+    path: string,
+    isDirectory: boolean,
+    options: URLOptions
+  ): Promise<string> {
+    if (isDirectory || options.method !== "GET") {
+      throw createError({
+        name: NotSupportedError.name,
+        repository: this.repository,
+        path,
+        message: isDirectory
+          ? `"${path}" is a directory`
+          : `"${options.method as string}" is not supported`,
+      });
+    }
+
+    const u8 = await this._readBlob(path);
+    return DEFAULT_CONVERTER.toURL(u8, { dstURLType: "data" });
+  }
+
+  public async _doHead(path: string): Promise<Stats> {
+    const entry = await this._getEntry(path);
+    return this._toStats(path, entry);
+  }
+
+  public _doPatch(path: string): Promise<void> {
+    return Promise.reject(this._createReadOnlyError(path));
+  }
+
+  public async _listEntries(path: string): Promise<Item[]> {
+    const entry = await this._getEntry(path);
+    const tree = await this._getTree(path, entry);
+    const commit = this.commit as GitCommit;
+    return tree
+      .filter((child) => child.mode !== GIT_MODE_SUBMODULE)
+      .map((child) => {
+        const isDirectory = child.mode === GIT_MODE_DIRECTORY;
+        return {
+          path: joinPaths(path, child.name),
+          type: isDirectory ? EntryType.Directory : EntryType.File,
+          modified: commit.committed,
+          etag: child.sha,
+        };
+      });
+  }
+
+  public async _readBlob(path: string): Promise<Uint8Array> {
+    const entry = await this._getEntry(path);
+    const obj = await this._readObject(path, entry.sha);
+    this.sizes.set(entry.sha, obj.data.byteLength);
+    return obj.data;
+  }
+
+  public canPatchAccessed(): boolean {
+    return false;
+  }
+
+  public canPatchCreated(): boolean {
+    return false;
+  }
+
+  public canPatchModified(): boolean {
+    return false;
+  }
+
+  public supportDirectory(): boolean {
+    return true;
+  }
+
+  private _createDataError(path: string, e: unknown) {
+    if (isFileSystemError(e)) {
+      return e;
+    }
+    return createError({
+      name: DataError.name,
+      repository: this.repository,
+      path,
+      message: (e as Error).message,
+      e,
+    });
+  }
+
+  private _createNotFoundError(path: string, message?: string) {
+    return createError({
+      name: NotFoundError.name,
+      repository: this.repository,
+      path,
+      message,
+    });
+  }
+
+  private async _doLoad() {
+    let sha = await this._resolveRef(this.ref);
+    if (!sha) {
+      throw this._createNotFoundError("/", `"${this.ref}" is not found`);
+    }
+    // Peels annotated tags.
+    let obj = await this._readObject("/", sha);
+    while (obj.type === GitObjectType.Tag) {
+      sha = parseTag(obj.data);
+      obj = await this._readObject("/", sha);
+    }
+    if (obj.type !== GitObjectType.Commit) {
+      throw this._createDataError(
+        "/",
+        new Error(`"${this.ref}" is not a commit`)
+      );
+    }
+    this.commit = parseCommit(obj.data);
+  }
+
+  private async _getEntry(path: string): Promise<GitTreeEntry> {
+    await this._load();
+    let entry: GitTreeEntry = {
+      mode: GIT_MODE_DIRECTORY,
+      name: "",
+      sha: (this.commit as GitCommit).tree,
+    };
+    for (const name of getPathParts(path)) {
+      if (entry.mode !== GIT_MODE_DIRECTORY) {
+        throw this._createNotFoundError(path);
+      }
+      const tree = await this._getTree(path, entry);
+      const child = tree.find((e) => e.name === name);
+      if (!child || child.mode === GIT_MODE_SUBMODULE) {
+        throw this._createNotFoundError(path);
+      }
+      entry = child;
+    }
+    return entry;
+  }
+
+  private async _getPacks(): Promise<GitPack[]> {
+    const { fs, path } = this.source;
+    const packDir = joinPaths(path, "objects/pack");
+    let paths: string[];
+    try {
+      paths = await fs.list(packDir);
+    } catch (e) {
+      if (isNotFoundError(e)) {
+        return [];
+      }
+      throw e;
+    }
+
+    const packs: GitPack[] = [];
+    for (const indexPath of paths.filter((p) => p.endsWith(".idx"))) {
+      const packPath = indexPath.replace(/\.idx$/, ".pack");
+      const index = parsePackIndex(await fs.read(indexPath, "uint8array"));
+      const packStats = await fs.head(packPath);
+      // Each object ends where the next one begins, the last one at the trailing checksum.
+      const sorted = [...index.offsets].sort((a, b) => a - b);
+      const ends = new Map<number, number>();
+      for (let i = 0; i < sorted.length; i++) {
+        ends.set(
+          sorted[i] as number,
+          sorted[i + 1] ?? (packStats.size as number) - 20
+        );
+      }
+      packs.push({ ends, index, path: packPath });
+    }
+    return packs;
+  }
+
+  private async _getTree(
+    path: string,
+    entry: GitTreeEntry
+  ): Promise<GitTreeEntry[]> {
+    let tree = this.trees.get(entry.sha);
+    if (!tree) {
+      const obj = await this._readObject(path, entry.sha);
+      if (obj.type !== GitObjectType.Tree) {
+        throw this._createDataError(
+          path,
+          new Error(`${entry.sha} is not a tree`)
+        );
+      }
+      try {
+        tree = parseTree(obj.data);
+      } catch (e) {
+        throw this._createDataError(path, e);
+      }
+      this.trees.set(entry.sha, tree);
+    }
+    return tree;
+  }
+
+  private _load() {
+    if (!this.loading) {
+      // Loads again next time if it fails.
+      this.loading = this._doLoad().catch((e) => {
+        this.loading = undefined;
+        throw e;
+      });
+    }
+    return this.loading;
+  }
+
+  private async _readLoose(sha: string): Promise<GitObject | undefined> {
+    const { fs, path } = this.source;
+    let u8: Uint8Array;
+    try {
+      u8 = await fs.read(
+        joinPaths(path, `objects/${sha.substring(0, 2)}/${sha.substring(2)}`),
+        "uint8array"
+      );
+    } catch (e) {
+      if (isNotFoundError(e)) {
+        return undefined;
+      }
+      throw e;
+    }
+    return parseLooseObject(u8);
+  }
+
+  private async _readObject(path: string, sha: string): Promise<GitObject> {
+    try {
+      const loose = await this._readLoose(sha);
+      if (loose) {
+        return loose;
+      }
+
+      if (!this.packs) {
+        this.packs = this._getPacks();
+      }
+      for (const pack of await this.packs) {
+        const offset = searchPackIndex(pack.index, sha);
+        if (offset != null) {
+          return await this._readPacked(path, pack, offset);
+        }
+      }
+    } catch (e) {
+      throw this._createDataError(path, e);
+    }
+    throw this._createNotFoundError(path, `Object ${sha} is not found`);
+  }
+
+  private async _readPacked(
+    path: string,
+    pack: GitPack,
+    offset: number
+  ): Promise<GitObject> {
+    const end = pack.ends.get(offset) as number;
+    const u8 = await this.source.fs.read(pack.path, "uint8array", {
+      start: offset,
+      length: end - offset,
+    });
+    const header = parsePackHeader(u8, offset);
+    const data = inflatePacked(u8.subarray(header.length), header.size);
+    if (header.type === GitPackType.OfsDelta) {
+      const base = await this._readPacked(
+        path,
+        pack,
+        header.baseOffset as number
+      );
+      return { type: base.type, data: applyDelta(base.data, data) };
+    }
+    if (header.type === GitPackType.RefDelta) {
+      const base = await this._readObject(path, header.baseSha as string);
+      return { type: base.type, data: applyDelta(base.data, data) };
+    }
+    return { type: toObjectType(header.type), data };
+  }
+
+  private async _readRef(ref: string): Promise<string | undefined> {
+    const { fs, path } = this.source;
+    try {
+      const text = await fs.read(joinPaths(path, ref), "text");
+      return text.trim();
+    } catch (e) {
+      if (isNotFoundError(e)) {
+        return undefined;
+      }
+      throw e;
+    }
+  }
+
+  private async _resolveRef(ref: string): Promise<string | undefined> {
+    if (isSha(ref)) {
+      return ref;
+    }
+
+    const candidates = [
+      ref,
+      `refs/${ref}`,
+      `refs/tags/${ref}`,
+      `refs/heads/${ref}`,
+      `refs/remotes/${ref}`,
+    ];
+    for (const candidate of candidates) {
+      const value = await this._readRef(candidate);
+      if (value == null) {
+        continue;
+      }
+      if (value.startsWith("ref: ")) {
+        return this._resolveRef(value.substring(5));
+      }
+      if (isSha(value)) {
+        return value;
+      }
+    }
+
+    const packedRefs = await this._readRef("packed-refs");
+    if (packedRefs == null) {
+      return undefined;
+    }
+    for (const line of packedRefs.split("\n")) {
+      const [sha, name] = line.split(" ");
+      if (name && candidates.includes(name) && isSha(sha as string)) {
+        return sha;
+      }
+    }
+    return undefined;
+  }
+
+  private async _toStats(path: string, entry: GitTreeEntry): Promise<Stats> {
+    const stats: Stats = {
+      modified: (this.commit as GitCommit).committed,
+      etag: entry.sha,
+    };
+    if (entry.mode === GIT_MODE_DIRECTORY) {
+      return stats;
+    }
+
+    let size = this.sizes.get(entry.sha);
+    if (size == null) {
+      size = (await this._readBlob(path)).byteLength;
+    }
+    stats.size = size;
+    stats["mode"] = parseInt(entry.mode, 8);
+    return stats;
+  }
+}
@@ -0,0 +1,297 @@
+import { inflateSync, unzlibSync } from "fflate";
+import { toHex } from "../util";
+
+export enum GitObjectType {
+  Commit = "commit",
+  Tree = "tree",
+  Blob = "blob",
+  Tag = "tag",
+}
+
+export interface GitObject {
+  data: Uint8Array;
+  type: GitObjectType;
+}
+
+export interface GitCommit {
+  /** The committer time in milliseconds */
+  committed: number;
+  parents: string[];
+  tree: string;
+}
+
+export interface GitTreeEntry {
+  mode: string;
+  name: string;
+  sha: string;
+}
+
+export interface GitPackIndex {
+  /** The offsets of the objects, in the order of `shas` */
+  offsets: number[];
+  /** The sorted object names */
+  shas: string[];
+}
+
+export enum GitPackType {
+  Commit = 1,
+  Tree = 2,
+  Blob = 3,
+  Tag = 4,
+  OfsDelta = 6,
+  RefDelta = 7,
+}
+
+export interface GitPackHeader {
+  /** The pack offset of the delta base, for OfsDelta */
+  baseOffset?: number;
+  /** The object name of the delta base, for RefDelta */
+  baseSha?: string;
+  /** The length of the header, after which the zlib stream begins */
+  length: number;
+  size: number;
+  type: GitPackType;
+}
+
+export const GIT_MODE_DIRECTORY = "40000";
+export const GIT_MODE_SUBMODULE = "160000";
+
+const PACK_TYPES: { [type: number]: GitObjectType } = {
+  [GitPackType.Commit]: GitObjectType.Commit,
+  [GitPackType.Tree]: GitObjectType.Tree,
+  [GitPackType.Blob]: GitObjectType.Blob,
+  [GitPackType.Tag]: GitObjectType.Tag,
+};
+
+const decoder = new TextDecoder();
+
+export function isSha(ref: string) {
+  return /^[0-9a-f]{40}$/.test(ref);
+}
+
+export function toObjectType(type: GitPackType): GitObjectType {
+  const objectType = PACK_TYPES[type];
+  if (!objectType) {
+    throw new Error(`Unexpected pack object type: ${type}`);
+  }
+  return objectType;
+}
+
+/**
+ * Parses a loose object, which is "<type> <size>\0<data>" compressed by zlib.
+ */
+export function parseLooseObject(compressed: Uint8Array): GitObject {
+  const u8 = unzlibSync(compressed);
+  const nul = u8.indexOf(0);
+  const [type, size] = decoder.decode(u8.subarray(0, nul)).split(" ");
+  const data = u8.subarray(nul + 1);
+  if (!type || data.byteLength !== parseInt(size as string, 10)) {
+    throw new Error("Broken loose object");
+  }
+  return { type: type as GitObjectType, data };
+}
+
+export function parseCommit(data: Uint8Array): GitCommit {
+  const commit: GitCommit = { committed: 0, parents: [], tree: "" };
+  for (const line of decoder.decode(data).split("\n")) {
+    if (!line) {
+      break; // The message follows
+    }
+    const space = line.indexOf(" ");
+    const key = line.substring(0, space);
+    const value = line.substring(space + 1);
+    if (key === "tree") {
+      commit.tree = value;
+    } else if (key === "parent") {
+      commit.parents.push(value);
+    } else if (key === "committer") {
+      const match = /(\d+) [+-]\d{4}$/.exec(value);
+      if (match) {
+        commit.committed = parseInt(match[1] as string, 10) * 1000;
+      }
+    }
+  }
+  if (!commit.tree) {
+    throw new Error("Commit has no tree");
+  }
+  return commit;
+}
+
+/**
+ * Returns the object name an annotated tag points to.
+ */
+export function parseTag(data: Uint8Array): string {
+  const match = /^object ([0-9a-f]{40})$/m.exec(decoder.decode(data));
+  if (!match) {
+    throw new Error("Tag has no object");
+  }
+  return match[1] as string;
+}
+
+export function parseTree(data: Uint8Array): GitTreeEntry[] {
+  const entries: GitTreeEntry[] = [];
+  let offset = 0;
+  while (offset < data.byteLength) {
+    const space = data.indexOf(0x20, offset);
+    const nul = data.indexOf(0, space);
+    if (space < 0 || nul < 0 || data.byteLength < nul + 21) {
+      throw new Error("Broken tree");
+    }
+    entries.push({
+      mode: decoder.decode(data.subarray(offset, space)),
+      name: decoder.decode(data.subarray(space + 1, nul)),
+      sha: toHex(data.subarray(nul + 1, nul + 21)),
+    });
+    offset = nul + 21;
+  }
+  return entries;
+}
+
+/**
+ * Parses a version 2 pack index.
+ */
+export function parsePackIndex(u8: Uint8Array): GitPackIndex {
+  const view = new DataView(u8.buffer, u8.byteOffset, u8.byteLength);
+  if (view.getUint32(0) !== 0xff744f63 || view.getUint32(4) !== 2) {
+    throw new Error("Unsupported pack index version");
+  }
+  const count = view.getUint32(8 + 255 * 4);
+  const shaStart = 8 + 256 * 4;
+  const offsetStart = shaStart + count * 20 + count * 4;
+  const largeStart = offsetStart + count * 4;
+
+  const shas: string[] = [];
+  const offsets: number[] = [];
+  for (let i = 0; i < count; i++) {
+    shas.push(toHex(u8.subarray(shaStart + i * 20, shaStart + (i + 1) * 20)));
+    const offset = view.getUint32(offsetStart + i * 4);
+    if (offset & 0x80000000) {
+      const large = largeStart + (offset & 0x7fffffff) * 8;
+      offsets.push(
+        view.getUint32(large) * 0x100000000 + view.getUint32(large + 4)
+      );
+    } else {
+      offsets.push(offset);
+    }
+  }
+  return { offsets, shas };
+}
+
+export function searchPackIndex(
+  index: GitPackIndex,
+  sha: string
+): number | undefined {
+  let low = 0;
+  let high = index.shas.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const value = index.shas[mid] as string;
+    if (value === sha) {
+      return index.offsets[mid];
+    }
+    if (value < sha) {
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parses the header of an object in a pack at `offset`.
+ * `u8` starts at the object.
+ */
+export function parsePackHeader(u8: Uint8Array, offset: number): GitPackHeader {
+  let pos = 0;
+  let c = u8[pos++] as number;
+  const type = (c >> 4) & 7;
+  let size = c & 15;
+  let shift = 4;
+  while (c & 0x80) {
+    c = u8[pos++] as number;
+    size += (c & 0x7f) * 2 ** shift;
+    shift += 7;
+  }
+
+  const header: GitPackHeader = { length: pos, size, type };
+  if (type === GitPackType.OfsDelta) {
+    c = u8[pos++] as number;
+    let distance = c & 0x7f;
+    while (c & 0x80) {
+      c = u8[pos++] as number;
+      distance = (distance + 1) * 128 + (c & 0x7f);
+    }
+    header.baseOffset = offset - distance;
+  } else if (type === GitPackType.RefDelta) {
+    header.baseSha = toHex(u8.subarray(pos, pos + 20));
+    pos += 20;
+  }
+  header.length = pos;
+  return header;
+}
+
+/**
+ * Inflates a zlib stream in a pack, which is followed by the next object.
+ */
+export function inflatePacked(u8: Uint8Array, size: number): Uint8Array {
+  // Skips the 2 bytes zlib header, the raw deflate stream ends by itself.
+  const data = inflateSync(u8.subarray(2), new Uint8Array(size));
+  if (data.byteLength !== size) {
+    throw new Error("Broken pack object");
+  }
+  return data;
+}
+
+export function applyDelta(base: Uint8Array, delta: Uint8Array): Uint8Array {
+  let pos = 0;
+  const readSize = () => {
+    let size = 0;
+    let shift = 0;
+    let c: number;
+    do {
+      c = delta[pos++] as number;
+      size += (c & 0x7f) * 2 ** shift;
+      shift += 7;
+    } while (c & 0x80);
+    return size;
+  };
+
+  if (readSize() !== base.byteLength) {
+    throw new Error("Delta base size mismatch");
+  }
+  const result = new Uint8Array(readSize());
+  let out = 0;
+  while (pos < delta.byteLength) {
+    const cmd = delta[pos++] as number;
+    if (cmd & 0x80) {
+      let copyOffset = 0;
+      for (let i = 0; i < 4; i++) {
+        if (cmd & (1 << i)) {
+          copyOffset += (delta[pos++] as number) * 2 ** (i * 8);
+        }
+      }
+      let copySize = 0;
+      for (let i = 0; i < 3; i++) {
+        if (cmd & (0x10 << i)) {
+          copySize += (delta[pos++] as number) << (i * 8);
+        }
+      }
+      if (copySize === 0) {
+        copySize = 0x10000;
+      }
+      result.set(base.subarray(copyOffset, copyOffset + copySize), out);
+      out += copySize;
+    } else if (cmd) {
+      result.set(delta.subarray(pos, pos + cmd), out);
+      pos += cmd;
+      out += cmd;
+    } else {
+      throw new Error("Unexpected delta opcode");
+    }
+  }
+  if (out !== result.byteLength) {
+    throw new Error("Delta result size mismatch");
+  }
+  return result;
+}
@@ -0,0 +1,4 @@
+export * from "./git";
+export * from "./GitDirectory";
+export * from "./GitFile";
+export * from "./GitFileSystem";
@@ -0,0 +1,36 @@
+import { AbstractDirectory } from "../AbstractDirectory";
+import { Item, MkcolOptions } from "../core";
+import { FileSystemError } from "../errors";
+import { HttpFileSystem } from "./HttpFileSystem";
+
+export class HttpDirectory extends AbstractDirectory {
+  constructor(private readonly hfs: HttpFileSystem, path: string) {
+    super(hfs, path);
+  }
+
+  public _doDelete(): Promise<void> {
+    return Promise.reject(this.hfs._createReadOnlyError(this.path));
+  }
+
+  public async _doList(): Promise<Item[]> {
+    return this.hfs._listIndex(this.path);
+  }
+
+  public _doMkcol(): Promise<void> {
+    return Promise.reject(this.hfs._createReadOnlyError(this.path));
+  }
+
+  /**
+   * Rejects even when the directories are not supported without the index.
+   */
+  public override async mkcol(
+    _options?: MkcolOptions,
+    errors?: FileSystemError[]
+  ): Promise<boolean> {
+    await this.fs._handleFileSystemError(
+      this.hfs._createReadOnlyError(this.path),
+      errors
+    );
+    return false;
+  }
+}
@@ -0,0 +1,37 @@
+import { Data } from "univ-conv";
+import { AbstractFile } from "../AbstractFile";
+import { ReadOptions, Stats } from "../core";
+import { fetchRange } from "../util";
+import { HttpFileSystem } from "./HttpFileSystem";
+
+export class HttpFile extends AbstractFile {
+  constructor(private readonly hfs: HttpFileSystem, path: string) {
+    super(hfs, path);
+  }
+
+  public _doDelete(): Promise<void> {
+    return Promise.reject(this.hfs._createReadOnlyError(this.path));
+  }
+
+  public _doRead(_stats: Stats, options: ReadOptions): Promise<Data> {
+    return fetchRange(options, (headers) =>
+      this.hfs._fetch("GET", this.path, { headers })
+    );
+  }
+
+  public _doWrite(): Promise<void> {
+    return Promise.reject(this.hfs._createReadOnlyError(this.path));
+  }
+
+  public supportAppend(): boolean {
+    return false;
+  }
+
+  public supportRangeRead(): boolean {
+    return true;
+  }
+
+  public supportRangeWrite(): boolean {
+    return false;
+  }
+}
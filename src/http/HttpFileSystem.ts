@@ -0,0 +1,257 @@
+import { AbstractFileSystem } from "../AbstractFileSystem";
+import {
+  Directory,
+  EntryType,
+  File,
+  FileSystemOptions,
+  HeadOptions,
+  Item,
+  Stats,
+  URLOptions,
+} from "../core";
+import {
+  createError,
+  DataError,
+  FileSystemError,
+  NetworkError,
+  NoModificationAllowedError,
+  NotAllowedError,
+  NotFoundError,
+  NotReadableError,
+  NotSupportedError,
+  TimeoutError,
+} from "../errors";
+import { getFetch, getPathParts, joinPaths } from "../util";
+import { HttpDirectory } from "./HttpDirectory";
+import { HttpFile } from "./HttpFile";
+import { IndexEntry, parseHtmlIndex, parseJsonIndex } from "./listing";
+
+export type HttpIndexFormat = "html" | "json";
+
+export interface HttpFileSystemOptions extends FileSystemOptions {
+  headers?: { [name: string]: string };
+  /** The format of directory indexes. Directories cannot be listed without it. */
+  index?: HttpIndexFormat;
+  /** Appended to directory URLs to get the index, e.g. "index.json". */
+  indexFile?: string;
+}
+
+export interface HttpRequest {
+  headers?: { [name: string]: string };
+  isDirectory?: boolean;
+}
+
+export class HttpFileSystem extends AbstractFileSystem {
+  private readonly headers: { [name: string]: string };
+  private readonly index?: HttpIndexFormat;
+  private readonly indexFile: string;
+
+  constructor(baseURL: string, options?: HttpFileSystemOptions) {
+    super(baseURL.replace(/\/+$/, ""), options);
+    this.headers = { ...options?.headers };
+    this.index = options?.index;
+    this.indexFile = options?.indexFile ?? "";
+  }
+
+  public _createError(
+    path: string,
+    method: string,
+    status: number,
+    e?: unknown
+  ): FileSystemError {
+    let name: string;
+    switch (status) {
+      case 401:
+      case 403:
+        name = NotAllowedError.name;
+        break;
+      case 404:
+      case 410:
+        name = NotFoundError.name;
+        break;
+      case 408:
+      case 504:
+        name = TimeoutError.name;
+        break;
+      default:
+        name = e ? NetworkError.name : NotReadableError.name;
+    }
+    return createError({
+      name,
+      repository: this.repository,
+      path,
+      method,
+      status,
+      e,
+    });
+  }
+
+  public _createReadOnlyError(path: string): FileSystemError {
+    return createError({
+      name: NoModificationAllowedError.name,
+      repository: this.repository,
+      path,
+      message: `"${this.repository}" is read-only`,
+    });
+  }
+
+  public _doGetDirectory(path: string): Directory {
+    return new HttpDirectory(this, path);
+  }
+
+  public _doGetFile(path: string): File {
+    return new HttpFile(this, path);
+  }
+
+  public _doGetURL(
+    path: string,
+    isDirectory: boolean,
+    options: URLOptions
+  ): Promise<string> {
+    if (options.method !== "GET") {
+      return Promise.reject(
+        createError({
+          name: NotSupportedError.name,
+          repository: this.repository,
+          path,
+          message: `"${options.method as string}" is not supported`,
+        })
+      );
+    }
+    return Promise.resolve(this._getURL(path, isDirectory));
+  }
+
+  public async _doHead(path: string, options: HeadOptions): Promise<Stats> {
+    if (path === "/") {
+      return {};
+    }
+
+    const isDirectory = options.type === EntryType.Directory;
+    const response = await this._fetch("HEAD", path, { isDirectory });
+    // Static servers redirect "/dir" to "/dir/".
+    if (isDirectory || response.url.endsWith("/")) {
+      return {};
+    }
+
+    const stats: Stats = {};
+    const contentLength = response.headers.get("Content-Length");
+    if (contentLength != null) {
+      stats.size = parseInt(contentLength, 10);
+    } else {
+      stats.size = await this._getSize(path);
+    }
+    const lastModified = response.headers.get("Last-Modified");
+    if (lastModified) {
+      stats.modified = Date.parse(lastModified);
+    }
+    const etag = response.headers.get("ETag");
+    if (etag) {
+      stats.etag = etag.replace(/^W\//, "").replace(/"/g, "");
+    }
+    return stats;
+  }
+
+  public _doPatch(path: string): Promise<void> {
+    return Promise.reject(this._createReadOnlyError(path));
+  }
+
+  public async _fetch(
+    method: "GET" | "HEAD",
+    path: string,
+    request: HttpRequest = {}
+  ): Promise<Response> {
+    const url = this._getURL(path, request.isDirectory);
+    let response: Response;
+    try {
+      response = await getFetch()(url, {
+        method,
+        headers: { ...this.headers, ...request.headers },
+      });
+    } catch (e) {
+      throw this._createError(path, method, 0, e);
+    }
+    if (!response.ok) {
+      throw this._createError(path, method, response.status);
+    }
+    return response;
+  }
+
+  public _getURL(path: string, isDirectory?: boolean) {
+    const parts = getPathParts(path).map((part) => encodeURIComponent(part));
+    let url = this.repository + "/" + parts.join("/");
+    if (isDirectory && !url.endsWith("/")) {
+      url += "/";
+    }
+    return url;
+  }
+
+  public async _listIndex(path: string): Promise<Item[]> {
+    if (!this.index) {
+      throw createError({
+        name: NotSupportedError.name,
+        repository: this.repository,
+        path,
+        message: `No directory index is configured for "${this.repository}"`,
+      });
+    }
+
+    const dirURL = this._getURL(path, true);
+    const response = await this._fetch("GET", joinPaths(path, this.indexFile), {
+      isDirectory: !this.indexFile,
+    });
+    let entries: IndexEntry[];
+    try {
+      if (this.index === "json") {
+        entries = parseJsonIndex(await response.json());
+      } else {
+        entries = parseHtmlIndex(await response.text(), dirURL);
+      }
+    } catch (e) {
+      throw createError({
+        name: DataError.name,
+        repository: this.repository,
+        path,
+        message: (e as Error).message,
+        e,
+      });
+    }
+
+    return entries.map((entry) => ({
+      path: joinPaths(path, entry.name),
+      type: entry.isDirectory ? EntryType.Directory : EntryType.File,
+      size: entry.size,
+      modified: entry.modified,
+    }));
+  }
+
+  public canPatchAccessed(): boolean {
+    return false;
+  }
+
+  public canPatchCreated(): boolean {
+    return false;
+  }
+
+  public canPatchModified(): boolean {
+    return false;
+  }
+
+  public supportDirectory(): boolean {
+    return this.index != null;
+  }
+
+  /**
+   * Gets the size from Content-Range when HEAD has no Content-Length.
+   */
+  private async _getSize(path: string) {
+    const response = await this._fetch("GET", path, {
+      headers: { Range: "bytes=0-0" },
+    });
+    const contentRange = response.headers.get("Content-Range");
+    const match = /\/(\d+)$/.exec(contentRange ?? "");
+    if (match) {
+      return parseInt(match[1] as string, 10);
+    }
+    return (await response.arrayBuffer()).byteLength;
+  }
+}
@@ -0,0 +1,4 @@
+export * from "./listing";
+export * from "./HttpDirectory";
+export * from "./HttpFile";
+export * from "./HttpFileSystem";
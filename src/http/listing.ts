@@ -0,0 +1,100 @@
+export interface IndexEntry {
+  isDirectory: boolean;
+  modified?: number;
+  name: string;
+  size?: number;
+}
+
+interface JsonIndexEntry {
+  mtime?: string;
+  modified?: number | string;
+  name: string;
+  size?: number;
+  type?: string;
+}
+
+function decodeEntities(str: string) {
+  return str
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Extracts the links to direct children from an HTML directory index,
+ * e.g. the autoindex page of nginx or Apache.
+ */
+export function parseHtmlIndex(html: string, dirURL: string): IndexEntry[] {
+  const base = new URL(dirURL);
+  const entries = new Map<string, IndexEntry>();
+  const link = /<a\s[^>]*?href\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi;
+  let match: RegExpExecArray | null;
+  while ((match = link.exec(html))) {
+    const href = decodeEntities(match[1] ?? match[2] ?? match[3] ?? "");
+    let url: URL;
+    try {
+      url = new URL(href, base);
+    } catch {
+      continue;
+    }
+    if (url.origin !== base.origin || !url.pathname.startsWith(base.pathname)) {
+      continue;
+    }
+
+    const rest = url.pathname.substring(base.pathname.length);
+    const isDirectory = rest.endsWith("/");
+    const encoded = isDirectory ? rest.slice(0, -1) : rest;
+    if (!encoded || encoded.includes("/")) {
+      continue;
+    }
+    const name = decodeURIComponent(encoded);
+    if (name === "." || name === "..") {
+      continue;
+    }
+    entries.set(name, { name, isDirectory });
+  }
+  return Array.from(entries.values());
+}
+
+/**
+ * Reads a JSON directory index, which is an array of names (directories end with "/")
+ * or of objects in the format of nginx `autoindex_format json`.
+ */
+export function parseJsonIndex(json: unknown): IndexEntry[] {
+  if (!Array.isArray(json)) {
+    throw new TypeError("The index is not an array");
+  }
+
+  const entries: IndexEntry[] = [];
+  for (const value of json as (string | JsonIndexEntry)[]) {
+    if (typeof value === "string") {
+      const isDirectory = value.endsWith("/");
+      const name = isDirectory ? value.slice(0, -1) : value;
+      entries.push({ name, isDirectory });
+      continue;
+    }
+
+    const isDirectory = value.type === "directory" || value.name.endsWith("/");
+    const entry: IndexEntry = {
+      name: value.name.replace(/\/$/, ""),
+      isDirectory,
+    };
+    const modified = value.modified ?? value.mtime;
+    if (modified != null) {
+      const time =
+        typeof modified === "number" ? modified : Date.parse(modified);
+      if (!Number.isNaN(time)) {
+        entry.modified = time;
+      }
+    }
+    if (!isDirectory) {
+      entry.size = value.size;
+    }
+    entries.push(entry);
+  }
+  return entries.filter(
+    (entry) => entry.name && entry.name !== "." && entry.name !== ".."
+  );
+}
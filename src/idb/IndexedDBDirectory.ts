@@ -0,0 +1,67 @@
+import { AbstractDirectory } from "../AbstractDirectory";
+import { EntryType, Item } from "../core";
+import { InvalidModificationError } from "../errors";
+import { getParentPath } from "../util";
+import {
+  ENTRY_STORE,
+  IndexedDBEntry,
+  PARENT_INDEX,
+  requestToPromise,
+} from "./idb";
+import { IndexedDBFileSystem } from "./IndexedDBFileSystem";
+
+export class IndexedDBDirectory extends AbstractDirectory {
+  constructor(private readonly ifs: IndexedDBFileSystem, path: string) {
+    super(ifs, path);
+  }
+
+  public _doDelete(): Promise<void> {
+    const path = this.path;
+    const ifs = this.ifs;
+    return ifs._transact([ENTRY_STORE], "readwrite", path, async (tx) => {
+      await ifs._getEntry(tx, path);
+      const entries = tx.objectStore(ENTRY_STORE);
+      const count = await requestToPromise(
+        entries.index(PARENT_INDEX).count(path)
+      );
+      if (0 < count) {
+        throw this._createError(InvalidModificationError.name, {
+          message: `"${path}" is not empty`,
+        });
+      }
+      await requestToPromise(entries.delete(path));
+    });
+  }
+
+  public _doList(): Promise<Item[]> {
+    const path = this.path;
+    const ifs = this.ifs;
+    return ifs._transact([ENTRY_STORE], "readonly", path, async (tx) => {
+      await ifs._getEntry(tx, path);
+      const index = tx.objectStore(ENTRY_STORE).index(PARENT_INDEX);
+      const children = (await requestToPromise(
+        index.getAll(path)
+      )) as IndexedDBEntry[];
+      return children.map((child) => ({
+        ...child.stats,
+        path: child.path,
+        type: child.stats.size == null ? EntryType.Directory : EntryType.File,
+      }));
+    });
+  }
+
+  public _doMkcol(): Promise<void> {
+    const path = this.path;
+    const ifs = this.ifs;
+    return ifs._transact([ENTRY_STORE], "readwrite", path, async (tx) => {
+      await ifs._getParentEntry(tx, path);
+      const now = Date.now();
+      const entry: IndexedDBEntry = {
+        path,
+        parent: getParentPath(path),
+        stats: { created: now, modified: now, accessed: now },
+      };
+      await requestToPromise(tx.objectStore(ENTRY_STORE).add(entry));
+    });
+  }
+}
@@ -0,0 +1,174 @@
+import { Data, EMPTY_UINT8_ARRAY } from "univ-conv";
+import { AbstractFile } from "../AbstractFile";
+import { ReadOptions, Stats, WriteOptions } from "../core";
+import { getParentPath } from "../util";
+import {
+  CHUNK_SIZE,
+  chunkRange,
+  ChunkKey,
+  CONTENT_STORE,
+  ENTRY_STORE,
+  IndexedDBEntry,
+  requestToPromise,
+} from "./idb";
+import { IndexedDBFileSystem } from "./IndexedDBFileSystem";
+
+export class IndexedDBFile extends AbstractFile {
+  constructor(private readonly ifs: IndexedDBFileSystem, path: string) {
+    super(ifs, path);
+  }
+
+  public _doDelete(): Promise<void> {
+    const path = this.path;
+    const ifs = this.ifs;
+    return ifs._transact(
+      [ENTRY_STORE, CONTENT_STORE],
+      "readwrite",
+      path,
+      async (tx) => {
+        await ifs._getEntry(tx, path);
+        const contents = tx.objectStore(CONTENT_STORE);
+        await Promise.all([
+          requestToPromise(tx.objectStore(ENTRY_STORE).delete(path)),
+          requestToPromise(contents.delete(chunkRange(path))),
+        ]);
+      }
+    );
+  }
+
+  public async _doRead(stats: Stats, options: ReadOptions): Promise<Data> {
+    const size = stats.size ?? 0;
+    const start = Math.min(options.start ?? 0, size);
+    const end =
+      options.length == null ? size : Math.min(start + options.length, size);
+    if (end <= start) {
+      return EMPTY_UINT8_ARRAY;
+    }
+
+    const path = this.path;
+    return this.ifs._transact([CONTENT_STORE], "readonly", path, async (tx) => {
+      const contents = tx.objectStore(CONTENT_STORE);
+      const first = Math.floor(start / CHUNK_SIZE);
+      const last = Math.floor((end - 1) / CHUNK_SIZE);
+      const range = chunkRange(path, first, last);
+      const [keys, chunks] = await Promise.all([
+        requestToPromise(contents.getAllKeys(range)),
+        requestToPromise(contents.getAll(range)),
+      ]);
+
+      const u8 = new Uint8Array(end - start);
+      keys.forEach((key, i) => {
+        const chunk = chunks[i] as Uint8Array;
+        const chunkStart = (key as ChunkKey)[1] * CHUNK_SIZE;
+        const from = Math.max(start, chunkStart);
+        const to = Math.min(end, chunkStart + chunk.byteLength);
+        if (from < to) {
+          u8.set(
+            chunk.subarray(from - chunkStart, to - chunkStart),
+            from - start
+          );
+        }
+      });
+      return u8;
+    });
+  }
+
+  public async _doWrite(
+    data: Data,
+    _stats: Stats | undefined | null,
+    options: WriteOptions
+  ): Promise<void> {
+    const converter = this._getConverter();
+    const u8 = await converter.toUint8Array(data, {
+      ...options,
+      start: undefined,
+    });
+
+    const path = this.path;
+    const ifs = this.ifs;
+    await ifs._transact(
+      [ENTRY_STORE, CONTENT_STORE],
+      "readwrite",
+      path,
+      async (tx) => {
+        const entries = tx.objectStore(ENTRY_STORE);
+        const contents = tx.objectStore(CONTENT_STORE);
+        await ifs._getParentEntry(tx, path);
+        const current = (await requestToPromise(entries.get(path))) as
+          | IndexedDBEntry
+          | undefined;
+        if (current && current.stats.size == null) {
+          throw this._createTypeMismatchError({
+            message: `"${path}" is not a file`,
+          });
+        }
+
+        let size = current?.stats.size ?? 0;
+        let start: number;
+        const overwrite = !options.append && options.start == null;
+        if (overwrite) {
+          start = 0;
+          size = 0;
+          if (current) {
+            await requestToPromise(contents.delete(chunkRange(path)));
+          }
+        } else if (options.append) {
+          start = size;
+        } else {
+          start = options.start as number;
+        }
+        const end = start + u8.byteLength;
+        size = Math.max(size, end);
+
+        if (0 < u8.byteLength) {
+          const first = Math.floor(start / CHUNK_SIZE);
+          const last = Math.floor((end - 1) / CHUNK_SIZE);
+          for (let i = first; i <= last; i++) {
+            const chunkStart = i * CHUNK_SIZE;
+            const chunk = new Uint8Array(
+              Math.min(CHUNK_SIZE, size - chunkStart)
+            );
+            if (!overwrite) {
+              const prev = (await requestToPromise(contents.get([path, i]))) as
+                | Uint8Array
+                | undefined;
+              if (prev) {
+                chunk.set(prev.subarray(0, chunk.byteLength));
+              }
+            }
+            const from = Math.max(start, chunkStart);
+            const to = Math.min(end, chunkStart + chunk.byteLength);
+            chunk.set(u8.subarray(from - start, to - start), from - chunkStart);
+            await requestToPromise(contents.put(chunk, [path, i]));
+          }
+        }
+
+        const now = Date.now();
+        const entry: IndexedDBEntry = {
+          path,
+          parent: getParentPath(path),
+          stats: {
+            ...current?.stats,
+            created: current?.stats.created ?? now,
+            modified: now,
+            accessed: now,
+            size,
+          },
+        };
+        await requestToPromise(entries.put(entry));
+      }
+    );
+  }
+
+  public supportAppend(): boolean {
+    return true;
+  }
+
+  public supportRangeRead(): boolean {
+    return true;
+  }
+
+  public supportRangeWrite(): boolean {
+    return true;
+  }
+}
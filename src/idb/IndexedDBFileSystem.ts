@@ -0,0 +1,193 @@
+import { DEFAULT_CONVERTER, isBrowser } from "univ-conv";
+import { AbstractFileSystem } from "../AbstractFileSystem";
+import { Directory, File, FileSystemOptions, Stats, URLOptions } from "../core";
+import {
+  createError,
+  FileSystemError,
+  isFileSystemError,
+  NoModificationAllowedError,
+  NotFoundError,
+  NotReadableError,
+  NotSupportedError,
+  TypeMismatchError,
+} from "../errors";
+import { getParentPath } from "../util";
+import {
+  ENTRY_STORE,
+  IndexedDBEntry,
+  openDatabase,
+  requestToPromise,
+  transactionToPromise,
+} from "./idb";
+import { IndexedDBDirectory } from "./IndexedDBDirectory";
+import { IndexedDBFile } from "./IndexedDBFile";
+
+export class IndexedDBFileSystem extends AbstractFileSystem {
+  private opening?: Promise<IDBDatabase>;
+
+  constructor(repository: string, options?: FileSystemOptions) {
+    super(repository, options);
+  }
+
+  public _doGetDirectory(path: string): Directory {
+    return new IndexedDBDirectory(this, path);
+  }
+
+  public _doGetFile(path: string): File {
+    return new IndexedDBFile(this, path);
+  }
+
+  public async _doGetURL(
+    path: string,
+    isDirectory: boolean,
+    options: URLOptions
+  ): Promise<string> {
+    if (isDirectory || options.method !== "GET") {
+      throw createError({
+        name: NotSupportedError.name,
+        repository: this.repository,
+        path,
+        message: isDirectory
+          ? `"${path}" is a directory`
+          : `"${options.method as string}" is not supported`,
+      });
+    }
+
+    const file = this.getFile(path);
+    const u8 = await file.read("uint8array");
+    return DEFAULT_CONVERTER.toURL(u8, {
+      dstURLType: isBrowser ? "blob" : "data",
+    });
+  }
+
+  public _doHead(path: string): Promise<Stats> {
+    return this._transact([ENTRY_STORE], "readonly", path, async (tx) => {
+      const entry = await this._getEntry(tx, path);
+      return { ...entry.stats };
+    });
+  }
+
+  public _doPatch(path: string, _stats: Stats, props: Stats): Promise<void> {
+    return this._transact([ENTRY_STORE], "readwrite", path, async (tx) => {
+      const entry = await this._getEntry(tx, path);
+      entry.stats = { ...entry.stats, ...props };
+      await requestToPromise(tx.objectStore(ENTRY_STORE).put(entry));
+    });
+  }
+
+  public _error(path: string, e: unknown, write: boolean): FileSystemError {
+    if (isFileSystemError(e)) {
+      return e;
+    }
+    return createError({
+      name: write ? NoModificationAllowedError.name : NotReadableError.name,
+      repository: this.repository,
+      path,
+      message: (e as Error)?.message,
+      e,
+    });
+  }
+
+  public async _getEntry(
+    tx: IDBTransaction,
+    path: string
+  ): Promise<IndexedDBEntry> {
+    const store = tx.objectStore(ENTRY_STORE);
+    const entry = (await requestToPromise(store.get(path))) as
+      | IndexedDBEntry
+      | undefined;
+    if (!entry) {
+      throw createError({
+        name: NotFoundError.name,
+        repository: this.repository,
+        path,
+      });
+    }
+    return entry;
+  }
+
+  public async _getParentEntry(tx: IDBTransaction, path: string) {
+    const parentPath = getParentPath(path);
+    const parent = await this._getEntry(tx, parentPath);
+    if (parent.stats.size != null) {
+      throw createError({
+        name: TypeMismatchError.name,
+        repository: this.repository,
+        path: parentPath,
+        message: `"${parentPath}" is not a directory`,
+      });
+    }
+    return parent;
+  }
+
+  /**
+   * Runs the callback in a transaction.
+   * The callback must not await anything but requests of the transaction,
+   * otherwise the transaction is committed too early.
+   */
+  public async _transact<T>(
+    storeNames: string[],
+    mode: IDBTransactionMode,
+    path: string,
+    callback: (tx: IDBTransaction) => Promise<T>
+  ): Promise<T> {
+    const db = await this._open();
+    let tx: IDBTransaction;
+    try {
+      tx = db.transaction(storeNames, mode);
+    } catch (e) {
+      throw this._error(path, e, mode === "readwrite");
+    }
+    const done = transactionToPromise(tx);
+    done.catch(() => undefined);
+    try {
+      const result = await callback(tx);
+      await done;
+      return result;
+    } catch (e) {
+      try {
+        tx.abort();
+      } catch {
+        // already finished
+      }
+      throw this._error(path, e, mode === "readwrite");
+    }
+  }
+
+  public canPatchAccessed(): boolean {
+    return true;
+  }
+
+  public canPatchCreated(): boolean {
+    return true;
+  }
+
+  public canPatchModified(): boolean {
+    return true;
+  }
+
+  /**
+   * Closes the database connection.
+   */
+  public async close() {
+    if (this.opening) {
+      const db = await this.opening;
+      db.close();
+      this.opening = undefined;
+    }
+  }
+
+  public supportDirectory(): boolean {
+    return true;
+  }
+
+  private _open() {
+    if (!this.opening) {
+      this.opening = openDatabase(this.repository).catch((e) => {
+        this.opening = undefined;
+        throw this._error("/", e, false);
+      });
+    }
+    return this.opening;
+  }
+}
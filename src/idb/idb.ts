@@ -0,0 +1,52 @@
+import { Stats } from "../core";
+import { AbortError } from "../errors";
+
+export const ENTRY_STORE = "entries";
+export const CONTENT_STORE = "contents";
+export const PARENT_INDEX = "parent";
+export const CHUNK_SIZE = 64 * 1024;
+
+export interface IndexedDBEntry {
+  parent: string;
+  path: string;
+  stats: Stats;
+}
+
+export type ChunkKey = [string, number];
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionToPromise(tx: IDBTransaction): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? AbortError);
+  });
+}
+
+export function openDatabase(name: string): Promise<IDBDatabase> {
+  const request = indexedDB.open(name, 1);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    const entries = db.createObjectStore(ENTRY_STORE, { keyPath: "path" });
+    entries.createIndex(PARENT_INDEX, "parent");
+    db.createObjectStore(CONTENT_STORE);
+    const now = Date.now();
+    const root: IndexedDBEntry = {
+      path: "/",
+      parent: "",
+      stats: { created: now, modified: now, accessed: now },
+    };
+    entries.add(root);
+  };
+  return requestToPromise(request);
+}
+
+export function chunkRange(path: string, first = 0, last = Infinity) {
+  return IDBKeyRange.bound([path, first], [path, last]);
+}
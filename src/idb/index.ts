@@ -0,0 +1,4 @@
+export * from "./idb";
+export * from "./IndexedDBDirectory";
+export * from "./IndexedDBFile";
+export * from "./IndexedDBFileSystem";
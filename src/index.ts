@@ -5,3 +5,22 @@ export * from "./AbstractDirectory";
 export * from "./AbstractFile";
 export * from "./AbstractFileSystem";
 export * from "./AbstractEntry";
+export * from "./mem";
+export * from "./zip";
+export * from "./tar";
+export * from "./git";
+export * from "./idb";
+export * from "./kv";
+export * from "./mount";
+export * from "./overlay";
+export * from "./readonly";
+export * from "./chroot";
+export * from "./cache";
+export * from "./encrypted";
+export * from "./compressed";
+export * from "./cas";
+export * from "./versioning";
+export * from "./mirror";
+export * from "./erasure";
+export * from "./sharded";
+export * from "./quota";
@@ -0,0 +1,197 @@
+import { DEFAULT_CONVERTER } from "univ-conv";
+import { AbstractFileSystem } from "../AbstractFileSystem";
+import {
+  Directory,
+  EntryType,
+  File,
+  FileSystemOptions,
+  Item,
+  Stats,
+  URLOptions,
+} from "../core";
+import {
+  createError,
+  NotFoundError,
+  NotSupportedError,
+  TypeMismatchError,
+} from "../errors";
+import { getParentPath } from "../util";
+import { KeyValueDirectory } from "./KeyValueDirectory";
+import { KeyValueFile } from "./KeyValueFile";
+import { KeyValueStore } from "./KeyValueStore";
+
+export interface KeyValueFileSystemOptions extends FileSystemOptions {
+  chunkSize?: number;
+}
+
+const META_PREFIX = "m:";
+const CHUNK_PREFIX = "c:";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Stores the metadata of an entry in "m:<path>" and
+ * the contents of a file in "c:<path>:<index>" chunks.
+ * ":" cannot appear in paths, so the keys never collide.
+ */
+export abstract class AbstractKeyValueFileSystem extends AbstractFileSystem {
+  public readonly chunkSize: number;
+
+  constructor(
+    repository: string,
+    public readonly store: KeyValueStore,
+    options?: KeyValueFileSystemOptions
+  ) {
+    super(repository, options);
+    this.chunkSize = options?.chunkSize ?? 64 * 1024;
+  }
+
+  public _chunkKey(path: string, index: number) {
+    return `${CHUNK_PREFIX}${path}:${index}`;
+  }
+
+  public async _deleteChunks(path: string, from = 0) {
+    const prefix = `${CHUNK_PREFIX}${path}:`;
+    for (const key of await this.store.keys(prefix)) {
+      const index = parseInt(key.substring(prefix.length), 10);
+      if (from <= index) {
+        await this.store.delete(key);
+      }
+    }
+  }
+
+  public _deleteStats(path: string) {
+    return this.store.delete(META_PREFIX + path);
+  }
+
+  public _doGetDirectory(path: string): Directory {
+    return new KeyValueDirectory(this, path);
+  }
+
+  public _doGetFile(path: string): File {
+    return new KeyValueFile(this, path);
+  }
+
+  public async _doGetURL(
+    path: string,
+    isDirectory: boolean,
+    options: URLOptions
+  ): Promise<string> {
+    if (isDirectory) {
+      throw createError({
+        name: NotSupportedError.name,
+        repository: this.repository,
+        path,
+        message: `"${path}" is a directory`,
+      });
+    }
+    if (options.method !== "GET") {
+      throw createError({
+        name: NotSupportedError.name,
+        repository: this.repository,
+        path,
+        message: `"${options.method as string}" is not supported`,
+      });
+    }
+
+    const u8 = await this.getFile(path).read("uint8array");
+    return DEFAULT_CONVERTER.toURL(u8, { dstURLType: "data" });
+  }
+
+  public _doHead(path: string): Promise<Stats> {
+    return this._getStats(path);
+  }
+
+  public async _doPatch(
+    path: string,
+    _stats: Stats,
+    props: Stats
+  ): Promise<void> {
+    const stats = await this._getStats(path);
+    await this._putStats(path, { ...stats, ...props });
+  }
+
+  public async _findStats(path: string): Promise<Stats | undefined> {
+    const value = await this.store.get(META_PREFIX + path);
+    if (value) {
+      return JSON.parse(decoder.decode(value)) as Stats;
+    }
+    // The root exists without a record.
+    return path === "/" ? {} : undefined;
+  }
+
+  public async _getParentStats(path: string): Promise<Stats> {
+    const parentPath = getParentPath(path);
+    const parent = await this._getStats(parentPath);
+    if (parent.size != null) {
+      throw createError({
+        name: TypeMismatchError.name,
+        repository: this.repository,
+        path: parentPath,
+        message: `"${parentPath}" is not a directory`,
+      });
+    }
+    return parent;
+  }
+
+  public async _getStats(path: string): Promise<Stats> {
+    const stats = await this._findStats(path);
+    if (!stats) {
+      throw createError({
+        name: NotFoundError.name,
+        repository: this.repository,
+        path,
+      });
+    }
+    return stats;
+  }
+
+  public async _listItems(path: string): Promise<Item[]> {
+    const prefix = META_PREFIX + (path === "/" ? "/" : path + "/");
+    const items: Item[] = [];
+    for (const key of await this.store.keys(prefix)) {
+      const name = key.substring(prefix.length);
+      if (!name || name.includes("/")) {
+        continue;
+      }
+      const childPath = key.substring(META_PREFIX.length);
+      const stats = await this._findStats(childPath);
+      if (stats) {
+        const type = stats.size == null ? EntryType.Directory : EntryType.File;
+        items.push({ ...stats, path: childPath, type });
+      }
+    }
+    return items;
+  }
+
+  public _putStats(path: string, stats: Stats) {
+    return this.store.put(
+      META_PREFIX + path,
+      encoder.encode(JSON.stringify(stats))
+    );
+  }
+
+  public async _touch(path: string) {
+    const stats = await this._findStats(path);
+    if (stats) {
+      await this._putStats(path, { ...stats, modified: Date.now() });
+    }
+  }
+
+  public canPatchAccessed(): boolean {
+    return true;
+  }
+
+  public canPatchCreated(): boolean {
+    return true;
+  }
+
+  public canPatchModified(): boolean {
+    return true;
+  }
+
+  public supportDirectory(): boolean {
+    return true;
+  }
+}
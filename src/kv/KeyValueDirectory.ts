@@ -0,0 +1,38 @@
+import { AbstractDirectory } from "../AbstractDirectory";
+import { Item } from "../core";
+import { InvalidModificationError } from "../errors";
+import { getParentPath } from "../util";
+import { AbstractKeyValueFileSystem } from "./AbstractKeyValueFileSystem";
+
+export class KeyValueDirectory extends AbstractDirectory {
+  constructor(private readonly kvfs: AbstractKeyValueFileSystem, path: string) {
+    super(kvfs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    const kvfs = this.kvfs;
+    const path = this.path;
+    await kvfs._getStats(path);
+    if (0 < (await kvfs._listItems(path)).length) {
+      throw this._createError(InvalidModificationError.name, {
+        message: `"${path}" is not empty`,
+      });
+    }
+    await kvfs._deleteStats(path);
+    await kvfs._touch(getParentPath(path));
+  }
+
+  public async _doList(): Promise<Item[]> {
+    await this.kvfs._getStats(this.path);
+    return this.kvfs._listItems(this.path);
+  }
+
+  public async _doMkcol(): Promise<void> {
+    const kvfs = this.kvfs;
+    const path = this.path;
+    await kvfs._getParentStats(path);
+    const now = Date.now();
+    await kvfs._putStats(path, { created: now, modified: now, accessed: now });
+    await kvfs._touch(getParentPath(path));
+  }
+}
@@ -0,0 +1,142 @@
+import { Data, EMPTY_UINT8_ARRAY } from "univ-conv";
+import { AbstractFile } from "../AbstractFile";
+import { ReadOptions, Stats, WriteOptions } from "../core";
+import { getParentPath } from "../util";
+import { AbstractKeyValueFileSystem } from "./AbstractKeyValueFileSystem";
+
+export class KeyValueFile extends AbstractFile {
+  constructor(private readonly kvfs: AbstractKeyValueFileSystem, path: string) {
+    super(kvfs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    const kvfs = this.kvfs;
+    const path = this.path;
+    const stats = await kvfs._getStats(path);
+    if (stats.size == null) {
+      throw this._createTypeMismatchError({
+        message: `"${path}" is not a file`,
+      });
+    }
+    await kvfs._deleteStats(path);
+    await kvfs._deleteChunks(path);
+    await kvfs._touch(getParentPath(path));
+  }
+
+  public async _doRead(stats: Stats, options: ReadOptions): Promise<Data> {
+    const size = stats.size ?? 0;
+    const start = Math.min(options.start ?? 0, size);
+    const end =
+      options.length == null ? size : Math.min(start + options.length, size);
+    if (end <= start) {
+      return EMPTY_UINT8_ARRAY;
+    }
+
+    const kvfs = this.kvfs;
+    const chunkSize = kvfs.chunkSize;
+    const u8 = new Uint8Array(end - start);
+    const first = Math.floor(start / chunkSize);
+    const last = Math.floor((end - 1) / chunkSize);
+    for (let i = first; i <= last; i++) {
+      const chunk = await kvfs.store.get(kvfs._chunkKey(this.path, i));
+      if (!chunk) {
+        continue; // A hole, which reads as zeros
+      }
+      const chunkStart = i * chunkSize;
+      const from = Math.max(start, chunkStart);
+      const to = Math.min(end, chunkStart + chunk.byteLength);
+      if (from < to) {
+        u8.set(
+          chunk.subarray(from - chunkStart, to - chunkStart),
+          from - start
+        );
+      }
+    }
+    return u8;
+  }
+
+  public async _doWrite(
+    data: Data,
+    _stats: Stats | undefined | null,
+    options: WriteOptions
+  ): Promise<void> {
+    const converter = this._getConverter();
+    const u8 = await converter.toUint8Array(data, {
+      ...options,
+      start: undefined,
+    });
+
+    const kvfs = this.kvfs;
+    const path = this.path;
+    await kvfs._getParentStats(path);
+    const current = await kvfs._findStats(path);
+    if (current && current.size == null) {
+      throw this._createTypeMismatchError({
+        message: `"${path}" is not a file`,
+      });
+    }
+
+    let size = current?.size ?? 0;
+    let start: number;
+    const overwrite = !options.append && options.start == null;
+    if (overwrite) {
+      start = 0;
+      size = 0;
+    } else if (options.append) {
+      start = size;
+    } else {
+      start = options.start as number;
+    }
+    const end = start + u8.byteLength;
+    size = Math.max(size, end);
+
+    // Chunks first, so that the metadata never refers to missing contents.
+    const chunkSize = kvfs.chunkSize;
+    if (0 < u8.byteLength) {
+      const first = Math.floor(start / chunkSize);
+      const last = Math.floor((end - 1) / chunkSize);
+      for (let i = first; i <= last; i++) {
+        const key = kvfs._chunkKey(path, i);
+        const chunkStart = i * chunkSize;
+        const chunk = new Uint8Array(Math.min(chunkSize, size - chunkStart));
+        if (!overwrite) {
+          const prev = await kvfs.store.get(key);
+          if (prev) {
+            chunk.set(prev.subarray(0, chunk.byteLength));
+          }
+        }
+        const from = Math.max(start, chunkStart);
+        const to = Math.min(end, chunkStart + chunk.byteLength);
+        chunk.set(u8.subarray(from - start, to - start), from - chunkStart);
+        await kvfs.store.put(key, chunk);
+      }
+    }
+
+    const now = Date.now();
+    await kvfs._putStats(path, {
+      ...current,
+      created: current?.created ?? now,
+      modified: now,
+      accessed: now,
+      size,
+    });
+    if (overwrite) {
+      await kvfs._deleteChunks(path, Math.ceil(size / chunkSize));
+    }
+    if (!current) {
+      await kvfs._touch(getParentPath(path));
+    }
+  }
+
+  public supportAppend(): boolean {
+    return true;
+  }
+
+  public supportRangeRead(): boolean {
+    return true;
+  }
+
+  public supportRangeWrite(): boolean {
+    return true;
+  }
+}
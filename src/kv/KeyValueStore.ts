@@ -0,0 +1,10 @@
+/**
+ * The minimal storage that AbstractKeyValueFileSystem is built on.
+ */
+export interface KeyValueStore {
+  delete(key: string): Promise<void>;
+  get(key: string): Promise<Uint8Array | undefined>;
+  /** Returns all the keys which start with the prefix. */
+  keys(prefix: string): Promise<string[]>;
+  put(key: string, value: Uint8Array): Promise<void>;
+}
@@ -0,0 +1,15 @@
+import {
+  AbstractKeyValueFileSystem,
+  KeyValueFileSystemOptions,
+} from "./AbstractKeyValueFileSystem";
+import { MapStore } from "./MapStore";
+
+export class MapFileSystem extends AbstractKeyValueFileSystem {
+  constructor(
+    repository: string,
+    map?: Map<string, Uint8Array>,
+    options?: KeyValueFileSystemOptions
+  ) {
+    super(repository, new MapStore(map), options);
+  }
+}
@@ -0,0 +1,28 @@
+import { KeyValueStore } from "./KeyValueStore";
+
+/**
+ * A KeyValueStore which keeps values in a Map.
+ */
+export class MapStore implements KeyValueStore {
+  constructor(private readonly map = new Map<string, Uint8Array>()) {}
+
+  public delete(key: string): Promise<void> {
+    this.map.delete(key);
+    return Promise.resolve();
+  }
+
+  public get(key: string): Promise<Uint8Array | undefined> {
+    return Promise.resolve(this.map.get(key));
+  }
+
+  public keys(prefix: string): Promise<string[]> {
+    return Promise.resolve(
+      Array.from(this.map.keys()).filter((key) => key.startsWith(prefix))
+    );
+  }
+
+  public put(key: string, value: Uint8Array): Promise<void> {
+    this.map.set(key, value);
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,19 @@
+import {
+  AbstractKeyValueFileSystem,
+  KeyValueFileSystemOptions,
+} from "./AbstractKeyValueFileSystem";
+import { WebStorageStore } from "./WebStorageStore";
+
+export class WebStorageFileSystem extends AbstractKeyValueFileSystem {
+  /**
+   * @param storage localStorage or sessionStorage.
+   * @param prefix Prepended to every key so that other data in the storage is left alone.
+   */
+  constructor(
+    storage: Storage,
+    prefix = "univ-fs:",
+    options?: KeyValueFileSystemOptions
+  ) {
+    super(prefix, new WebStorageStore(storage, prefix), options);
+  }
+}
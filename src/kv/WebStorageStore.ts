@@ -0,0 +1,69 @@
+import { KeyValueStore } from "./KeyValueStore";
+
+/**
+ * A KeyValueStore on top of the Web Storage API (localStorage, sessionStorage).
+ * Values are stored as latin1 strings, one character per byte.
+ */
+export class WebStorageStore implements KeyValueStore {
+  constructor(
+    private readonly storage: Storage,
+    private readonly prefix = "univ-fs:"
+  ) {}
+
+  public delete(key: string): Promise<void> {
+    try {
+      this.storage.removeItem(this.prefix + key);
+      return Promise.resolve();
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+
+  public get(key: string): Promise<Uint8Array | undefined> {
+    try {
+      const value = this.storage.getItem(this.prefix + key);
+      if (value == null) {
+        return Promise.resolve(undefined);
+      }
+      const u8 = new Uint8Array(value.length);
+      for (let i = 0; i < value.length; i++) {
+        u8[i] = value.charCodeAt(i);
+      }
+      return Promise.resolve(u8);
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+
+  public keys(prefix: string): Promise<string[]> {
+    try {
+      const storage = this.storage;
+      const fullPrefix = this.prefix + prefix;
+      const keys: string[] = [];
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+        if (key?.startsWith(fullPrefix)) {
+          keys.push(key.substring(this.prefix.length));
+        }
+      }
+      return Promise.resolve(keys);
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+
+  public put(key: string, value: Uint8Array): Promise<void> {
+    try {
+      let str = "";
+      // Avoids exceeding the argument limit of String.fromCharCode.
+      for (let i = 0; i < value.length; i += 0x8000) {
+        str += String.fromCharCode(...value.subarray(i, i + 0x8000));
+      }
+      // Throws QuotaExceededError when the storage is full.
+      this.storage.setItem(this.prefix + key, str);
+      return Promise.resolve();
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+}
@@ -0,0 +1,8 @@
+export * from "./KeyValueStore";
+export * from "./AbstractKeyValueFileSystem";
+export * from "./KeyValueDirectory";
+export * from "./KeyValueFile";
+export * from "./MapFileSystem";
+export * from "./MapStore";
+export * from "./WebStorageFileSystem";
+export * from "./WebStorageStore";
@@ -0,0 +1,43 @@
+import { AbstractDirectory } from "../AbstractDirectory";
+import { Item } from "../core";
+import { InvalidModificationError } from "../errors";
+import { MemoryFileSystem } from "./MemoryFileSystem";
+
+export class MemoryDirectory extends AbstractDirectory {
+  constructor(private readonly mfs: MemoryFileSystem, path: string) {
+    super(mfs, path);
+  }
+
+  public _doDelete(): Promise<void> {
+    try {
+      this.mfs._getObject(this.path);
+      if (0 < this.mfs._listObjects(this.path).length) {
+        throw this._createError(InvalidModificationError.name, {
+          message: `"${this.path}" is not empty`,
+        });
+      }
+      this.mfs._deleteObject(this.path);
+      return Promise.resolve();
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+
+  public _doList(): Promise<Item[]> {
+    try {
+      const obj = this.mfs._getObject(this.path);
+      obj.stats.accessed = Date.now();
+      return Promise.resolve(this.mfs._listObjects(this.path));
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+
+  public _doMkcol(): Promise<void> {
+    const now = Date.now();
+    this.mfs._putObject(this.path, {
+      stats: { created: now, modified: now, accessed: now },
+    });
+    return Promise.resolve();
+  }
+}
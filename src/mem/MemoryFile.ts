@@ -0,0 +1,88 @@
+import { Data, EMPTY_UINT8_ARRAY } from "univ-conv";
+import { AbstractFile } from "../AbstractFile";
+import { ReadOptions, Stats, WriteOptions } from "../core";
+import { MemoryFileSystem } from "./MemoryFileSystem";
+
+export class MemoryFile extends AbstractFile {
+  constructor(private readonly mfs: MemoryFileSystem, path: string) {
+    super(mfs, path);
+  }
+
+  public _doDelete(): Promise<void> {
+    try {
+      this.mfs._getObject(this.path);
+      this.mfs._deleteObject(this.path);
+      return Promise.resolve();
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+
+  public _doRead(_stats: Stats, options: ReadOptions): Promise<Data> {
+    try {
+      const obj = this.mfs._getObject(this.path);
+      obj.stats.accessed = Date.now();
+      const content = obj.content ?? EMPTY_UINT8_ARRAY;
+      const start = options.start ?? 0;
+      const end = options.length == null ? undefined : start + options.length;
+      return Promise.resolve(content.slice(start, end));
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+
+  public async _doWrite(
+    data: Data,
+    stats: Stats | undefined | null,
+    options: WriteOptions
+  ): Promise<void> {
+    const converter = this._getConverter();
+    const u8 = await converter.toUint8Array(data, {
+      ...options,
+      start: undefined,
+    });
+
+    const mfs = this.mfs;
+    const obj = stats ? mfs._getObject(this.path) : undefined;
+    const current = obj?.content ?? EMPTY_UINT8_ARRAY;
+    let content: Uint8Array;
+    if (options.append) {
+      content = new Uint8Array(current.byteLength + u8.byteLength);
+      content.set(current);
+      content.set(u8, current.byteLength);
+    } else if (options.start != null) {
+      const start = options.start;
+      const size = Math.max(current.byteLength, start + u8.byteLength);
+      content = new Uint8Array(size);
+      content.set(current);
+      content.set(u8, start);
+    } else {
+      content = u8.slice();
+    }
+
+    const now = Date.now();
+    mfs._putObject(this.path, {
+      content,
+      stats: {
+        ...obj?.stats,
+        created: obj?.stats.created ?? now,
+        modified: now,
+        accessed: now,
+        size: content.byteLength,
+        etag: mfs._computeETag(content),
+      },
+    });
+  }
+
+  public supportAppend(): boolean {
+    return true;
+  }
+
+  public supportRangeRead(): boolean {
+    return true;
+  }
+
+  public supportRangeWrite(): boolean {
+    return true;
+  }
+}
@@ -0,0 +1,166 @@
+import { createHash } from "sha256-uint8array";
+import { DEFAULT_CONVERTER, EMPTY_UINT8_ARRAY } from "univ-conv";
+import { AbstractFileSystem } from "../AbstractFileSystem";
+import {
+  Directory,
+  EntryType,
+  File,
+  FileSystemOptions,
+  Item,
+  Stats,
+  URLOptions,
+} from "../core";
+import {
+  createError,
+  NotFoundError,
+  NotSupportedError,
+  TypeMismatchError,
+} from "../errors";
+import { getParentPath, toHex } from "../util";
+import { MemoryDirectory } from "./MemoryDirectory";
+import { MemoryFile } from "./MemoryFile";
+
+export interface MemoryObject {
+  content?: Uint8Array;
+  stats: Stats;
+}
+
+export class MemoryFileSystem extends AbstractFileSystem {
+  private readonly objects = new Map<string, MemoryObject>();
+
+  constructor(repository: string, options?: FileSystemOptions) {
+    super(repository, options);
+    const now = Date.now();
+    this.objects.set("/", {
+      stats: { created: now, modified: now, accessed: now },
+    });
+  }
+
+  public _computeETag(content: Uint8Array) {
+    const hash = createHash();
+    hash.update(content);
+    return toHex(hash.digest());
+  }
+
+  public _deleteObject(path: string) {
+    this.objects.delete(path);
+    this._touch(getParentPath(path));
+  }
+
+  public _doGetDirectory(path: string): Directory {
+    return new MemoryDirectory(this, path);
+  }
+
+  public _doGetFile(path: string): File {
+    return new MemoryFile(this, path);
+  }
+
+  public async _doGetURL(
+    path: string,
+    isDirectory: boolean,
+    options: URLOptions
+  ): Promise<string> {
+    if (isDirectory) {
+      throw createError({
+        name: NotSupportedError.name,
+        repository: this.repository,
+        path,
+        message: `"${path}" is a directory`,
+      });
+    }
+    if (options.method !== "GET") {
+      throw createError({
+        name: NotSupportedError.name,
+        repository: this.repository,
+        path,
+        message: `"${options.method as string}" is not supported`,
+      });
+    }
+
+    const obj = this._getObject(path);
+    return DEFAULT_CONVERTER.toURL(obj.content ?? EMPTY_UINT8_ARRAY, {
+      dstURLType: "data",
+    });
+  }
+
+  public _doHead(path: string): Promise<Stats> {
+    try {
+      const obj = this._getObject(path);
+      return Promise.resolve({ ...obj.stats });
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+
+  public _doPatch(path: string, _stats: Stats, props: Stats): Promise<void> {
+    try {
+      const obj = this._getObject(path);
+      obj.stats = { ...obj.stats, ...props };
+      return Promise.resolve();
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+
+  public _getObject(path: string): MemoryObject {
+    const obj = this.objects.get(path);
+    if (!obj) {
+      throw createError({
+        name: NotFoundError.name,
+        repository: this.repository,
+        path,
+      });
+    }
+    return obj;
+  }
+
+  public _listObjects(path: string): Item[] {
+    const items: Item[] = [];
+    for (const [key, obj] of this.objects) {
+      if (key === "/" || getParentPath(key) !== path) {
+        continue;
+      }
+      const type = obj.content == null ? EntryType.Directory : EntryType.File;
+      items.push({ ...obj.stats, path: key, type });
+    }
+    return items;
+  }
+
+  public _putObject(path: string, obj: MemoryObject) {
+    const parentPath = getParentPath(path);
+    const parent = this._getObject(parentPath);
+    if (parent.content != null) {
+      throw createError({
+        name: TypeMismatchError.name,
+        repository: this.repository,
+        path: parentPath,
+        message: `"${parentPath}" is not a directory`,
+      });
+    }
+    this.objects.set(path, obj);
+    this._touch(parentPath);
+  }
+
+  public canPatchAccessed(): boolean {
+    return true;
+  }
+
+  public canPatchCreated(): boolean {
+    return true;
+  }
+
+  public canPatchModified(): boolean {
+    return true;
+  }
+
+  public supportDirectory(): boolean {
+    return true;
+  }
+
+  private _touch(path: string) {
+    const obj = this.objects.get(path);
+    if (obj) {
+      obj.stats.modified = Date.now();
+    }
+  }
+}
@@ -0,0 +1,3 @@
+export * from "./MemoryDirectory";
+export * from "./MemoryFile";
+export * from "./MemoryFileSystem";
@@ -0,0 +1,41 @@
+import { AbstractDirectory } from "../AbstractDirectory";
+import { ExistsAction, Item, NoParentAction, NotExistAction } from "../core";
+import { FileSystemError } from "../errors";
+import { MirrorFileSystem } from "./MirrorFileSystem";
+
+export class MirrorDirectory extends AbstractDirectory {
+  constructor(private readonly mfs: MirrorFileSystem, path: string) {
+    super(mfs, path);
+  }
+
+  public async _doDelete(errors?: FileSystemError[]): Promise<void> {
+    const path = this.path;
+    await this.mfs._mutate(
+      path,
+      (backend) =>
+        backend.delete(path, {
+          onNotExist: NotExistAction.Error,
+          recursive: false,
+        }),
+      errors
+    );
+  }
+
+  public _doList(): Promise<Item[]> {
+    return this.mfs._list(this.path);
+  }
+
+  public async _doMkcol(errors?: FileSystemError[]): Promise<void> {
+    const path = this.path;
+    // Skips the replicas which already have it.
+    await this.mfs._mutate(
+      path,
+      (backend) =>
+        backend.mkcol(path, {
+          onExists: ExistsAction.Skip,
+          onNoParent: NoParentAction.Error,
+        }),
+      errors
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { Data } from "univ-conv";
+import { AbstractFile } from "../AbstractFile";
+import { NotExistAction, ReadOptions, Stats, WriteOptions } from "../core";
+import { FileSystemError } from "../errors";
+import { MirrorFileSystem } from "./MirrorFileSystem";
+
+export class MirrorFile extends AbstractFile {
+  constructor(private readonly mfs: MirrorFileSystem, path: string) {
+    super(mfs, path);
+  }
+
+  public async _doDelete(errors?: FileSystemError[]): Promise<void> {
+    const path = this.path;
+    await this.mfs._mutate(
+      path,
+      (backend) =>
+        backend.delete(path, {
+          onNotExist: NotExistAction.Error,
+          recursive: false,
+        }),
+      errors
+    );
+  }
+
+  public _doRead(_stats: Stats, options: ReadOptions): Promise<Data> {
+    const path = this.path;
+    return this.mfs._failover((backend) =>
+      backend.getFile(path).read(undefined, options)
+    );
+  }
+
+  public async _doWrite(
+    data: Data,
+    _stats: Stats | undefined | null,
+    options: WriteOptions,
+    errors?: FileSystemError[]
+  ): Promise<void> {
+    // A stream can be read only once.
+    const converter = this._getConverter();
+    const u8 = await converter.toUint8Array(data, {
+      ...options,
+      start: undefined,
+    });
+    const path = this.path;
+    await this.mfs._mutate(
+      path,
+      (backend) => backend.write(path, u8, { ...options, append: false }),
+      errors
+    );
+  }
+
+  public supportAppend(): boolean {
+    return false;
+  }
+
+  public supportRangeRead(): boolean {
+    return true;
+  }
+
+  public supportRangeWrite(): boolean {
+    return false;
+  }
+}
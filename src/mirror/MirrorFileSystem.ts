@@ -0,0 +1,162 @@
+import { AbstractFileSystem } from "../AbstractFileSystem";
+import {
+  Directory,
+  File,
+  FileSystem,
+  FileSystemOptions,
+  HeadOptions,
+  Item,
+  PatchOptions,
+  Stats,
+  URLOptions,
+} from "../core";
+import {
+  createError,
+  FileSystemError,
+  isFileSystemError,
+  NetworkError,
+  NoModificationAllowedError,
+  TimeoutError,
+} from "../errors";
+import { MirrorDirectory } from "./MirrorDirectory";
+import { MirrorFile } from "./MirrorFile";
+
+export interface MirrorFileSystemOptions extends FileSystemOptions {
+  /** The number of the backends on which a mutation must succeed, all by default */
+  writeQuorum?: number;
+}
+
+const FAILOVER_ERROR_NAMES = [NetworkError.name, TimeoutError.name];
+
+/**
+ * Writes every mutation to the primary and the replicas,
+ * and reads from the primary, or from the replicas while it is unreachable.
+ * The failures on the backends within the write quorum are divergences,
+ * which are pushed to the errors if given.
+ */
+export class MirrorFileSystem extends AbstractFileSystem {
+  public readonly backends: FileSystem[];
+  public readonly writeQuorum: number;
+
+  constructor(
+    public readonly primary: FileSystem,
+    public readonly replicas: FileSystem[],
+    options?: MirrorFileSystemOptions
+  ) {
+    super(primary.repository, options);
+    this.backends = [primary, ...replicas];
+    const count = this.backends.length;
+    this.writeQuorum = options?.writeQuorum ?? count;
+    if (this.writeQuorum < 1 || count < this.writeQuorum) {
+      throw new RangeError(`writeQuorum must be between 1 and ${count}`);
+    }
+  }
+
+  public _doGetDirectory(path: string): Directory {
+    return new MirrorDirectory(this, path);
+  }
+
+  public _doGetFile(path: string): File {
+    return new MirrorFile(this, path);
+  }
+
+  public _doGetURL(
+    path: string,
+    _isDirectory: boolean,
+    options: URLOptions
+  ): Promise<string> {
+    return this._failover((backend) => backend.getURL(path, options));
+  }
+
+  public _doHead(path: string, options: HeadOptions): Promise<Stats> {
+    return this._failover((backend) => backend.head(path, options));
+  }
+
+  public async _doPatch(
+    path: string,
+    _stats: Stats,
+    props: Stats,
+    options: PatchOptions,
+    errors?: FileSystemError[]
+  ): Promise<void> {
+    await this._mutate(
+      path,
+      (backend) => backend.patch(path, props, options),
+      errors
+    );
+  }
+
+  /**
+   * Runs on the primary, and on the next backend
+   * whenever one raises NetworkError or TimeoutError.
+   */
+  public async _failover<T>(fn: (backend: FileSystem) => Promise<T>) {
+    let error: unknown;
+    for (const backend of this.backends) {
+      try {
+        return await fn(backend);
+      } catch (e) {
+        if (!isFileSystemError(e) || !FAILOVER_ERROR_NAMES.includes(e.name)) {
+          throw e;
+        }
+        error = e;
+      }
+    }
+    throw error;
+  }
+
+  public async _list(path: string): Promise<Item[]> {
+    const paths = await this._failover((backend) => backend.list(path));
+    return paths.map((p) => ({ path: p }));
+  }
+
+  /**
+   * Runs the mutation on all the backends at once.
+   * Throws the first failure unless it succeeds on the write quorum.
+   */
+  public async _mutate(
+    path: string,
+    fn: (backend: FileSystem) => Promise<unknown>,
+    errors?: FileSystemError[]
+  ): Promise<void> {
+    const failures: FileSystemError[] = [];
+    await Promise.all(
+      this.backends.map(async (backend) => {
+        try {
+          await fn(backend);
+        } catch (e) {
+          failures.push(
+            createError({
+              name: NoModificationAllowedError.name,
+              repository: backend.repository,
+              path,
+              e,
+            })
+          );
+        }
+      })
+    );
+    if (this.backends.length - failures.length < this.writeQuorum) {
+      throw failures[0];
+    }
+    if (errors) {
+      errors.push(...failures);
+    }
+  }
+
+  public canPatchAccessed(): boolean {
+    return true;
+  }
+
+  public canPatchCreated(): boolean {
+    return true;
+  }
+
+  public canPatchModified(): boolean {
+    return true;
+  }
+
+  public supportDirectory(): boolean {
+    return this.primary.supportDirectory();
+  }
+}
@@ -0,0 +1,3 @@
+export * from "./MirrorDirectory";
+export * from "./MirrorFile";
+export * from "./MirrorFileSystem";
@@ -0,0 +1,57 @@
+import { AbstractDirectory } from "../AbstractDirectory";
+import { CopyOptions, Entry, Item, MoveOptions, NotExistAction } from "../core";
+import { FileSystemError } from "../errors";
+import { MountFileSystem } from "./MountFileSystem";
+
+export class MountDirectory extends AbstractDirectory {
+  constructor(private readonly mfs: MountFileSystem, path: string) {
+    super(mfs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    const mfs = this.mfs;
+    const { fs, mountPath, path } = mfs._getMount(this.path);
+    if (mountPath === this.path || 0 < mfs._getMountNames(this.path).length) {
+      throw this._createNoModificationAllowedError({
+        message: `"${this.path}" is a mount point`,
+      });
+    }
+    await fs.delete(path, {
+      onNotExist: NotExistAction.Error,
+      recursive: false,
+    });
+  }
+
+  public _doList(): Promise<Item[]> {
+    return this.mfs._listMount(this.path);
+  }
+
+  public async _doMkcol(): Promise<void> {
+    const { fs, path } = this.mfs._getMount(this.path);
+    await fs.mkcol(path);
+  }
+
+  public override async copy(
+    to: Entry,
+    options?: CopyOptions,
+    errors?: FileSystemError[]
+  ): Promise<boolean> {
+    const copied = await this.mfs._transfer(this, to, false, options, errors);
+    if (copied != null) {
+      return copied;
+    }
+    return super.copy(to, options, errors);
+  }
+
+  public override async move(
+    to: Entry,
+    options?: MoveOptions,
+    errors?: FileSystemError[]
+  ): Promise<boolean> {
+    const moved = await this.mfs._transfer(this, to, true, options, errors);
+    if (moved != null) {
+      return moved;
+    }
+    return super.move(to, options, errors);
+  }
+}
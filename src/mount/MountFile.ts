@@ -0,0 +1,77 @@
+import { Data } from "univ-conv";
+import { AbstractFile } from "../AbstractFile";
+import {
+  CopyOptions,
+  Entry,
+  MoveOptions,
+  NotExistAction,
+  ReadOptions,
+  Stats,
+  WriteOptions,
+} from "../core";
+import { FileSystemError } from "../errors";
+import { MountFileSystem } from "./MountFileSystem";
+
+export class MountFile extends AbstractFile {
+  constructor(private readonly mfs: MountFileSystem, path: string) {
+    super(mfs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    const { fs, path } = this.mfs._getMount(this.path);
+    await fs.delete(path, {
+      onNotExist: NotExistAction.Error,
+      recursive: false,
+    });
+  }
+
+  public _doRead(_stats: Stats, options: ReadOptions): Promise<Data> {
+    const { fs, path } = this.mfs._getMount(this.path);
+    return fs.getFile(path).read(undefined, options);
+  }
+
+  public async _doWrite(
+    data: Data,
+    _stats: Stats | undefined | null,
+    options: WriteOptions
+  ): Promise<void> {
+    const { fs, path } = this.mfs._getMount(this.path);
+    await fs.write(path, data, options);
+  }
+
+  public override async copy(
+    to: Entry,
+    options?: CopyOptions,
+    errors?: FileSystemError[]
+  ): Promise<boolean> {
+    const copied = await this.mfs._transfer(this, to, false, options, errors);
+    if (copied != null) {
+      return copied;
+    }
+    return super.copy(to, options, errors);
+  }
+
+  public override async move(
+    to: Entry,
+    options?: MoveOptions,
+    errors?: FileSystemError[]
+  ): Promise<boolean> {
+    const moved = await this.mfs._transfer(this, to, true, options, errors);
+    if (moved != null) {
+      return moved;
+    }
+    return super.move(to, options, errors);
+  }
+
+  public supportAppend(): boolean {
+    return true;
+  }
+
+  public supportRangeRead(): boolean {
+    return true;
+  }
+
+  public supportRangeWrite(): boolean {
+    return true;
+  }
+}
@@ -0,0 +1,237 @@
+import { AbstractFileSystem } from "../AbstractFileSystem";
+import {
+  CopyOptions,
+  Directory,
+  Entry,
+  EntryType,
+  File,
+  FileSystem,
+  FileSystemOptions,
+  HeadOptions,
+  Item,
+  MoveOptions,
+  PatchOptions,
+  Stats,
+  URLOptions,
+} from "../core";
+import {
+  createError,
+  FileSystemError,
+  isNotFoundError,
+  NoModificationAllowedError,
+  NotFoundError,
+} from "../errors";
+import { getPathParts, joinPaths, normalizePath } from "../util";
+import { MountDirectory } from "./MountDirectory";
+import { MountFile } from "./MountFile";
+
+export interface Mount {
+  fs: FileSystem;
+  /** The mount point */
+  mountPath: string;
+  /** The path on the mounted FileSystem */
+  path: string;
+}
+
+export class MountFileSystem extends AbstractFileSystem {
+  private readonly mounts = new Map<string, FileSystem>();
+
+  constructor(
+    repository: string,
+    mounts?: { [path: string]: FileSystem },
+    options?: FileSystemOptions
+  ) {
+    super(repository, options);
+    for (const [path, fs] of Object.entries(mounts ?? {})) {
+      this.mount(path, fs);
+    }
+  }
+
+  public _doGetDirectory(path: string): Directory {
+    return new MountDirectory(this, path);
+  }
+
+  public _doGetFile(path: string): File {
+    return new MountFile(this, path);
+  }
+
+  public _doGetURL(
+    path: string,
+    _isDirectory: boolean,
+    options: URLOptions
+  ): Promise<string> {
+    const { fs, path: innerPath } = this._getMount(path);
+    return fs.getURL(innerPath, options);
+  }
+
+  public async _doHead(path: string, options: HeadOptions): Promise<Stats> {
+    const mount = this._resolve(path);
+    const isMountAncestor = 0 < this._getMountNames(path).length;
+    if (mount) {
+      try {
+        return await mount.fs.head(mount.path, options);
+      } catch (e) {
+        if (!isMountAncestor || !isNotFoundError(e)) {
+          throw e;
+        }
+      }
+    }
+    if (isMountAncestor) {
+      return {};
+    }
+    throw createError({
+      name: NotFoundError.name,
+      repository: this.repository,
+      path,
+    });
+  }
+
+  public async _doPatch(
+    path: string,
+    _stats: Stats,
+    props: Stats,
+    options: PatchOptions
+  ): Promise<void> {
+    const { fs, path: innerPath } = this._getMount(path);
+    await fs.patch(innerPath, props, options);
+  }
+
+  /**
+   * Gets the FileSystem mounted at the longest prefix of the path.
+   */
+  public _getMount(path: string): Mount {
+    const mount = this._resolve(path);
+    if (!mount) {
+      throw createError({
+        name: NoModificationAllowedError.name,
+        repository: this.repository,
+        path,
+        message: `No file system is mounted on "${path}"`,
+      });
+    }
+    return mount;
+  }
+
+  /**
+   * Gets the names of the children of the directory which lead to mount points.
+   */
+  public _getMountNames(path: string): string[] {
+    const depth = getPathParts(path).length;
+    const names = new Set<string>();
+    for (const mountPath of this.mounts.keys()) {
+      if (mountPath !== path && isDescendant(mountPath, path)) {
+        names.add(getPathParts(mountPath)[depth] as string);
+      }
+    }
+    return Array.from(names);
+  }
+
+  public async _listMount(path: string): Promise<Item[]> {
+    const items: Item[] = [];
+    const mount = this._resolve(path);
+    const names = this._getMountNames(path);
+    if (mount) {
+      try {
+        const paths = await mount.fs.list(mount.path);
+        for (const innerPath of paths) {
+          items.push({ path: joinPaths(mount.mountPath, innerPath) });
+        }
+      } catch (e) {
+        if (names.length === 0 || !isNotFoundError(e)) {
+          throw e;
+        }
+      }
+    }
+
+    for (const name of names) {
+      const mountPath = joinPaths(path, name);
+      const item = items.find((item) => item.path === mountPath);
+      if (item) {
+        item.type = EntryType.Directory;
+      } else {
+        items.push({ path: mountPath, type: EntryType.Directory });
+      }
+    }
+    return items;
+  }
+
+  public _resolve(path: string): Mount | undefined {
+    let found: string | undefined;
+    for (const mountPath of this.mounts.keys()) {
+      if (
+        isDescendant(path, mountPath) &&
+        (found == null || found.length < mountPath.length)
+      ) {
+        found = mountPath;
+      }
+    }
+    if (found == null) {
+      return undefined;
+    }
+    return {
+      fs: this.mounts.get(found) as FileSystem,
+      mountPath: found,
+      path: normalizePath(path.substring(found.length)),
+    };
+  }
+
+  /**
+   * Delegates copying or moving to the mounted FileSystem
+   * when both entries are on it and no other mount is nested inside.
+   * Returns undefined when the entries should be streamed instead.
+   */
+  public async _transfer(
+    from: Entry,
+    to: Entry,
+    move: boolean,
+    options?: CopyOptions | MoveOptions,
+    errors?: FileSystemError[]
+  ): Promise<boolean | undefined> {
+    if (to.fs !== this || (this.options.hook && !options?.ignoreHook)) {
+      return undefined;
+    }
+    const src = this._resolve(from.path);
+    const dst = this._resolve(to.path);
+    if (
+      !src ||
+      !dst ||
+      src.fs !== dst.fs ||
+      0 < this._getMountNames(from.path).length ||
+      0 < this._getMountNames(to.path).length
+    ) {
+      return undefined;
+    }
+    if (move) {
+      return src.fs.move(src.path, dst.path, options, errors);
+    }
+    return src.fs.copy(src.path, dst.path, options, errors);
+  }
+
+  public canPatchAccessed(): boolean {
+    return true;
+  }
+
+  public canPatchCreated(): boolean {
+    return true;
+  }
+
+  public canPatchModified(): boolean {
+    return true;
+  }
+
+  public mount(path: string, fs: FileSystem) {
+    this.mounts.set(this._checkPath(path), fs);
+  }
+
+  public supportDirectory(): boolean {
+    return true;
+  }
+
+  public unmount(path: string): boolean {
+    return this.mounts.delete(this._checkPath(path));
+  }
+}
+
+function isDescendant(path: string, dirPath: string) {
+  return dirPath === "/" || path === dirPath || path.startsWith(dirPath + "/");
+}
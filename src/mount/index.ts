@@ -0,0 +1,3 @@
+export * from "./MountDirectory";
+export * from "./MountFile";
+export * from "./MountFileSystem";
@@ -0,0 +1,46 @@
+import { mkdir, readdir, rmdir } from "fs/promises";
+import { AbstractDirectory } from "../AbstractDirectory";
+import { EntryType, Item } from "../core";
+import { joinPaths } from "../util";
+import { NodeFileSystem } from "./NodeFileSystem";
+
+export class NodeDirectory extends AbstractDirectory {
+  constructor(private readonly nfs: NodeFileSystem, path: string) {
+    super(nfs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    try {
+      await rmdir(this.nfs._getFullPath(this.path));
+    } catch (e) {
+      throw this.nfs._error(this.path, e, true);
+    }
+  }
+
+  public async _doList(): Promise<Item[]> {
+    try {
+      const dirents = await readdir(this.nfs._getFullPath(this.path), {
+        withFileTypes: true,
+      });
+      return dirents.map((dirent) => {
+        const item: Item = { path: joinPaths(this.path, dirent.name) };
+        if (dirent.isDirectory()) {
+          item.type = EntryType.Directory;
+        } else if (dirent.isFile()) {
+          item.type = EntryType.File;
+        }
+        return item;
+      });
+    } catch (e) {
+      throw this.nfs._error(this.path, e, false);
+    }
+  }
+
+  public async _doMkcol(): Promise<void> {
+    try {
+      await mkdir(this.nfs._getFullPath(this.path));
+    } catch (e) {
+      throw this.nfs._error(this.path, e, true);
+    }
+  }
+}
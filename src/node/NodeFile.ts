@@ -0,0 +1,90 @@
+import { createReadStream } from "fs";
+import { FileHandle, open, unlink } from "fs/promises";
+import { Data } from "univ-conv";
+import { AbstractFile } from "../AbstractFile";
+import { ReadOptions, Stats, WriteOptions } from "../core";
+import { NodeFileSystem } from "./NodeFileSystem";
+
+export class NodeFile extends AbstractFile {
+  constructor(private readonly nfs: NodeFileSystem, path: string) {
+    super(nfs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    try {
+      await unlink(this.nfs._getFullPath(this.path));
+    } catch (e) {
+      throw this.nfs._error(this.path, e, true);
+    }
+  }
+
+  public async _doRead(_stats: Stats, options: ReadOptions): Promise<Data> {
+    const start = options.start ?? 0;
+    const end = options.length == null ? undefined : start + options.length - 1;
+    // Opens first, so that the error is mapped before the stream is returned.
+    let handle: FileHandle;
+    try {
+      handle = await open(this.nfs._getFullPath(this.path), "r");
+    } catch (e) {
+      throw this.nfs._error(this.path, e, false);
+    }
+    return createReadStream("", {
+      fd: handle,
+      start,
+      end,
+      highWaterMark: options.bufferSize,
+    });
+  }
+
+  public async _doWrite(
+    data: Data,
+    stats: Stats | undefined | null,
+    options: WriteOptions
+  ): Promise<void> {
+    const isRange = options.start != null || options.length != null;
+    let flags: string;
+    if (options.append) {
+      flags = "a";
+    } else if (isRange && stats) {
+      flags = "r+";
+    } else {
+      flags = "w";
+    }
+
+    const converter = this._getConverter();
+    const readable = await converter.toReadable(data, {
+      ...options,
+      start: undefined,
+    });
+    let position = options.append ? null : options.start ?? 0;
+    try {
+      const handle = await open(this.nfs._getFullPath(this.path), flags);
+      try {
+        for await (const chunk of readable) {
+          const u8 = await converter.toUint8Array(chunk as Data);
+          await handle.write(u8, 0, u8.byteLength, position);
+          if (position != null) {
+            position += u8.byteLength;
+          }
+        }
+      } finally {
+        await handle.close();
+      }
+    } catch (e) {
+      readable.destroy();
+      throw this.nfs._error(this.path, e, true);
+    }
+  }
+
+  public supportAppend(): boolean {
+    return true;
+  }
+
+  public supportRangeRead(): boolean {
+    return true;
+  }
+
+  public supportRangeWrite(): boolean {
+    return true;
+  }
+}
@@ -0,0 +1,152 @@
+import { mkdirSync } from "fs";
+import { stat, utimes } from "fs/promises";
+import { join } from "path";
+import { pathToFileURL } from "url";
+import { AbstractFileSystem } from "../AbstractFileSystem";
+import {
+  Directory,
+  EXCLUDE_PROP_NAMES,
+  File,
+  FileSystemOptions,
+  Stats,
+  URLOptions,
+} from "../core";
+import {
+  createError,
+  FileSystemError,
+  InvalidModificationError,
+  NoModificationAllowedError,
+  NotAllowedError,
+  NotFoundError,
+  NotReadableError,
+  NotSupportedError,
+  PathExistError,
+  TypeMismatchError,
+} from "../errors";
+import { NodeDirectory } from "./NodeDirectory";
+import { NodeFile } from "./NodeFile";
+
+const ERROR_NAMES: { [code: string]: string } = {
+  EACCES: NotAllowedError.name,
+  EEXIST: PathExistError.name,
+  EISDIR: TypeMismatchError.name,
+  ENOENT: NotFoundError.name,
+  ENOTDIR: TypeMismatchError.name,
+  ENOTEMPTY: InvalidModificationError.name,
+  EPERM: NotAllowedError.name,
+};
+
+export class NodeFileSystem extends AbstractFileSystem {
+  constructor(rootDir: string, options?: FileSystemOptions) {
+    super(rootDir, options);
+    mkdirSync(rootDir, { recursive: true });
+  }
+
+  public _doGetDirectory(path: string): Directory {
+    return new NodeDirectory(this, path);
+  }
+
+  public _doGetFile(path: string): File {
+    return new NodeFile(this, path);
+  }
+
+  public _doGetURL(
+    path: string,
+    _isDirectory: boolean,
+    options: URLOptions
+  ): Promise<string> {
+    if (options.method !== "GET") {
+      return Promise.reject(
+        createError({
+          name: NotSupportedError.name,
+          repository: this.repository,
+          path,
+          message: `"${options.method as string}" is not supported`,
+        })
+      );
+    }
+    return Promise.resolve(pathToFileURL(this._getFullPath(path)).href);
+  }
+
+  public async _doHead(path: string): Promise<Stats> {
+    try {
+      const st = await stat(this._getFullPath(path));
+      const stats: Stats = {
+        created: st.birthtimeMs,
+        modified: st.mtimeMs,
+        accessed: st.atimeMs,
+      };
+      if (!st.isDirectory()) {
+        stats.size = st.size;
+        stats.etag = `${st.size.toString(16)}-${Math.trunc(st.mtimeMs).toString(
+          16
+        )}`;
+      }
+      return stats;
+    } catch (e) {
+      throw this._error(path, e, false);
+    }
+  }
+
+  public async _doPatch(path: string, stats: Stats, props: Stats) {
+    for (const key of Object.keys(props)) {
+      if (!EXCLUDE_PROP_NAMES.includes(key)) {
+        throw createError({
+          name: NotSupportedError.name,
+          repository: this.repository,
+          path,
+          message: `Cannot patch "${key}" on the FileSystem`,
+        });
+      }
+    }
+    if (props.accessed == null && props.modified == null) {
+      return;
+    }
+
+    const accessed = props.accessed ?? stats.accessed ?? Date.now();
+    const modified = props.modified ?? stats.modified ?? Date.now();
+    try {
+      await utimes(
+        this._getFullPath(path),
+        new Date(accessed),
+        new Date(modified)
+      );
+    } catch (e) {
+      throw this._error(path, e, true);
+    }
+  }
+
+  public _error(path: string, e: unknown, write: boolean): FileSystemError {
+    const code = (e as NodeJS.ErrnoException)?.code;
+    const name =
+      (code && ERROR_NAMES[code]) ||
+      (write ? NoModificationAllowedError.name : NotReadableError.name);
+    return createError({
+      name,
+      repository: this.repository,
+      path,
+      message: (e as Error)?.message,
+      e,
+    });
+  }
+
+  public _getFullPath(path: string) {
+    return join(this.repository, path);
+  }
+
+  public canPatchAccessed(): boolean {
+    return true;
+  }
+
+  public canPatchCreated(): boolean {
+    return false;
+  }
+
+  public canPatchModified(): boolean {
+    return true;
+  }
+
+  public supportDirectory(): boolean {
+    return true;
+  }
+}
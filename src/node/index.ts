@@ -0,0 +1,3 @@
+export * from "./NodeDirectory";
+export * from "./NodeFile";
+export * from "./NodeFileSystem";
@@ -0,0 +1,31 @@
+import { AbstractDirectory } from "../AbstractDirectory";
+import { Item } from "../core";
+import { InvalidModificationError } from "../errors";
+import { OverlayFileSystem } from "./OverlayFileSystem";
+
+export class OverlayDirectory extends AbstractDirectory {
+  constructor(private readonly ofs: OverlayFileSystem, path: string) {
+    super(ofs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    const ofs = this.ofs;
+    const path = this.path;
+    if (0 < (await ofs._listLayers(path)).length) {
+      throw this._createError(InvalidModificationError.name, {
+        message: `"${path}" is not empty`,
+      });
+    }
+    // Removes the markers in the upper directory too.
+    await ofs._removeUpper(path, true);
+    await ofs._whiteout(path);
+  }
+
+  public _doList(): Promise<Item[]> {
+    return this.ofs._listLayers(this.path);
+  }
+
+  public _doMkcol(): Promise<void> {
+    return this.ofs._copyUp(this.path, true);
+  }
+}
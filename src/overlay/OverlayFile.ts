@@ -0,0 +1,53 @@
+import { Data } from "univ-conv";
+import { AbstractFile } from "../AbstractFile";
+import { EntryType, ReadOptions, Stats, WriteOptions } from "../core";
+import { OverlayFileSystem } from "./OverlayFileSystem";
+
+export class OverlayFile extends AbstractFile {
+  constructor(private readonly ofs: OverlayFileSystem, path: string) {
+    super(ofs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    const ofs = this.ofs;
+    const path = this.path;
+    await ofs._removeUpper(path);
+    await ofs._whiteout(path);
+  }
+
+  public async _doRead(_stats: Stats, options: ReadOptions): Promise<Data> {
+    const { fs } = await this.ofs._findLayer(this.path, {
+      type: EntryType.File,
+    });
+    return fs.getFile(this.path).read(undefined, options);
+  }
+
+  public async _doWrite(
+    data: Data,
+    _stats: Stats | undefined | null,
+    options: WriteOptions
+  ): Promise<void> {
+    const ofs = this.ofs;
+    const path = this.path;
+    if (options.append || options.start != null) {
+      await ofs._copyUp(path, false);
+    } else {
+      // Overwritten, so the lower contents are not needed.
+      await ofs._copyUpParent(path);
+    }
+    await ofs.upper.write(path, data, options);
+    await ofs._removeWhiteout(path);
+  }
+
+  public supportAppend(): boolean {
+    return true;
+  }
+
+  public supportRangeRead(): boolean {
+    return true;
+  }
+
+  public supportRangeWrite(): boolean {
+    return true;
+  }
+}
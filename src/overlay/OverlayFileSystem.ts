@@ -0,0 +1,262 @@
+import { EMPTY_UINT8_ARRAY } from "univ-conv";
+import { AbstractFileSystem } from "../AbstractFileSystem";
+import {
+  Directory,
+  EntryType,
+  ExistsAction,
+  File,
+  FileSystem,
+  FileSystemOptions,
+  HeadOptions,
+  Item,
+  NoParentAction,
+  NotExistAction,
+  PatchOptions,
+  Stats,
+  URLOptions,
+} from "../core";
+import { createError, isNotFoundError, NotFoundError } from "../errors";
+import { getName, getParentPath, getPathParts, joinPaths } from "../util";
+import { OverlayDirectory } from "./OverlayDirectory";
+import { OverlayFile } from "./OverlayFile";
+
+/** The prefix of a marker in the upper layer which hides the lower entry */
+export const WHITEOUT_PREFIX = ".wh.";
+/** The marker in an upper directory which hides all the lower children */
+export const OPAQUE_MARKER = ".wh..wh..opq";
+
+export interface OverlayLayer {
+  fs: FileSystem;
+  stats: Stats;
+}
+
+export class OverlayFileSystem extends AbstractFileSystem {
+  constructor(
+    repository: string,
+    public readonly lower: FileSystem,
+    public readonly upper: FileSystem,
+    options?: FileSystemOptions
+  ) {
+    super(repository, options);
+  }
+
+  /**
+   * Copies the entry from the lower layer up to the upper layer
+   * with its ancestor directories, unless the upper layer already has it.
+   */
+  public async _copyUp(path: string, isDirectory: boolean): Promise<void> {
+    const upper = this.upper;
+    if (await headIfExists(upper, path)) {
+      return;
+    }
+    await this._copyUpParent(path);
+
+    const hidden = await headIfExists(upper, getWhiteoutPath(path));
+    if (isDirectory) {
+      await upper.mkcol(path, {
+        onExists: ExistsAction.Skip,
+        onNoParent: NoParentAction.Error,
+      });
+      if (hidden) {
+        // The lower children must stay deleted.
+        await upper.write(joinPaths(path, OPAQUE_MARKER), EMPTY_UINT8_ARRAY);
+      }
+    } else if (await this._headLower(path)) {
+      const data = await this.lower.getFile(path).read();
+      await upper.write(path, data);
+    }
+    await this._removeWhiteout(path);
+  }
+
+  public async _copyUpParent(path: string): Promise<void> {
+    const parentPath = getParentPath(path);
+    if (parentPath === "/") {
+      return;
+    }
+    await this._findLayer(parentPath, { type: EntryType.Directory });
+    await this._copyUp(parentPath, true);
+  }
+
+  public _doGetDirectory(path: string): Directory {
+    return new OverlayDirectory(this, path);
+  }
+
+  public _doGetFile(path: string): File {
+    return new OverlayFile(this, path);
+  }
+
+  public async _doGetURL(
+    path: string,
+    _isDirectory: boolean,
+    options: URLOptions
+  ): Promise<string> {
+    const { fs } = await this._findLayer(path, options);
+    return fs.getURL(path, options);
+  }
+
+  public async _doHead(path: string, options: HeadOptions): Promise<Stats> {
+    const { stats } = await this._findLayer(path, options);
+    return stats;
+  }
+
+  public async _doPatch(
+    path: string,
+    stats: Stats,
+    props: Stats,
+    options: PatchOptions
+  ): Promise<void> {
+    await this._copyUp(path, stats.size == null);
+    await this.upper.patch(path, props, options);
+  }
+
+  /**
+   * Finds the upper entry, or the lower one unless it is whited out.
+   */
+  public async _findLayer(
+    path: string,
+    options?: HeadOptions
+  ): Promise<OverlayLayer> {
+    if (!getName(path).startsWith(WHITEOUT_PREFIX)) {
+      let stats = await headIfExists(this.upper, path, options);
+      if (stats) {
+        return { fs: this.upper, stats };
+      }
+      stats = await this._headLower(path, options);
+      if (stats) {
+        return { fs: this.lower, stats };
+      }
+    }
+    throw createError({
+      name: NotFoundError.name,
+      repository: this.repository,
+      path,
+    });
+  }
+
+  public async _headLower(
+    path: string,
+    options?: HeadOptions
+  ): Promise<Stats | undefined> {
+    const upper = this.upper;
+    let dirPath = "/";
+    for (const name of getPathParts(path)) {
+      if (
+        (await headIfExists(upper, joinPaths(dirPath, OPAQUE_MARKER))) ||
+        (await headIfExists(upper, joinPaths(dirPath, WHITEOUT_PREFIX + name)))
+      ) {
+        return undefined;
+      }
+      dirPath = joinPaths(dirPath, name);
+    }
+    return headIfExists(this.lower, path, options);
+  }
+
+  public async _listLayers(path: string): Promise<Item[]> {
+    const upperPaths = await listIfExists(this.upper, path);
+    let lowerPaths: string[] | undefined;
+    if (
+      (await this._headLower(path)) &&
+      !(upperPaths ?? []).some((p) => getName(p) === OPAQUE_MARKER)
+    ) {
+      lowerPaths = await listIfExists(this.lower, path);
+    }
+    if (!upperPaths && !lowerPaths) {
+      throw createError({
+        name: NotFoundError.name,
+        repository: this.repository,
+        path,
+      });
+    }
+
+    const names = new Set<string>();
+    const items: Item[] = [];
+    for (const upperPath of upperPaths ?? []) {
+      const name = getName(upperPath);
+      names.add(name);
+      if (!name.startsWith(WHITEOUT_PREFIX)) {
+        items.push({ path: joinPaths(path, name) });
+      }
+    }
+    for (const lowerPath of lowerPaths ?? []) {
+      const name = getName(lowerPath);
+      if (!names.has(name) && !names.has(WHITEOUT_PREFIX + name)) {
+        items.push({ path: joinPaths(path, name) });
+      }
+    }
+    return items;
+  }
+
+  public async _removeUpper(path: string, recursive = false): Promise<void> {
+    // FileSystem.delete() throws NotFoundError regardless of onNotExist.
+    if (await headIfExists(this.upper, path)) {
+      await this.upper.delete(path, {
+        onNotExist: NotExistAction.Ignore,
+        recursive,
+      });
+    }
+  }
+
+  public _removeWhiteout(path: string): Promise<void> {
+    return this._removeUpper(getWhiteoutPath(path));
+  }
+
+  /**
+   * Hides the lower entry by a whiteout marker.
+   */
+  public async _whiteout(path: string): Promise<void> {
+    if (!(await this._headLower(path))) {
+      return;
+    }
+    await this._copyUpParent(path);
+    await this.upper.write(getWhiteoutPath(path), EMPTY_UINT8_ARRAY);
+  }
+
+  public canPatchAccessed(): boolean {
+    return true;
+  }
+
+  public canPatchCreated(): boolean {
+    return true;
+  }
+
+  public canPatchModified(): boolean {
+    return true;
+  }
+
+  public supportDirectory(): boolean {
+    return true;
+  }
+}
+
+function getWhiteoutPath(path: string) {
+  return joinPaths(getParentPath(path), WHITEOUT_PREFIX + getName(path));
+}
+
+async function headIfExists(
+  fs: FileSystem,
+  path: string,
+  options?: HeadOptions
+): Promise<Stats | undefined> {
+  try {
+    return await fs.head(path, options);
+  } catch (e) {
+    if (isNotFoundError(e)) {
+      return undefined;
+    }
+    throw e;
+  }
+}
+
+async function listIfExists(
+  fs: FileSystem,
+  path: string
+): Promise<string[] | undefined> {
+  try {
+    return await fs.list(path);
+  } catch (e) {
+    if (isNotFoundError(e)) {
+      return undefined;
+    }
+    throw e;
+  }
+}
@@ -0,0 +1,3 @@
+export * from "./OverlayDirectory";
+export * from "./OverlayFile";
+export * from "./OverlayFileSystem";
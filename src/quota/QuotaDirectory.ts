@@ -0,0 +1,45 @@
+import { AbstractDirectory } from "../AbstractDirectory";
+import { Entry, Item, MoveOptions, NotExistAction } from "../core";
+import { FileSystemError } from "../errors";
+import { QuotaFileSystem } from "./QuotaFileSystem";
+
+export class QuotaDirectory extends AbstractDirectory {
+  constructor(private readonly qfs: QuotaFileSystem, path: string) {
+    super(qfs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    const qfs = this.qfs;
+    const path = this.path;
+    await qfs._modify(path, 0, -1, async () => {
+      await qfs.source.delete(path, {
+        onNotExist: NotExistAction.Error,
+        recursive: false,
+      });
+    });
+  }
+
+  public _doList(): Promise<Item[]> {
+    return this.qfs._list(this.path);
+  }
+
+  public async _doMkcol(): Promise<void> {
+    const qfs = this.qfs;
+    const path = this.path;
+    await qfs._modify(path, 0, 1, async () => {
+      await qfs.source.mkcol(path);
+    });
+  }
+
+  public override async move(
+    to: Entry,
+    options?: MoveOptions,
+    errors?: FileSystemError[]
+  ): Promise<boolean> {
+    const moved = await this.qfs._move(this, to, options, errors);
+    if (moved != null) {
+      return moved;
+    }
+    return super.move(to, options, errors);
+  }
+}
@@ -0,0 +1,77 @@
+import { Data } from "univ-conv";
+import { AbstractFile } from "../AbstractFile";
+import {
+  Entry,
+  MoveOptions,
+  NotExistAction,
+  ReadOptions,
+  Stats,
+  WriteOptions,
+} from "../core";
+import { FileSystemError } from "../errors";
+import { QuotaFileSystem } from "./QuotaFileSystem";
+
+export class QuotaFile extends AbstractFile {
+  constructor(private readonly qfs: QuotaFileSystem, path: string) {
+    super(qfs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    const qfs = this.qfs;
+    const path = this.path;
+    const stats = await qfs.source.head(path);
+    await qfs._modify(path, -(stats.size ?? 0), -1, async () => {
+      await qfs.source.delete(path, {
+        onNotExist: NotExistAction.Error,
+        recursive: false,
+      });
+    });
+  }
+
+  public _doRead(_stats: Stats, options: ReadOptions): Promise<Data> {
+    return this.qfs.source.getFile(this.path).read(undefined, options);
+  }
+
+  public async _doWrite(
+    data: Data,
+    stats: Stats | undefined | null,
+    options: WriteOptions
+  ): Promise<void> {
+    // The size must be known before writing.
+    const converter = this._getConverter();
+    const u8 = await converter.toUint8Array(data, {
+      ...options,
+      start: undefined,
+    });
+    const qfs = this.qfs;
+    const path = this.path;
+    const bytes = u8.byteLength - (stats?.size ?? 0);
+    await qfs._modify(path, bytes, stats ? 0 : 1, async () => {
+      await qfs.source.write(path, u8, { ...options, append: false });
+    });
+  }
+
+  public override async move(
+    to: Entry,
+    options?: MoveOptions,
+    errors?: FileSystemError[]
+  ): Promise<boolean> {
+    const moved = await this.qfs._move(this, to, options, errors);
+    if (moved != null) {
+      return moved;
+    }
+    return super.move(to, options, errors);
+  }
+
+  public supportAppend(): boolean {
+    return false;
+  }
+
+  public supportRangeRead(): boolean {
+    return true;
+  }
+
+  public supportRangeWrite(): boolean {
+    return false;
+  }
+}
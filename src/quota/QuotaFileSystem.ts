@@ -0,0 +1,332 @@
+import { AbstractEntry } from "../AbstractEntry";
+import { AbstractFileSystem } from "../AbstractFileSystem";
+import {
+  Directory,
+  Entry,
+  EntryType,
+  File,
+  FileSystem,
+  FileSystemOptions,
+  HeadOptions,
+  Item,
+  MoveOptions,
+  PatchOptions,
+  Stats,
+  URLOptions,
+} from "../core";
+import {
+  createError,
+  FileSystemError,
+  NoModificationAllowedError,
+  QuotaExceededError,
+} from "../errors";
+import { getParentPath, normalizePath } from "../util";
+import { QuotaDirectory } from "./QuotaDirectory";
+import { QuotaFile } from "./QuotaFile";
+
+export interface QuotaLimits {
+  maxBytes?: number;
+  maxEntries?: number;
+}
+
+export interface QuotaFileSystemOptions extends FileSystemOptions, QuotaLimits {
+  /** The limits of directory subtrees by the path */
+  limits?: { [path: string]: QuotaLimits };
+}
+
+export interface Usage {
+  /** The total size of the files */
+  bytes: number;
+  /** The number of the files and the directories */
+  entries: number;
+}
+
+/**
+ * Limits the bytes and the entries of the repository and directory subtrees.
+ * The usages are counted by scanning the source at first,
+ * so the source must not be modified except through this.
+ */
+export class QuotaFileSystem extends AbstractFileSystem {
+  private readonly limits = new Map<string, QuotaLimits>();
+  private usages?: Promise<Map<string, Usage>>;
+
+  constructor(
+    public readonly source: FileSystem,
+    options?: QuotaFileSystemOptions
+  ) {
+    super(source.repository, options);
+    for (const [path, limits] of Object.entries(options?.limits ?? {})) {
+      this.limits.set(normalizePath(path), limits);
+    }
+    this.limits.set("/", {
+      maxBytes: options?.maxBytes,
+      maxEntries: options?.maxEntries,
+    });
+  }
+
+  public _doGetDirectory(path: string): Directory {
+    return new QuotaDirectory(this, path);
+  }
+
+  public _doGetFile(path: string): File {
+    return new QuotaFile(this, path);
+  }
+
+  public _doGetURL(
+    path: string,
+    _isDirectory: boolean,
+    options: URLOptions
+  ): Promise<string> {
+    return this.source.getURL(path, options);
+  }
+
+  public _doHead(path: string, options: HeadOptions): Promise<Stats> {
+    return this.source.head(path, options);
+  }
+
+  public async _doPatch(
+    path: string,
+    _stats: Stats,
+    props: Stats,
+    options: PatchOptions
+  ): Promise<void> {
+    await this.source.patch(path, props, options);
+  }
+
+  public async _list(path: string): Promise<Item[]> {
+    const paths = await this.source.list(path);
+    return paths.map((p) => ({ path: p }));
+  }
+
+  /**
+   * Checks the limits of the directories which have the entry,
+   * then modifies the source and counts what it adds.
+   */
+  public _modify(
+    path: string,
+    bytes: number,
+    entries: number,
+    modify: () => Promise<void>
+  ): Promise<void> {
+    const deltas = new Map<string, Usage>();
+    for (const dir of getAncestors(path)) {
+      deltas.set(dir, { bytes, entries });
+    }
+    return this._change(path, deltas, modify);
+  }
+
+  /**
+   * Moves the entry on the source without copying,
+   * so that the directories which have both paths keep their usages.
+   * Returns undefined when the entry should be copied and deleted instead.
+   */
+  public async _move(
+    from: AbstractEntry,
+    to: Entry,
+    options?: MoveOptions,
+    errors?: FileSystemError[]
+  ): Promise<boolean | undefined> {
+    if (to.fs !== this || (this.options.hook && !options?.ignoreHook)) {
+      return undefined;
+    }
+    const source = this.source;
+    let usages: Map<string, Usage>;
+    try {
+      await from._validate(options);
+      // Overwriting and making the parents are left to copying.
+      if (
+        !(await source.head(getParentPath(to.path), undefined, [])) ||
+        (await source.head(to.path, undefined, []))
+      ) {
+        return undefined;
+      }
+
+      const stats = await source.head(from.path);
+      usages = await this._getUsages();
+      const usage: Usage =
+        stats.size == null
+          ? { bytes: 0, entries: 0, ...usages.get(from.path) }
+          : { bytes: stats.size, entries: 0 };
+      usage.entries++;
+
+      const fromDirs = getAncestors(from.path);
+      const toDirs = getAncestors(to.path);
+      const deltas = new Map<string, Usage>();
+      for (const dir of fromDirs) {
+        if (!toDirs.includes(dir)) {
+          deltas.set(dir, { bytes: -usage.bytes, entries: -usage.entries });
+        }
+      }
+      for (const dir of toDirs) {
+        if (!fromDirs.includes(dir)) {
+          deltas.set(dir, { ...usage });
+        }
+      }
+
+      await this._change(to.path, deltas, async () => {
+        await source.move(from.path, to.path, options);
+      });
+    } catch (e) {
+      await this._handleError(
+        { name: NoModificationAllowedError.name, path: from.path, e },
+        errors
+      );
+      return false;
+    }
+
+    // The usages of the directories follow the entry.
+    const prefix = from.path + "/";
+    for (const [dir, dirUsage] of [...usages]) {
+      if (dir === from.path || dir.startsWith(prefix)) {
+        usages.delete(dir);
+        usages.set(to.path + dir.substring(from.path.length), dirUsage);
+      }
+    }
+    return true;
+  }
+
+  public canPatchAccessed(): boolean {
+    return true;
+  }
+
+  public canPatchCreated(): boolean {
+    return true;
+  }
+
+  public canPatchModified(): boolean {
+    return true;
+  }
+
+  /**
+   * Returns the usage of the directory subtree.
+   */
+  public async getUsage(path: string): Promise<Usage> {
+    path = this._checkPath(path);
+    const usages = await this._getUsages();
+    await this.head(path, { type: EntryType.Directory });
+    return { ...(usages.get(path) ?? { bytes: 0, entries: 0 }) };
+  }
+
+  public supportDirectory(): boolean {
+    return this.source.supportDirectory();
+  }
+
+  /**
+   * Checks the limits, and reserves the increases before modifying the source,
+   * so that concurrent modifications cannot exceed them together.
+   * The decreases are counted after the source is modified.
+   */
+  private async _change(
+    path: string,
+    deltas: Map<string, Usage>,
+    modify: () => Promise<void>
+  ) {
+    const usages = await this._getUsages();
+    for (const [dir, delta] of deltas) {
+      const limits = this.limits.get(dir);
+      if (!limits) {
+        continue;
+      }
+      const usage = usages.get(dir) ?? { bytes: 0, entries: 0 };
+      let message: string | undefined;
+      if (
+        0 < delta.bytes &&
+        limits.maxBytes != null &&
+        limits.maxBytes < usage.bytes + delta.bytes
+      ) {
+        message = `"${dir}" exceeds ${limits.maxBytes} bytes`;
+      } else if (
+        0 < delta.entries &&
+        limits.maxEntries != null &&
+        limits.maxEntries < usage.entries + delta.entries
+      ) {
+        message = `"${dir}" exceeds ${limits.maxEntries} entries`;
+      }
+      if (message) {
+        throw createError({
+          name: QuotaExceededError.name,
+          repository: this.repository,
+          path,
+          message,
+        });
+      }
+    }
+
+    const reserved = new Map<string, Usage>();
+    for (const [dir, delta] of deltas) {
+      const increase: Usage = {
+        bytes: Math.max(delta.bytes, 0),
+        entries: Math.max(delta.entries, 0),
+      };
+      addUsage(usages, dir, increase);
+      reserved.set(dir, increase);
+    }
+    try {
+      await modify();
+    } catch (e) {
+      for (const [dir, increase] of reserved) {
+        addUsage(usages, dir, {
+          bytes: -increase.bytes,
+          entries: -increase.entries,
+        });
+      }
+      throw e;
+    }
+    for (const [dir, delta] of deltas) {
+      const increase = reserved.get(dir) as Usage;
+      addUsage(usages, dir, {
+        bytes: delta.bytes - increase.bytes,
+        entries: delta.entries - increase.entries,
+      });
+    }
+  }
+
+  private _getUsages() {
+    if (!this.usages) {
+      const usages = new Map<string, Usage>();
+      // Scans again next time if it fails.
+      this.usages = this._scan("/", usages).then(
+        () => usages,
+        (e) => {
+          this.usages = undefined;
+          throw e;
+        }
+      );
+    }
+    return this.usages;
+  }
+
+  private async _scan(path: string, usages: Map<string, Usage>) {
+    const source = this.source;
+    const usage: Usage = { bytes: 0, entries: 0 };
+    for (const child of await source.list(path)) {
+      const stats = await source.head(child);
+      usage.entries++;
+      if (stats.size == null) {
+        const sub = await this._scan(child, usages);
+        usage.bytes += sub.bytes;
+        usage.entries += sub.entries;
+      } else {
+        usage.bytes += stats.size;
+      }
+    }
+    usages.set(path, usage);
+    return usage;
+  }
+}
+
+function addUsage(usages: Map<string, Usage>, dir: string, delta: Usage) {
+  const usage = usages.get(dir) ?? { bytes: 0, entries: 0 };
+  usage.bytes += delta.bytes;
+  usage.entries += delta.entries;
+  usages.set(dir, usage);
+}
+
+function getAncestors(path: string) {
+  const dirs: string[] = [];
+  for (let dir = path; dir !== "/"; ) {
+    dir = getParentPath(dir);
+    dirs.push(dir);
+  }
+  return dirs;
+}
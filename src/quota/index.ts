@@ -0,0 +1,3 @@
+export * from "./QuotaDirectory";
+export * from "./QuotaFile";
+export * from "./QuotaFileSystem";
@@ -0,0 +1,47 @@
+import { AbstractDirectory } from "../AbstractDirectory";
+import { DeleteOptions, Entry, Item, MkcolOptions, MoveOptions } from "../core";
+import { FileSystemError } from "../errors";
+import { ReadOnlyFileSystem } from "./ReadOnlyFileSystem";
+
+export class ReadOnlyDirectory extends AbstractDirectory {
+  constructor(private readonly rofs: ReadOnlyFileSystem, path: string) {
+    super(rofs, path);
+  }
+
+  public _doDelete(): Promise<void> {
+    return Promise.reject(this.rofs._createReadOnlyError(this.path));
+  }
+
+  public _doList(): Promise<Item[]> {
+    return this.rofs._list(this.path);
+  }
+
+  public _doMkcol(): Promise<void> {
+    return Promise.reject(this.rofs._createReadOnlyError(this.path));
+  }
+
+  public override delete(
+    _options?: DeleteOptions,
+    errors?: FileSystemError[]
+  ): Promise<boolean> {
+    return this.rofs._reject(this.path, errors);
+  }
+
+  public override mkcol(
+    _options?: MkcolOptions,
+    errors?: FileSystemError[]
+  ): Promise<boolean> {
+    return this.rofs._reject(this.path, errors);
+  }
+
+  /**
+   * Rejects before copying, so that nothing is left at the destination.
+   */
+  public override move(
+    _to: Entry,
+    _options?: MoveOptions,
+    errors?: FileSystemError[]
+  ): Promise<boolean> {
+    return this.rofs._reject(this.path, errors);
+  }
+}
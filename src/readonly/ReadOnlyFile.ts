@@ -0,0 +1,68 @@
+import { Data } from "univ-conv";
+import { AbstractFile } from "../AbstractFile";
+import {
+  DeleteOptions,
+  Entry,
+  MoveOptions,
+  ReadOptions,
+  Stats,
+  WriteOptions,
+} from "../core";
+import { FileSystemError } from "../errors";
+import { ReadOnlyFileSystem } from "./ReadOnlyFileSystem";
+
+export class ReadOnlyFile extends AbstractFile {
+  constructor(private readonly rofs: ReadOnlyFileSystem, path: string) {
+    super(rofs, path);
+  }
+
+  public _doDelete(): Promise<void> {
+    return Promise.reject(this.rofs._createReadOnlyError(this.path));
+  }
+
+  public _doRead(_stats: Stats, options: ReadOptions): Promise<Data> {
+    return this.rofs._read(this.path, options);
+  }
+
+  public _doWrite(): Promise<void> {
+    return Promise.reject(this.rofs._createReadOnlyError(this.path));
+  }
+
+  public override _write(
+    _data: Data,
+    _options?: WriteOptions,
+    errors?: FileSystemError[]
+  ): Promise<boolean> {
+    return this.rofs._reject(this.path, errors);
+  }
+
+  public override delete(
+    _options?: DeleteOptions,
+    errors?: FileSystemError[]
+  ): Promise<boolean> {
+    return this.rofs._reject(this.path, errors);
+  }
+
+  /**
+   * Rejects before copying, so that nothing is left at the destination.
+   */
+  public override move(
+    _to: Entry,
+    _options?: MoveOptions,
+    errors?: FileSystemError[]
+  ): Promise<boolean> {
+    return this.rofs._reject(this.path, errors);
+  }
+
+  public supportAppend(): boolean {
+    return false;
+  }
+
+  public supportRangeRead(): boolean {
+    return true;
+  }
+
+  public supportRangeWrite(): boolean {
+    return false;
+  }
+}
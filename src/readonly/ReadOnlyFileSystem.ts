@@ -0,0 +1,153 @@
+import { Data } from "univ-conv";
+import { AbstractFileSystem } from "../AbstractFileSystem";
+import {
+  CopyOptions,
+  DeleteOptions,
+  Directory,
+  File,
+  FileSystem,
+  FileSystemOptions,
+  HeadOptions,
+  Item,
+  MkcolOptions,
+  PatchOptions,
+  ReadOptions,
+  Stats,
+  URLOptions,
+  WriteOptions,
+} from "../core";
+import {
+  createError,
+  FileSystemError,
+  NoModificationAllowedError,
+} from "../errors";
+import { ReadOnlyDirectory } from "./ReadOnlyDirectory";
+import { ReadOnlyFile } from "./ReadOnlyFile";
+
+/**
+ * Wraps a FileSystem and rejects every modification.
+ */
+export class ReadOnlyFileSystem extends AbstractFileSystem {
+  constructor(
+    private readonly source: FileSystem,
+    options?: FileSystemOptions
+  ) {
+    super(source.repository, options);
+  }
+
+  public _createReadOnlyError(path: string): FileSystemError {
+    return createError({
+      name: NoModificationAllowedError.name,
+      repository: this.repository,
+      path,
+      message: `"${this.repository}" is read-only`,
+    });
+  }
+
+  public _doGetDirectory(path: string): Directory {
+    return new ReadOnlyDirectory(this, path);
+  }
+
+  public _doGetFile(path: string): File {
+    return new ReadOnlyFile(this, path);
+  }
+
+  public async _doGetURL(
+    path: string,
+    _isDirectory: boolean,
+    options: URLOptions
+  ): Promise<string> {
+    if (options.method !== "GET") {
+      throw this._createReadOnlyError(path);
+    }
+    return this.source.getURL(path, options);
+  }
+
+  public _doHead(path: string, options: HeadOptions): Promise<Stats> {
+    return this.source.head(path, options);
+  }
+
+  public _doPatch(path: string): Promise<void> {
+    return Promise.reject(this._createReadOnlyError(path));
+  }
+
+  public async _list(path: string): Promise<Item[]> {
+    const paths = await this.source.list(path);
+    return paths.map((p) => ({ path: p }));
+  }
+
+  public _read(path: string, options: ReadOptions): Promise<Data> {
+    return this.source.getFile(path).read(undefined, options);
+  }
+
+  /**
+   * Rejects the modification of the path,
+   * whatever the source supports.
+   */
+  public async _reject(
+    path: string,
+    errors?: FileSystemError[]
+  ): Promise<boolean> {
+    await this._handleFileSystemError(this._createReadOnlyError(path), errors);
+    return false;
+  }
+
+  public canPatchAccessed(): boolean {
+    return false;
+  }
+
+  public canPatchCreated(): boolean {
+    return false;
+  }
+
+  public canPatchModified(): boolean {
+    return false;
+  }
+
+  public override copy(
+    _fromPath: string,
+    toPath: string,
+    _options?: CopyOptions,
+    errors?: FileSystemError[]
+  ): Promise<boolean> {
+    return this._reject(toPath, errors);
+  }
+
+  public override delete(
+    path: string,
+    _options?: DeleteOptions,
+    errors?: FileSystemError[]
+  ): Promise<boolean> {
+    return this._reject(path, errors);
+  }
+
+  public override mkcol(
+    path: string,
+    _options?: MkcolOptions,
+    errors?: FileSystemError[]
+  ): Promise<boolean> {
+    return this._reject(path, errors);
+  }
+
+  public override patch(
+    path: string,
+    _props: Stats,
+    _options?: PatchOptions,
+    errors?: FileSystemError[]
+  ): Promise<boolean> {
+    return this._reject(path, errors);
+  }
+
+  public supportDirectory(): boolean {
+    return this.source.supportDirectory();
+  }
+
+  public override write(
+    path: string,
+    _data: Data,
+    _options?: WriteOptions,
+    errors?: FileSystemError[]
+  ): Promise<boolean> {
+    return this._reject(path, errors);
+  }
+}
@@ -0,0 +1,3 @@
+export * from "./ReadOnlyDirectory";
+export * from "./ReadOnlyFile";
+export * from "./ReadOnlyFileSystem";
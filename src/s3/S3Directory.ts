@@ -0,0 +1,49 @@
+import { AbstractDirectory } from "../AbstractDirectory";
+import { Item } from "../core";
+import { InvalidModificationError } from "../errors";
+import { S3FileSystem } from "./S3FileSystem";
+
+export class S3Directory extends AbstractDirectory {
+  constructor(private readonly s3fs: S3FileSystem, path: string) {
+    super(s3fs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    const { items } = await this.s3fs._listObjects(this.path, {
+      "max-keys": "1",
+    });
+    if (0 < items.length) {
+      throw this._createError(InvalidModificationError.name, {
+        message: `"${this.path}" is not empty`,
+      });
+    }
+    // Removes the marker object if a client has created it.
+    await this.s3fs._fetch("DELETE", this.path, { isDirectory: true });
+  }
+
+  public async _doList(): Promise<Item[]> {
+    const items: Item[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const query: { [name: string]: string } = {};
+      if (continuationToken) {
+        query["continuation-token"] = continuationToken;
+      }
+      const result = await this.s3fs._listObjects(this.path, query);
+      items.push(...result.items);
+      continuationToken = result.continuationToken;
+    } while (continuationToken);
+    return items;
+  }
+
+  /**
+   * Never called by the core because S3 has no directories,
+   * but puts a marker object as other S3 clients do.
+   */
+  public async _doMkcol(): Promise<void> {
+    await this.s3fs._fetch("PUT", this.path, {
+      body: new Uint8Array(0),
+      isDirectory: true,
+    });
+  }
+}
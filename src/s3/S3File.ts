@@ -0,0 +1,91 @@
+import { Data } from "univ-conv";
+import { AbstractFile } from "../AbstractFile";
+import { ReadOptions, Stats, WriteOptions } from "../core";
+import { fetchRange } from "../util";
+import { S3FileSystem } from "./S3FileSystem";
+
+export class S3File extends AbstractFile {
+  constructor(private readonly s3fs: S3FileSystem, path: string) {
+    super(s3fs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    await this.s3fs._fetch("DELETE", this.path);
+  }
+
+  public _doRead(_stats: Stats, options: ReadOptions): Promise<Data> {
+    return fetchRange(options, (headers) =>
+      this.s3fs._fetch("GET", this.path, { headers })
+    );
+  }
+
+  public async _doWrite(
+    data: Data,
+    stats: Stats | undefined | null,
+    options: WriteOptions
+  ): Promise<void> {
+    const s3fs = this.s3fs;
+    const body = await this._getConverter().toUint8Array(data, options);
+    const headers = s3fs._toMetadata(stats ?? {});
+    if (body.byteLength <= s3fs.multipartThreshold) {
+      await s3fs._fetch("PUT", this.path, { body, headers });
+    } else {
+      await this._uploadMultipart(body, headers);
+    }
+  }
+
+  public supportAppend(): boolean {
+    return false;
+  }
+
+  public supportRangeRead(): boolean {
+    return true;
+  }
+
+  public supportRangeWrite(): boolean {
+    return false;
+  }
+
+  private async _uploadMultipart(
+    body: Uint8Array,
+    headers: { [name: string]: string }
+  ) {
+    const s3fs = this.s3fs;
+    const path = this.path;
+    const response = await s3fs._fetch("POST", path, {
+      headers,
+      query: { uploads: "" },
+    });
+    const match = /<UploadId>([^<]+)<\/UploadId>/.exec(await response.text());
+    const uploadId = match?.[1] as string;
+
+    try {
+      const parts: string[] = [];
+      for (let i = 0; i * s3fs.partSize < body.byteLength; i++) {
+        const start = i * s3fs.partSize;
+        const part = await s3fs._fetch("PUT", path, {
+          body: body.subarray(start, start + s3fs.partSize),
+          query: { partNumber: String(i + 1), uploadId },
+        });
+        const etag = part.headers.get("ETag") as string;
+        parts.push(
+          `<Part><PartNumber>${i + 1}</PartNumber><ETag>${etag}</ETag></Part>`
+        );
+      }
+
+      const xml = `<CompleteMultipartUpload>${parts.join(
+        ""
+      )}</CompleteMultipartUpload>`;
+      await s3fs._fetch("POST", path, {
+        body: new TextEncoder().encode(xml),
+        headers: { "Content-Type": "application/xml" },
+        query: { uploadId },
+      });
+    } catch (e) {
+      await s3fs
+        ._fetch("DELETE", path, { query: { uploadId } })
+        .catch(() => undefined);
+      throw e;
+    }
+  }
+}
@@ -0,0 +1,423 @@
+import { XMLParser } from "fast-xml-parser";
+import { AbstractFileSystem } from "../AbstractFileSystem";
+import {
+  Directory,
+  EntryType,
+  EXCLUDE_PROP_NAMES,
+  File,
+  FileSystemOptions,
+  Item,
+  Stats,
+  URLOptions,
+} from "../core";
+import {
+  createError,
+  FileSystemError,
+  InvalidStateError,
+  NetworkError,
+  NoModificationAllowedError,
+  NotAllowedError,
+  NotFoundError,
+  NotReadableError,
+  NotSupportedError,
+  PathExistError,
+  TimeoutError,
+} from "../errors";
+import { getFetch, getPathParts, normalizePath, toHex } from "../util";
+import { S3Directory } from "./S3Directory";
+import { S3File } from "./S3File";
+import {
+  EMPTY_PAYLOAD_HASH,
+  presignURL,
+  S3Credentials,
+  sha256,
+  signRequest,
+  uriEncode,
+} from "./sigv4";
+
+export interface S3FileSystemOptions extends FileSystemOptions {
+  credentials?: S3Credentials;
+  /** e.g. "http://localhost:9000" for MinIO. */
+  endpoint?: string;
+  /** Uses "endpoint/bucket/key" instead of "bucket.endpoint/key". */
+  forcePathStyle?: boolean;
+  /** Objects larger than this are uploaded by multipart. */
+  multipartThreshold?: number;
+  partSize?: number;
+  region?: string;
+}
+
+export type S3Method = "DELETE" | "GET" | "HEAD" | "POST" | "PUT";
+
+export interface S3Request {
+  body?: Uint8Array;
+  headers?: { [name: string]: string };
+  isDirectory?: boolean;
+  query?: { [name: string]: string };
+}
+
+const READ_METHODS: S3Method[] = ["GET", "HEAD"];
+
+const META_PREFIX = "x-amz-meta-";
+
+const DEFAULT_PART_SIZE = 8 * 1024 * 1024;
+const DEFAULT_EXPIRES = 24 * 60 * 60;
+
+const parser = new XMLParser({
+  parseTagValue: false,
+  isArray: (name) => name === "CommonPrefixes" || name === "Contents",
+});
+
+export class S3FileSystem extends AbstractFileSystem {
+  public readonly multipartThreshold: number;
+  public readonly partSize: number;
+
+  private readonly baseURL: string;
+  private readonly credentials?: S3Credentials;
+  private readonly region: string;
+
+  constructor(public readonly bucket: string, options?: S3FileSystemOptions) {
+    super(bucket, options);
+    this.credentials = options?.credentials;
+    this.region = options?.region ?? "us-east-1";
+    this.partSize = options?.partSize ?? DEFAULT_PART_SIZE;
+    this.multipartThreshold = options?.multipartThreshold ?? this.partSize;
+
+    const endpoint = new URL(
+      options?.endpoint ?? `https://s3.${this.region}.amazonaws.com`
+    );
+    if (options?.forcePathStyle) {
+      this.baseURL = `${endpoint.origin}/${uriEncode(bucket)}`;
+    } else {
+      this.baseURL = `${endpoint.protocol}//${bucket}.${endpoint.host}`;
+    }
+  }
+
+  public _doGetDirectory(path: string): Directory {
+    return new S3Directory(this, path);
+  }
+
+  public _doGetFile(path: string): File {
+    return new S3File(this, path);
+  }
+
+  public _doGetURL(
+    path: string,
+    isDirectory: boolean,
+    options: URLOptions
+  ): Promise<string> {
+    const method = options.method ?? "GET";
+    if (isDirectory || method === "POST") {
+      return Promise.reject(
+        createError({
+          name: NotSupportedError.name,
+          repository: this.repository,
+          path,
+          message: isDirectory
+            ? `"${path}" is a directory`
+            : `"${method}" is not supported`,
+        })
+      );
+    }
+    if (!this.credentials) {
+      return Promise.resolve(this._getURL(path).href);
+    }
+    return Promise.resolve(
+      presignURL(
+        method,
+        this._getURL(path),
+        options.expires ?? DEFAULT_EXPIRES,
+        this.credentials,
+        this.region
+      )
+    );
+  }
+
+  public async _doHead(path: string): Promise<Stats> {
+    if (path === "/") {
+      return {};
+    }
+
+    try {
+      const response = await this._fetch("HEAD", path);
+      return this._toStats(response);
+    } catch (e) {
+      if ((e as FileSystemError).name !== NotFoundError.name) {
+        throw e;
+      }
+    }
+
+    // A directory exists as long as some key has it as a prefix.
+    const { items } = await this._listObjects(path, { "max-keys": "1" });
+    if (items.length === 0) {
+      throw createError({
+        name: NotFoundError.name,
+        repository: this.repository,
+        path,
+      });
+    }
+    return {};
+  }
+
+  /**
+   * Object metadata cannot be modified in place, so the object is copied onto itself.
+   */
+  public async _doPatch(
+    path: string,
+    stats: Stats,
+    props: Stats
+  ): Promise<void> {
+    if (stats.size == null) {
+      throw createError({
+        name: NotSupportedError.name,
+        repository: this.repository,
+        path,
+        message: `Cannot patch the directory "${path}"`,
+      });
+    }
+
+    const copySource = `/${uriEncode(this.bucket)}/${this._getKey(path)
+      .split("/")
+      .map(uriEncode)
+      .join("/")}`;
+    await this._fetch("PUT", path, {
+      headers: {
+        ...this._toMetadata({ ...stats, ...props }),
+        "x-amz-copy-source": copySource,
+        "x-amz-metadata-directive": "REPLACE",
+      },
+    });
+  }
+
+  public _createError(
+    path: string,
+    method: S3Method,
+    status: number,
+    e?: unknown,
+    message?: string
+  ): FileSystemError {
+    let name: string;
+    switch (status) {
+      case 401:
+      case 403:
+        name = NotAllowedError.name;
+        break;
+      case 404:
+        name = NotFoundError.name;
+        break;
+      case 405:
+      case 501:
+        name = NotSupportedError.name;
+        break;
+      case 408:
+      case 504:
+        name = TimeoutError.name;
+        break;
+      case 409:
+        name = InvalidStateError.name;
+        break;
+      case 412:
+        name = PathExistError.name;
+        break;
+      default:
+        if (e) {
+          name = NetworkError.name;
+        } else if (READ_METHODS.includes(method)) {
+          name = NotReadableError.name;
+        } else {
+          name = NoModificationAllowedError.name;
+        }
+    }
+    return createError({
+      name,
+      repository: this.repository,
+      path,
+      method,
+      status,
+      message,
+      e,
+    });
+  }
+
+  public async _fetch(
+    method: S3Method,
+    path: string,
+    request: S3Request = {}
+  ): Promise<Response> {
+    const url = this._getURL(path, request.query, request.isDirectory);
+    let headers = { ...request.headers };
+    if (this.credentials) {
+      const payloadHash = request.body
+        ? toHex(sha256(request.body))
+        : EMPTY_PAYLOAD_HASH;
+      headers = signRequest(
+        { method, url, headers },
+        payloadHash,
+        this.credentials,
+        this.region
+      );
+    }
+
+    let response: Response;
+    try {
+      response = await getFetch()(url.href, {
+        method,
+        headers,
+        body: request.body,
+      });
+    } catch (e) {
+      throw this._createError(path, method, 0, e);
+    }
+    if (!response.ok) {
+      let message: string | undefined;
+      if (method !== "HEAD") {
+        const error = parser.parse(await response.text()) as {
+          Error?: { Code?: string; Message?: string };
+        };
+        if (error.Error?.Code) {
+          message = `${error.Error.Code}: ${error.Error.Message ?? ""}`;
+        }
+      }
+      throw this._createError(
+        path,
+        method,
+        response.status,
+        undefined,
+        message
+      );
+    }
+    return response;
+  }
+
+  public _getKey(path: string, isDirectory?: boolean) {
+    const key = getPathParts(path).join("/");
+    return isDirectory && key ? key + "/" : key;
+  }
+
+  public _getURL(
+    path: string,
+    query?: { [name: string]: string },
+    isDirectory?: boolean
+  ) {
+    const key = this._getKey(path, isDirectory);
+    const url = new URL(
+      this.baseURL + "/" + key.split("/").map(uriEncode).join("/")
+    );
+    for (const [name, value] of Object.entries(query ?? {})) {
+      url.searchParams.set(name, value);
+    }
+    return url;
+  }
+
+  /**
+   * Lists the objects and the common prefixes directly under the path.
+   */
+  public async _listObjects(
+    path: string,
+    query?: { [name: string]: string }
+  ): Promise<{ items: Item[]; continuationToken?: string }> {
+    const prefix = this._getKey(path, true);
+    const response = await this._fetch("GET", "/", {
+      query: { ...query, "list-type": "2", delimiter: "/", prefix },
+    });
+    const xml = parser.parse(await response.text()) as {
+      ListBucketResult: {
+        CommonPrefixes?: { Prefix: string }[];
+        Contents?: {
+          ETag?: string;
+          Key: string;
+          LastModified?: string;
+          Size: string;
+        }[];
+        IsTruncated?: string;
+        NextContinuationToken?: string;
+      };
+    };
+
+    const result = xml.ListBucketResult;
+    const items: Item[] = [];
+    for (const content of result.Contents ?? []) {
+      if (content.Key === prefix) {
+        continue; // Directory marker
+      }
+      items.push({
+        path: normalizePath(content.Key),
+        type: EntryType.File,
+        size: parseInt(content.Size, 10),
+        modified: content.LastModified
+          ? Date.parse(content.LastModified)
+          : undefined,
+        etag: content.ETag?.replace(/"/g, ""),
+      });
+    }
+    for (const commonPrefix of result.CommonPrefixes ?? []) {
+      items.push({
+        path: normalizePath(commonPrefix.Prefix),
+        type: EntryType.Directory,
+      });
+    }
+    return {
+      items,
+      continuationToken:
+        result.IsTruncated === "true"
+          ? result.NextContinuationToken
+          : undefined,
+    };
+  }
+
+  public _toMetadata(stats: Stats) {
+    const headers: { [name: string]: string } = {};
+    for (const [key, value] of Object.entries(stats)) {
+      if (EXCLUDE_PROP_NAMES.includes(key) || value == null) {
+        continue;
+      }
+      headers[META_PREFIX + key.toLowerCase()] = encodeURIComponent(
+        JSON.stringify(value)
+      );
+    }
+    return headers;
+  }
+
+  public canPatchAccessed(): boolean {
+    return false;
+  }
+
+  public canPatchCreated(): boolean {
+    return false;
+  }
+
+  public canPatchModified(): boolean {
+    return false;
+  }
+
+  public supportDirectory(): boolean {
+    return false;
+  }
+
+  private _toStats(response: Response): Stats {
+    const stats: Stats = {
+      size: parseInt(response.headers.get("Content-Length") ?? "0", 10),
+    };
+    const lastModified = response.headers.get("Last-Modified");
+    if (lastModified) {
+      stats.modified = Date.parse(lastModified);
+    }
+    const etag = response.headers.get("ETag");
+    if (etag) {
+      stats.etag = etag.replace(/"/g, "");
+    }
+    response.headers.forEach((value, name) => {
+      name = name.toLowerCase();
+      if (!name.startsWith(META_PREFIX)) {
+        return;
+      }
+      const key = name.substring(META_PREFIX.length);
+      try {
+        stats[key] = JSON.parse(decodeURIComponent(value)) as string;
+      } catch {
+        stats[key] = value;
+      }
+    });
+    return stats;
+  }
+}
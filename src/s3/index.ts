@@ -0,0 +1,4 @@
+export * from "./sigv4";
+export * from "./S3Directory";
+export * from "./S3File";
+export * from "./S3FileSystem";
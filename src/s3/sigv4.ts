@@ -0,0 +1,185 @@
+import { createHash } from "sha256-uint8array";
+import { toHex } from "../util";
+
+export const ALGORITHM = "AWS4-HMAC-SHA256";
+export const EMPTY_PAYLOAD_HASH =
+  "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855";
+export const UNSIGNED_PAYLOAD = "UNSIGNED-PAYLOAD";
+
+const BLOCK_SIZE = 64;
+const SERVICE = "s3";
+
+export interface S3Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+export interface SignRequest {
+  headers: { [name: string]: string };
+  method: string;
+  url: URL;
+}
+
+const encoder = new TextEncoder();
+
+function toBytes(data: string | Uint8Array) {
+  return typeof data === "string" ? encoder.encode(data) : data;
+}
+
+export function sha256(data: string | Uint8Array) {
+  return createHash().update(toBytes(data)).digest();
+}
+
+export function hmac(key: string | Uint8Array, data: string) {
+  let k = toBytes(key);
+  if (BLOCK_SIZE < k.byteLength) {
+    k = sha256(k);
+  }
+  const ipad = new Uint8Array(BLOCK_SIZE);
+  const opad = new Uint8Array(BLOCK_SIZE);
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    const b = k[i] ?? 0;
+    ipad[i] = b ^ 0x36;
+    opad[i] = b ^ 0x5c;
+  }
+  const inner = createHash().update(ipad).update(toBytes(data)).digest();
+  return createHash().update(opad).update(inner).digest();
+}
+
+/**
+ * Encodes a string as RFC 3986 requires, which is stricter than encodeURIComponent.
+ */
+export function uriEncode(str: string) {
+  return encodeURIComponent(str).replace(
+    /[!'()*]/g,
+    (c) => "%" + c.charCodeAt(0).toString(16).toUpperCase()
+  );
+}
+
+export function toAmzDate(date: Date) {
+  return date.toISOString().replace(/[:-]|\.\d{3}/g, "");
+}
+
+function getCanonicalQuery(url: URL) {
+  const params: [string, string][] = [];
+  url.searchParams.forEach((value, key) => {
+    params.push([uriEncode(key), uriEncode(value)]);
+  });
+  params.sort(([k1, v1], [k2, v2]) =>
+    k1 === k2 ? (v1 < v2 ? -1 : 1) : k1 < k2 ? -1 : 1
+  );
+  return params.map(([key, value]) => `${key}=${value}`).join("&");
+}
+
+function getScope(amzDate: string, region: string) {
+  return `${amzDate.substring(0, 8)}/${region}/${SERVICE}/aws4_request`;
+}
+
+function sign(
+  request: SignRequest,
+  payloadHash: string,
+  credentials: S3Credentials,
+  region: string,
+  amzDate: string
+) {
+  const headers: { [name: string]: string } = { host: request.url.host };
+  for (const [name, value] of Object.entries(request.headers)) {
+    headers[name.toLowerCase()] = value.trim().replace(/\s+/g, " ");
+  }
+  const names = Object.keys(headers).sort();
+  const signedHeaders = names.join(";");
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname, // Already encoded and never normalized for S3
+    getCanonicalQuery(request.url),
+    names.map((name) => `${name}:${headers[name] as string}\n`).join(""),
+    signedHeaders,
+    payloadHash,
+  ].join("\n");
+
+  const scope = getScope(amzDate, region);
+  const stringToSign = [
+    ALGORITHM,
+    amzDate,
+    scope,
+    toHex(sha256(canonicalRequest)),
+  ].join("\n");
+
+  let key = hmac("AWS4" + credentials.secretAccessKey, amzDate.substring(0, 8));
+  key = hmac(key, region);
+  key = hmac(key, SERVICE);
+  key = hmac(key, "aws4_request");
+  return { signature: toHex(hmac(key, stringToSign)), signedHeaders };
+}
+
+/**
+ * Adds the Authorization header and the x-amz-* headers it depends on.
+ */
+export function signRequest(
+  request: SignRequest,
+  payloadHash: string,
+  credentials: S3Credentials,
+  region: string,
+  date = new Date()
+) {
+  const amzDate = toAmzDate(date);
+  const headers: { [name: string]: string } = {
+    ...request.headers,
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": amzDate,
+  };
+  if (credentials.sessionToken) {
+    headers["x-amz-security-token"] = credentials.sessionToken;
+  }
+
+  const { signature, signedHeaders } = sign(
+    { ...request, headers },
+    payloadHash,
+    credentials,
+    region,
+    amzDate
+  );
+  const credential = `${credentials.accessKeyId}/${getScope(amzDate, region)}`;
+  headers[
+    "Authorization"
+  ] = `${ALGORITHM} Credential=${credential}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+  return headers;
+}
+
+/**
+ * Creates a presigned URL which is valid for `expires` seconds.
+ */
+export function presignURL(
+  method: string,
+  url: URL,
+  expires: number,
+  credentials: S3Credentials,
+  region: string,
+  date = new Date()
+) {
+  const amzDate = toAmzDate(date);
+  const presigned = new URL(url.href);
+  const params = presigned.searchParams;
+  params.set("X-Amz-Algorithm", ALGORITHM);
+  params.set(
+    "X-Amz-Credential",
+    `${credentials.accessKeyId}/${getScope(amzDate, region)}`
+  );
+  params.set("X-Amz-Date", amzDate);
+  params.set("X-Amz-Expires", String(expires));
+  params.set("X-Amz-SignedHeaders", "host");
+  if (credentials.sessionToken) {
+    params.set("X-Amz-Security-Token", credentials.sessionToken);
+  }
+
+  const { signature } = sign(
+    { method, url: presigned, headers: {} },
+    UNSIGNED_PAYLOAD,
+    credentials,
+    region,
+    amzDate
+  );
+  params.set("X-Amz-Signature", signature);
+  return presigned.href;
+}
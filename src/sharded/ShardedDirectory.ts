@@ -0,0 +1,45 @@
+import { AbstractDirectory } from "../AbstractDirectory";
+import { ExistsAction, Item, NoParentAction, NotExistAction } from "../core";
+import { isNotFoundError } from "../errors";
+import { ShardedFileSystem } from "./ShardedFileSystem";
+
+export class ShardedDirectory extends AbstractDirectory {
+  constructor(private readonly sfs: ShardedFileSystem, path: string) {
+    super(sfs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    const path = this.path;
+    await Promise.all(
+      this.sfs._getShards().map(async (fs) => {
+        // Some shards may not have it, e.g. the added ones.
+        try {
+          await fs.delete(path, {
+            onNotExist: NotExistAction.Error,
+            recursive: false,
+          });
+        } catch (e) {
+          if (!isNotFoundError(e)) {
+            throw e;
+          }
+        }
+      })
+    );
+  }
+
+  public _doList(): Promise<Item[]> {
+    return this.sfs._list(this.path);
+  }
+
+  public async _doMkcol(): Promise<void> {
+    const path = this.path;
+    await Promise.all(
+      this.sfs._getShards().map((fs) =>
+        fs.mkcol(path, {
+          onExists: ExistsAction.Skip,
+          onNoParent: NoParentAction.MakeParents,
+        })
+      )
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { Data } from "univ-conv";
+import { AbstractFile } from "../AbstractFile";
+import {
+  ExistsAction,
+  NoParentAction,
+  NotExistAction,
+  ReadOptions,
+  Stats,
+  WriteOptions,
+} from "../core";
+import { getParentPath } from "../util";
+import { ShardedFileSystem } from "./ShardedFileSystem";
+
+export class ShardedFile extends AbstractFile {
+  constructor(private readonly sfs: ShardedFileSystem, path: string) {
+    super(sfs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    const path = this.path;
+    const { fs } = await this.sfs._locate(path);
+    await fs.delete(path, {
+      onNotExist: NotExistAction.Error,
+      recursive: false,
+    });
+  }
+
+  public async _doRead(_stats: Stats, options: ReadOptions): Promise<Data> {
+    const path = this.path;
+    const { fs } = await this.sfs._locate(path);
+    return fs.getFile(path).read(undefined, options);
+  }
+
+  public async _doWrite(
+    data: Data,
+    stats: Stats | undefined | null,
+    options: WriteOptions
+  ): Promise<void> {
+    const sfs = this.sfs;
+    const path = this.path;
+    const owner = sfs._getOwner(path);
+    // The file not rebalanced yet is replaced by the one on the owner.
+    const located = stats ? await sfs._locate(path) : undefined;
+    if (owner.supportDirectory()) {
+      await owner.mkcol(getParentPath(path), {
+        onExists: ExistsAction.Skip,
+        onNoParent: NoParentAction.MakeParents,
+      });
+    }
+    await owner.write(path, data, { ...options, append: false });
+    if (located && located.fs !== owner) {
+      await located.fs.delete(path, {
+        onNotExist: NotExistAction.Error,
+        recursive: false,
+      });
+    }
+  }
+
+  public supportAppend(): boolean {
+    return false;
+  }
+
+  public supportRangeRead(): boolean {
+    return true;
+  }
+
+  public supportRangeWrite(): boolean {
+    return false;
+  }
+}
@@ -0,0 +1,297 @@
+import { createHash } from "sha256-uint8array";
+import { AbstractFileSystem } from "../AbstractFileSystem";
+import {
+  Directory,
+  ExistsAction,
+  File,
+  FileSystem,
+  FileSystemOptions,
+  HeadOptions,
+  Item,
+  NoParentAction,
+  NotExistAction,
+  PatchOptions,
+  Stats,
+  URLOptions,
+} from "../core";
+import { createError, isNotFoundError, NotFoundError } from "../errors";
+import { getParentPath } from "../util";
+import { ShardedDirectory } from "./ShardedDirectory";
+import { ShardedFile } from "./ShardedFile";
+
+export interface ShardedFileSystemOptions extends FileSystemOptions {
+  /** The number of the points of a shard on the hash ring, 100 by default */
+  virtualNodes?: number;
+}
+
+export interface ShardLocation {
+  fs: FileSystem;
+  stats: Stats;
+}
+
+interface RingPoint {
+  hash: number;
+  name: string;
+}
+
+const encoder = new TextEncoder();
+
+function hash(text: string) {
+  const digest = createHash().update(encoder.encode(text)).digest();
+  return new DataView(digest.buffer, digest.byteOffset).getUint32(0);
+}
+
+/**
+ * Distributes files over the named shards by consistent hashing of the path,
+ * while directories are on all of them.
+ * Until rebalance() moves them, files are also looked up on the other shards,
+ * including the removed ones.
+ */
+export class ShardedFileSystem extends AbstractFileSystem {
+  public readonly virtualNodes: number;
+
+  private readonly draining = new Map<string, FileSystem>();
+  private ring: RingPoint[] = [];
+  private readonly shards = new Map<string, FileSystem>();
+
+  constructor(
+    repository: string,
+    shards: { [name: string]: FileSystem },
+    options?: ShardedFileSystemOptions
+  ) {
+    super(repository, options);
+    this.virtualNodes = options?.virtualNodes ?? 100;
+    for (const [name, fs] of Object.entries(shards)) {
+      this.shards.set(name, fs);
+    }
+    if (this.shards.size === 0) {
+      throw new RangeError("No shards");
+    }
+    this._buildRing();
+  }
+
+  public _doGetDirectory(path: string): Directory {
+    return new ShardedDirectory(this, path);
+  }
+
+  public _doGetFile(path: string): File {
+    return new ShardedFile(this, path);
+  }
+
+  public async _doGetURL(
+    path: string,
+    _isDirectory: boolean,
+    options: URLOptions
+  ): Promise<string> {
+    const { fs } = await this._locate(path, options);
+    return fs.getURL(path, options);
+  }
+
+  public async _doHead(path: string, options: HeadOptions): Promise<Stats> {
+    const { stats } = await this._locate(path, options);
+    return stats;
+  }
+
+  public async _doPatch(
+    path: string,
+    stats: Stats,
+    props: Stats,
+    options: PatchOptions
+  ): Promise<void> {
+    if (stats.size == null) {
+      await Promise.all(
+        this._getShards().map((fs) =>
+          ignoreNotFound(fs.patch(path, props, options))
+        )
+      );
+    } else {
+      const { fs } = await this._locate(path, options);
+      await fs.patch(path, props, options);
+    }
+  }
+
+  public _getOwner(path: string): FileSystem {
+    const ring = this.ring;
+    const h = hash(path);
+    let lo = 0;
+    let hi = ring.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if ((ring[mid] as RingPoint).hash < h) {
+        lo = mid + 1;
+      } else {
+        hi = mid;
+      }
+    }
+    const point = ring[lo === ring.length ? 0 : lo] as RingPoint;
+    return this.shards.get(point.name) as FileSystem;
+  }
+
+  /**
+   * Returns the shards, followed by the removed ones not rebalanced yet.
+   */
+  public _getShards(): FileSystem[] {
+    return [...this.shards.values(), ...this.draining.values()];
+  }
+
+  public async _list(path: string): Promise<Item[]> {
+    const lists = await Promise.all(
+      this._getShards().map((fs) => ignoreNotFound(fs.list(path)))
+    );
+    const paths = new Set<string>();
+    for (const list of lists) {
+      for (const p of list ?? []) {
+        paths.add(p);
+      }
+    }
+    return Array.from(paths).map((p) => ({ path: p }));
+  }
+
+  /**
+   * Finds the entry on the owner shard, then on the others.
+   */
+  public async _locate(
+    path: string,
+    options?: HeadOptions
+  ): Promise<ShardLocation> {
+    const owner = this._getOwner(path);
+    const others = this._getShards().filter((fs) => fs !== owner);
+    for (const fs of [owner, ...others]) {
+      const stats = await ignoreNotFound(fs.head(path, options));
+      if (stats) {
+        return { fs, stats };
+      }
+    }
+    throw createError({
+      name: NotFoundError.name,
+      repository: this.repository,
+      path,
+    });
+  }
+
+  /**
+   * Moves the file to the owner shard with its props.
+   */
+  public async _relocate(
+    from: FileSystem,
+    path: string,
+    stats: Stats
+  ): Promise<void> {
+    const to = this._getOwner(path);
+    if (to.supportDirectory()) {
+      await to.mkcol(getParentPath(path), {
+        onExists: ExistsAction.Skip,
+        onNoParent: NoParentAction.MakeParents,
+      });
+    }
+    const data = await from.getFile(path).read();
+    await to.write(path, data);
+    const props: Stats = { ...stats };
+    delete props.size;
+    delete props.etag;
+    await to.patch(path, props);
+    await from.delete(path, {
+      onNotExist: NotExistAction.Error,
+      recursive: false,
+    });
+  }
+
+  public addShard(name: string, fs: FileSystem): void {
+    if (this.shards.has(name)) {
+      throw new Error(`Shard "${name}" has already existed`);
+    }
+    this.draining.delete(name);
+    this.shards.set(name, fs);
+    this._buildRing();
+  }
+
+  public canPatchAccessed(): boolean {
+    return true;
+  }
+
+  public canPatchCreated(): boolean {
+    return true;
+  }
+
+  public canPatchModified(): boolean {
+    return true;
+  }
+
+  /**
+   * Moves the files which are not on their owner shards,
+   * and forgets the removed shards. Returns the number of the moved files.
+   */
+  public async rebalance(): Promise<number> {
+    let moved = 0;
+    for (const fs of this._getShards()) {
+      moved += await this._rebalanceDirectory(fs, "/");
+    }
+    this.draining.clear();
+    return moved;
+  }
+
+  /**
+   * Removes the shard from the hash ring,
+   * its files remain available until rebalance().
+   */
+  public removeShard(name: string): void {
+    const fs = this.shards.get(name);
+    if (!fs) {
+      throw new Error(`Shard "${name}" is not found`);
+    }
+    if (this.shards.size === 1) {
+      throw new RangeError("The last shard cannot be removed");
+    }
+    this.shards.delete(name);
+    this.draining.set(name, fs);
+    this._buildRing();
+  }
+
+  public supportDirectory(): boolean {
+    return this._getShards().every((fs) => fs.supportDirectory());
+  }
+
+  private _buildRing() {
+    const ring: RingPoint[] = [];
+    for (const name of this.shards.keys()) {
+      for (let i = 0; i < this.virtualNodes; i++) {
+        ring.push({ hash: hash(`${name}#${i}`), name });
+      }
+    }
+    this.ring = ring.sort((a, b) => a.hash - b.hash);
+  }
+
+  private async _rebalanceDirectory(fs: FileSystem, path: string) {
+    let moved = 0;
+    for (const child of await fs.list(path)) {
+      const stats = await fs.head(child);
+      if (stats.size == null) {
+        // Directories are on all the shards.
+        await Promise.all(
+          Array.from(this.shards.values()).map((shard) =>
+            shard.mkcol(child, {
+              onExists: ExistsAction.Skip,
+              onNoParent: NoParentAction.MakeParents,
+            })
+          )
+        );
+        moved += await this._rebalanceDirectory(fs, child);
+      } else if (this._getOwner(child) !== fs) {
+        await this._relocate(fs, child, stats);
+        moved++;
+      }
+    }
+    return moved;
+  }
+}
+
+async function ignoreNotFound<T>(promise: Promise<T>) {
+  try {
+    return await promise;
+  } catch (e) {
+    if (isNotFoundError(e)) {
+      return undefined;
+    }
+    throw e;
+  }
+}
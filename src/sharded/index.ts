@@ -0,0 +1,3 @@
+export * from "./ShardedDirectory";
+export * from "./ShardedFile";
+export * from "./ShardedFileSystem";
@@ -0,0 +1,85 @@
+import { AbstractDirectory } from "../AbstractDirectory";
+import { DeleteOptions, Entry, Item, MoveOptions } from "../core";
+import { FileSystemError, InvalidModificationError } from "../errors";
+import { getParentPath } from "../util";
+import { SqliteFileSystem } from "./SqliteFileSystem";
+
+export class SqliteDirectory extends AbstractDirectory {
+  constructor(private readonly sfs: SqliteFileSystem, path: string) {
+    super(sfs, path);
+  }
+
+  /**
+   * Deletes the whole tree in a single transaction
+   * unless a hook has to see each entry.
+   */
+  public override async _deleteExisting(
+    options: DeleteOptions,
+    errors?: FileSystemError[]
+  ): Promise<boolean> {
+    if (!options.recursive || (this.fs.options.hook && !options.ignoreHook)) {
+      return super._deleteExisting(options, errors);
+    }
+
+    const path = this.path;
+    await this.sfs._transact(path, true, (db) => {
+      const entry = this.sfs._getEntry(db, path);
+      if (entry.size != null) {
+        throw this._createTypeMismatchError({
+          message: `"${path}" is not a directory`,
+        });
+      }
+      this.sfs._removeTree(db, path);
+    });
+    return true;
+  }
+
+  public _doDelete(): Promise<void> {
+    const path = this.path;
+    return this.sfs._transact(path, true, (db) => {
+      this.sfs._getEntry(db, path);
+      if (0 < this.sfs._listEntries(db, path).length) {
+        throw this._createError(InvalidModificationError.name, {
+          message: `"${path}" is not empty`,
+        });
+      }
+      this.sfs._removeTree(db, path);
+    });
+  }
+
+  public _doList(): Promise<Item[]> {
+    const path = this.path;
+    return this.sfs._transact(path, false, (db) => {
+      this.sfs._getEntry(db, path);
+      return this.sfs._listEntries(db, path);
+    });
+  }
+
+  public _doMkcol(): Promise<void> {
+    const path = this.path;
+    return this.sfs._transact(path, true, (db) => {
+      this.sfs._getParentEntry(db, path);
+      const now = Date.now();
+      db.run(
+        "INSERT INTO entries (path, parent, created, modified, accessed) VALUES (?, ?, ?, ?, ?)",
+        [path, getParentPath(path), now, now, now]
+      );
+      this.sfs._touch(db, getParentPath(path));
+    });
+  }
+
+  /**
+   * Renames the directory with all its descendants in a single transaction if possible.
+   */
+  public override async move(
+    to: Entry,
+    options?: MoveOptions,
+    errors?: FileSystemError[]
+  ): Promise<boolean> {
+    const moved = await this.sfs._move(this, to, options, errors);
+    if (moved != null) {
+      return moved;
+    }
+    return super.move(to, options, errors);
+  }
+}
@@ -0,0 +1,179 @@
+import { Data, EMPTY_UINT8_ARRAY } from "univ-conv";
+import { AbstractFile } from "../AbstractFile";
+import { Entry, MoveOptions, ReadOptions, Stats, WriteOptions } from "../core";
+import { FileSystemError } from "../errors";
+import { getParentPath } from "../util";
+import { selectAll, selectOne, SQLITE_CHUNK_SIZE } from "./sqlite";
+import { SqliteFileSystem } from "./SqliteFileSystem";
+
+interface ChunkRow {
+  data: Uint8Array;
+  idx: number;
+}
+
+export class SqliteFile extends AbstractFile {
+  constructor(private readonly sfs: SqliteFileSystem, path: string) {
+    super(sfs, path);
+  }
+
+  public _doDelete(): Promise<void> {
+    const path = this.path;
+    return this.sfs._transact(path, true, (db) => {
+      const entry = this.sfs._getEntry(db, path);
+      if (entry.size == null) {
+        throw this._createTypeMismatchError({
+          message: `"${path}" is not a file`,
+        });
+      }
+      this.sfs._removeTree(db, path);
+    });
+  }
+
+  public async _doRead(stats: Stats, options: ReadOptions): Promise<Data> {
+    const size = stats.size ?? 0;
+    const start = Math.min(options.start ?? 0, size);
+    const end =
+      options.length == null ? size : Math.min(start + options.length, size);
+    if (end <= start) {
+      return EMPTY_UINT8_ARRAY;
+    }
+
+    const path = this.path;
+    return this.sfs._transact(path, false, (db) => {
+      const chunks = selectAll<ChunkRow>(
+        db,
+        "SELECT idx, data FROM chunks WHERE path = ? AND idx BETWEEN ? AND ? ORDER BY idx",
+        [
+          path,
+          Math.floor(start / SQLITE_CHUNK_SIZE),
+          Math.floor((end - 1) / SQLITE_CHUNK_SIZE),
+        ]
+      );
+
+      const u8 = new Uint8Array(end - start);
+      for (const { idx, data } of chunks) {
+        const chunkStart = idx * SQLITE_CHUNK_SIZE;
+        const from = Math.max(start, chunkStart);
+        const to = Math.min(end, chunkStart + data.byteLength);
+        if (from < to) {
+          u8.set(
+            data.subarray(from - chunkStart, to - chunkStart),
+            from - start
+          );
+        }
+      }
+      return u8;
+    });
+  }
+
+  public async _doWrite(
+    data: Data,
+    _stats: Stats | undefined | null,
+    options: WriteOptions
+  ): Promise<void> {
+    const converter = this._getConverter();
+    const u8 = await converter.toUint8Array(data, {
+      ...options,
+      start: undefined,
+    });
+
+    const path = this.path;
+    const sfs = this.sfs;
+    await sfs._transact(path, true, (db) => {
+      sfs._getParentEntry(db, path);
+      const current = selectOne<{ size: number | null }>(
+        db,
+        "SELECT size FROM entries WHERE path = ?",
+        [path]
+      );
+      if (current && current.size == null) {
+        throw this._createTypeMismatchError({
+          message: `"${path}" is not a file`,
+        });
+      }
+
+      let size = current?.size ?? 0;
+      let start: number;
+      const overwrite = !options.append && options.start == null;
+      if (overwrite) {
+        start = 0;
+        size = 0;
+        db.run("DELETE FROM chunks WHERE path = ?", [path]);
+      } else if (options.append) {
+        start = size;
+      } else {
+        start = options.start as number;
+      }
+      const end = start + u8.byteLength;
+      size = Math.max(size, end);
+
+      const now = Date.now();
+      db.run(
+        `INSERT INTO entries (path, parent, size, created, modified, accessed)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (path) DO UPDATE SET
+           size = excluded.size, modified = excluded.modified, accessed = excluded.accessed`,
+        [path, getParentPath(path), size, now, now, now]
+      );
+      if (!current) {
+        sfs._touch(db, getParentPath(path));
+      }
+
+      if (u8.byteLength === 0) {
+        return;
+      }
+      const first = Math.floor(start / SQLITE_CHUNK_SIZE);
+      const last = Math.floor((end - 1) / SQLITE_CHUNK_SIZE);
+      for (let i = first; i <= last; i++) {
+        const chunkStart = i * SQLITE_CHUNK_SIZE;
+        const chunk = new Uint8Array(
+          Math.min(SQLITE_CHUNK_SIZE, size - chunkStart)
+        );
+        if (!overwrite) {
+          const prev = selectOne<ChunkRow>(
+            db,
+            "SELECT data FROM chunks WHERE path = ? AND idx = ?",
+            [path, i]
+          );
+          if (prev) {
+            chunk.set(prev.data.subarray(0, chunk.byteLength));
+          }
+        }
+        const from = Math.max(start, chunkStart);
+        const to = Math.min(end, chunkStart + chunk.byteLength);
+        chunk.set(u8.subarray(from - start, to - start), from - chunkStart);
+        db.run(
+          "INSERT OR REPLACE INTO chunks (path, idx, data) VALUES (?, ?, ?)",
+          [path, i, chunk]
+        );
+      }
+    });
+  }
+
+  /**
+   * Renames the file in a single transaction if possible.
+   */
+  public override async move(
+    to: Entry,
+    options?: MoveOptions,
+    errors?: FileSystemError[]
+  ): Promise<boolean> {
+    const moved = await this.sfs._move(this, to, options, errors);
+    if (moved != null) {
+      return moved;
+    }
+    return super.move(to, options, errors);
+  }
+
+  public supportAppend(): boolean {
+    return true;
+  }
+
+  public supportRangeRead(): boolean {
+    return true;
+  }
+
+  public supportRangeWrite(): boolean {
+    return true;
+  }
+}
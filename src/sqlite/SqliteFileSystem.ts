@@ -0,0 +1,414 @@
+import initSqlJs, { Database, SqlJsConfig } from "sql.js";
+import { Data, DEFAULT_CONVERTER, isBrowser } from "univ-conv";
+import { AbstractEntry } from "../AbstractEntry";
+import { AbstractFileSystem } from "../AbstractFileSystem";
+import {
+  Directory,
+  Entry,
+  EntryType,
+  EXCLUDE_PROP_NAMES,
+  File,
+  FileSystem,
+  FileSystemOptions,
+  Item,
+  MoveOptions,
+  Stats,
+  URLOptions,
+} from "../core";
+import {
+  createError,
+  DataError,
+  FileSystemError,
+  isFileSystemError,
+  isNotFoundError,
+  NoModificationAllowedError,
+  NotFoundError,
+  NotReadableError,
+  NotSupportedError,
+  PathExistError,
+  TypeMismatchError,
+} from "../errors";
+import { getParentPath } from "../util";
+import {
+  descendantsPattern,
+  selectAll,
+  selectOne,
+  SQLITE_SCHEMA,
+  SqliteEntry,
+  toStats,
+} from "./sqlite";
+import { SqliteDirectory } from "./SqliteDirectory";
+import { SqliteFile } from "./SqliteFile";
+
+export interface SqliteSource {
+  fs: FileSystem;
+  path: string;
+}
+
+export interface SqliteFileSystemOptions extends FileSystemOptions {
+  /** Passed to initSqlJs(), e.g. `locateFile` to find sql-wasm.wasm in browsers. */
+  sqlJsConfig?: SqlJsConfig;
+}
+
+function isSqliteSource(source: unknown): source is SqliteSource {
+  return (
+    typeof source === "object" &&
+    source != null &&
+    "fs" in source &&
+    "path" in source
+  );
+}
+
+export class SqliteFileSystem extends AbstractFileSystem {
+  private loading?: Promise<Database>;
+  private readonly sqlJsConfig?: SqlJsConfig;
+
+  constructor(
+    repository: string,
+    private source?: Data | SqliteSource,
+    options?: SqliteFileSystemOptions
+  ) {
+    super(repository, options);
+    this.sqlJsConfig = options?.sqlJsConfig;
+  }
+
+  public _doGetDirectory(path: string): Directory {
+    return new SqliteDirectory(this, path);
+  }
+
+  public _doGetFile(path: string): File {
+    return new SqliteFile(this, path);
+  }
+
+  public async _doGetURL(
+    path: string,
+    isDirectory: boolean,
+    options: URLOptions
+  ): Promise<string> {
+    if (isDirectory) {
+      throw createError({
+        name: NotSupportedError.name,
+        repository: this.repository,
+        path,
+        message: `"${path}" is a directory`,
+      });
+    }
+    if (options.method !== "GET") {
+      throw createError({
+        name: NotSupportedError.name,
+        repository: this.repository,
+        path,
+        message: `"${options.method as string}" is not supported`,
+      });
+    }
+
+    const file = this.getFile(path);
+    const u8 = await file.read("uint8array");
+    return DEFAULT_CONVERTER.toURL(u8, {
+      dstURLType: isBrowser ? "blob" : "data",
+    });
+  }
+
+  public _doHead(path: string): Promise<Stats> {
+    return this._transact(path, false, (db) =>
+      toStats(this._getEntry(db, path))
+    );
+  }
+
+  public _doPatch(path: string, _stats: Stats, props: Stats): Promise<void> {
+    return this._transact(path, true, (db) => {
+      const entry = this._getEntry(db, path);
+      const custom = JSON.parse(entry.props) as Stats;
+      for (const [key, value] of Object.entries(props)) {
+        if (!EXCLUDE_PROP_NAMES.includes(key)) {
+          custom[key] = value;
+        }
+      }
+      db.run(
+        "UPDATE entries SET created = ?, modified = ?, accessed = ?, props = ? WHERE path = ?",
+        [
+          props.created ?? entry.created,
+          props.modified ?? entry.modified,
+          props.accessed ?? entry.accessed,
+          JSON.stringify(custom),
+          path,
+        ]
+      );
+    });
+  }
+
+  public _error(path: string, e: unknown, write: boolean): FileSystemError {
+    if (isFileSystemError(e)) {
+      return e;
+    }
+    const message = (e as Error)?.message;
+    let name: string;
+    if (/UNIQUE constraint failed/.test(message)) {
+      name = PathExistError.name;
+    } else if (/FOREIGN KEY constraint failed/.test(message)) {
+      name = NotFoundError.name;
+    } else {
+      name = write ? NoModificationAllowedError.name : NotReadableError.name;
+    }
+    return createError({
+      name,
+      repository: this.repository,
+      path,
+      message,
+      e,
+    });
+  }
+
+  public _getEntry(db: Database, path: string): SqliteEntry {
+    const entry = selectOne<SqliteEntry>(
+      db,
+      "SELECT * FROM entries WHERE path = ?",
+      [path]
+    );
+    if (!entry) {
+      throw createError({
+        name: NotFoundError.name,
+        repository: this.repository,
+        path,
+      });
+    }
+    return entry;
+  }
+
+  public _getParentEntry(db: Database, path: string): SqliteEntry {
+    const parentPath = getParentPath(path);
+    const parent = this._getEntry(db, parentPath);
+    if (parent.size != null) {
+      throw createError({
+        name: TypeMismatchError.name,
+        repository: this.repository,
+        path: parentPath,
+        message: `"${parentPath}" is not a directory`,
+      });
+    }
+    return parent;
+  }
+
+  public _listEntries(db: Database, path: string): Item[] {
+    const entries = selectAll<SqliteEntry>(
+      db,
+      "SELECT * FROM entries WHERE parent = ? ORDER BY path",
+      [path]
+    );
+    return entries.map((entry) => ({
+      ...toStats(entry),
+      path: entry.path,
+      type: entry.size == null ? EntryType.Directory : EntryType.File,
+    }));
+  }
+
+  /**
+   * Renames the entry and its descendants in a single transaction
+   * when the destination is free and no hook has to see each entry.
+   * Returns undefined when the core should copy and delete instead,
+   * so that onExists and onNoParent are handled as usual.
+   */
+  public async _move(
+    from: AbstractEntry,
+    to: Entry,
+    options?: MoveOptions,
+    errors?: FileSystemError[]
+  ): Promise<boolean | undefined> {
+    options = { ...this.defaultMoveOptions, ...options };
+    if (to.fs !== this || (this.options.hook && !options.ignoreHook)) {
+      return undefined;
+    }
+    try {
+      await from._validate(options);
+      const renamed = await this._transact(from.path, true, (db) =>
+        this._rename(db, from.path, to.path)
+      );
+      return renamed ? true : undefined;
+    } catch (e) {
+      await this._handleError(
+        { name: NoModificationAllowedError.name, path: from.path, e },
+        errors
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Deletes the entry and all its descendants with a single statement.
+   */
+  public _removeTree(db: Database, path: string) {
+    db.run(
+      "DELETE FROM entries WHERE (path = ? OR path LIKE ? ESCAPE '\\') AND path <> '/'",
+      [path, descendantsPattern(path)]
+    );
+    this._touch(db, getParentPath(path));
+  }
+
+  public _touch(db: Database, path: string) {
+    db.run("UPDATE entries SET modified = ? WHERE path = ?", [
+      Date.now(),
+      path,
+    ]);
+  }
+
+  /**
+   * Runs the callback in a transaction, which is rolled back if the callback throws.
+   * The callback is synchronous, so no other operation can interleave.
+   */
+  public async _transact<T>(
+    path: string,
+    write: boolean,
+    callback: (db: Database) => T
+  ): Promise<T> {
+    const db = await this._load();
+    if (!write) {
+      try {
+        return callback(db);
+      } catch (e) {
+        throw this._error(path, e, false);
+      }
+    }
+
+    db.run("BEGIN");
+    try {
+      const result = callback(db);
+      db.run("COMMIT");
+      return result;
+    } catch (e) {
+      db.run("ROLLBACK");
+      throw this._error(path, e, true);
+    }
+  }
+
+  public canPatchAccessed(): boolean {
+    return true;
+  }
+
+  public canPatchCreated(): boolean {
+    return true;
+  }
+
+  public canPatchModified(): boolean {
+    return true;
+  }
+
+  public async close() {
+    if (!this.loading) {
+      return;
+    }
+    const db = await this.loading;
+    this.loading = undefined;
+    db.close();
+  }
+
+  /**
+   * Exports the database file.
+   * When the database is a file on another FileSystem, it is overwritten.
+   */
+  public async flush(): Promise<Uint8Array> {
+    const db = await this._load();
+    const u8 = db.export();
+    // export() reopens the database, which resets pragmas.
+    db.run("PRAGMA foreign_keys = ON");
+    if (isSqliteSource(this.source)) {
+      await this.source.fs.write(this.source.path, u8);
+    } else {
+      this.source = u8;
+    }
+    return u8;
+  }
+
+  public supportDirectory(): boolean {
+    return true;
+  }
+
+  private async _doLoad(): Promise<Database> {
+    const source = this.source;
+    let u8: Uint8Array | undefined;
+    if (isSqliteSource(source)) {
+      try {
+        u8 = await source.fs.read(source.path, "uint8array");
+      } catch (e) {
+        if (!isNotFoundError(e)) {
+          throw e;
+        }
+      }
+    } else if (source != null) {
+      u8 = await DEFAULT_CONVERTER.toUint8Array(source);
+    }
+
+    const SQL = await initSqlJs(this.sqlJsConfig);
+    let db: Database | undefined;
+    try {
+      db = new SQL.Database(u8);
+      db.run("PRAGMA foreign_keys = ON");
+      db.run(SQLITE_SCHEMA);
+      const now = Date.now();
+      db.run(
+        "INSERT OR IGNORE INTO entries (path, parent, created, modified, accessed) VALUES ('/', NULL, ?, ?, ?)",
+        [now, now, now]
+      );
+      return db;
+    } catch (e) {
+      db?.close();
+      throw createError({
+        name: DataError.name,
+        repository: this.repository,
+        path: "/",
+        message: (e as Error).message,
+        e,
+      });
+    }
+  }
+
+  private _load() {
+    if (!this.loading) {
+      // Loads again next time if it fails.
+      this.loading = this._doLoad().catch((e) => {
+        this.loading = undefined;
+        throw e;
+      });
+    }
+    return this.loading;
+  }
+
+  private _rename(db: Database, from: string, to: string): boolean {
+    if (from === "/" || to === from || to.startsWith(from + "/")) {
+      return false;
+    }
+    this._getEntry(db, from);
+    const toParent = selectOne<SqliteEntry>(
+      db,
+      "SELECT * FROM entries WHERE path = ?",
+      [getParentPath(to)]
+    );
+    if (!toParent || toParent.size != null) {
+      return false;
+    }
+    if (selectOne(db, "SELECT path FROM entries WHERE path = ?", [to])) {
+      return false;
+    }
+
+    // Chunks follow by ON UPDATE CASCADE.
+    const offset = from.length + 1;
+    db.run(
+      `UPDATE entries SET
+         path = ? || substr(path, ?),
+         parent = CASE WHEN path = ? THEN ? ELSE ? || substr(parent, ?) END
+       WHERE path = ? OR path LIKE ? ESCAPE '\\'`,
+      [
+        to,
+        offset,
+        from,
+        getParentPath(to),
+        to,
+        offset,
+        from,
+        descendantsPattern(from),
+      ]
+    );
+    this._touch(db, getParentPath(from));
+    this._touch(db, getParentPath(to));
+    return true;
+  }
+}
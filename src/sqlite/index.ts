@@ -0,0 +1,4 @@
+export * from "./sqlite";
+export * from "./SqliteDirectory";
+export * from "./SqliteFile";
+export * from "./SqliteFileSystem";
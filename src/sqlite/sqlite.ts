@@ -0,0 +1,77 @@
+import { Database, SqlValue } from "sql.js";
+import { Stats } from "../core";
+
+export const SQLITE_CHUNK_SIZE = 64 * 1024;
+
+export const SQLITE_SCHEMA = `
+CREATE TABLE IF NOT EXISTS entries (
+  path TEXT PRIMARY KEY,
+  parent TEXT,
+  size INTEGER, -- NULL for directories
+  created INTEGER,
+  modified INTEGER,
+  accessed INTEGER,
+  props TEXT NOT NULL DEFAULT '{}'
+);
+CREATE INDEX IF NOT EXISTS entries_parent ON entries (parent);
+CREATE TABLE IF NOT EXISTS chunks (
+  path TEXT NOT NULL REFERENCES entries (path) ON DELETE CASCADE ON UPDATE CASCADE,
+  idx INTEGER NOT NULL,
+  data BLOB NOT NULL,
+  PRIMARY KEY (path, idx)
+);
+`;
+
+export interface SqliteEntry {
+  accessed: number | null;
+  created: number | null;
+  modified: number | null;
+  parent: string | null;
+  path: string;
+  props: string;
+  size: number | null;
+}
+
+export function selectAll<T>(
+  db: Database,
+  sql: string,
+  params: SqlValue[] = []
+): T[] {
+  const stmt = db.prepare(sql, params);
+  try {
+    const rows: T[] = [];
+    while (stmt.step()) {
+      rows.push(stmt.getAsObject() as unknown as T);
+    }
+    return rows;
+  } finally {
+    stmt.free();
+  }
+}
+
+export function selectOne<T>(
+  db: Database,
+  sql: string,
+  params: SqlValue[] = []
+): T | undefined {
+  return selectAll<T>(db, sql, params)[0];
+}
+
+/**
+ * Creates a LIKE pattern which matches the descendants of the directory.
+ */
+export function descendantsPattern(path: string) {
+  const escaped = path.replace(/[\\%_]/g, (c) => "\\" + c);
+  return (path === "/" ? "" : escaped) + "/%";
+}
+
+export function toStats(entry: SqliteEntry): Stats {
+  const stats: Stats = JSON.parse(entry.props) as Stats;
+  for (const key of ["size", "created", "modified", "accessed"] as const) {
+    const value = entry[key];
+    if (value != null) {
+      stats[key] = value;
+    }
+  }
+  return stats;
+}
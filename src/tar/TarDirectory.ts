@@ -0,0 +1,22 @@
+import { AbstractDirectory } from "../AbstractDirectory";
+import { Item } from "../core";
+import { TarFileSystem } from "./TarFileSystem";
+
+export class TarDirectory extends AbstractDirectory {
+  constructor(private readonly tfs: TarFileSystem, path: string) {
+    super(tfs, path);
+  }
+
+  public _doDelete(): Promise<void> {
+    return Promise.reject(this.tfs._createReadOnlyError(this.path));
+  }
+
+  public async _doList(): Promise<Item[]> {
+    await this.tfs._getObject(this.path);
+    return this.tfs._listObjects(this.path);
+  }
+
+  public _doMkcol(): Promise<void> {
+    return Promise.reject(this.tfs._createReadOnlyError(this.path));
+  }
+}
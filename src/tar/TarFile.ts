@@ -0,0 +1,41 @@
+import { Data } from "univ-conv";
+import { AbstractFile } from "../AbstractFile";
+import { ReadOptions, Stats } from "../core";
+import { createStream } from "../util";
+import { TarEntry } from "./tar";
+import { TarFileSystem } from "./TarFileSystem";
+
+export class TarFile extends AbstractFile {
+  constructor(private readonly tfs: TarFileSystem, path: string) {
+    super(tfs, path);
+  }
+
+  public _doDelete(): Promise<void> {
+    return Promise.reject(this.tfs._createReadOnlyError(this.path));
+  }
+
+  public async _doRead(stats: Stats, options: ReadOptions): Promise<Data> {
+    const obj = await this.tfs._getObject(this.path);
+    const start = options.start ?? 0;
+    const length = options.length ?? (stats.size as number) - start;
+    return createStream(
+      this.tfs._readMember(obj.entry as TarEntry, start, length)
+    );
+  }
+
+  public _doWrite(): Promise<void> {
+    return Promise.reject(this.tfs._createReadOnlyError(this.path));
+  }
+
+  public supportAppend(): boolean {
+    return false;
+  }
+
+  public supportRangeRead(): boolean {
+    return true;
+  }
+
+  public supportRangeWrite(): boolean {
+    return false;
+  }
+}
@@ -0,0 +1,300 @@
+import { Data, DEFAULT_BUFFER_SIZE, DEFAULT_CONVERTER } from "univ-conv";
+import { AbstractFileSystem } from "../AbstractFileSystem";
+import {
+  Directory,
+  EntryType,
+  File,
+  FileSystem,
+  FileSystemOptions,
+  Item,
+  Stats,
+  URLOptions,
+} from "../core";
+import {
+  createError,
+  DataError,
+  FileSystemError,
+  isFileSystemError,
+  NoModificationAllowedError,
+  NotFoundError,
+  NotSupportedError,
+} from "../errors";
+import { createStream, getParentPath, joinPaths } from "../util";
+import {
+  gunzip,
+  isGzip,
+  RandomAccessReader,
+  ReadRange,
+  readChunks,
+  readEntries,
+  SequentialReader,
+  TarEntry,
+  TarEntryType,
+  TarReader,
+} from "./tar";
+import { TarDirectory } from "./TarDirectory";
+import { TarFile } from "./TarFile";
+
+export interface TarSource {
+  fs: FileSystem;
+  path: string;
+}
+
+export interface TarObject {
+  entry?: TarEntry;
+  stats: Stats;
+}
+
+function isTarSource(source: unknown): source is TarSource {
+  return (
+    typeof source === "object" &&
+    source != null &&
+    "fs" in source &&
+    "path" in source
+  );
+}
+
+export class TarFileSystem extends AbstractFileSystem {
+  private gzip = false;
+  private loading?: Promise<void>;
+  private readonly objects = new Map<string, TarObject>();
+  private readRange?: ReadRange;
+
+  constructor(
+    repository: string,
+    private readonly source: Data | TarSource,
+    options?: FileSystemOptions
+  ) {
+    super(repository, options);
+  }
+
+  public _createReadOnlyError(path: string): FileSystemError {
+    return createError({
+      name: NoModificationAllowedError.name,
+      repository: this.repository,
+      path,
+      message: `"${this.repository}" is read-only`,
+    });
+  }
+
+  public _doGetDirectory(path: string): Directory {
+    return new TarDirectory(this, path);
+  }
+
+  public _doGetFile(path: string): File {
+    return new TarFile(this, path);
+  }
+
+  public async _doGetURL(
+    path: string,
+    isDirectory: boolean,
+    options: URLOptions
+  ): Promise<string> {
+    if (isDirectory || options.method !== "GET") {
+      throw createError({
+        name: NotSupportedError.name,
+        repository: this.repository,
+        path,
+        message: isDirectory
+          ? `"${path}" is a directory`
+          : `"${options.method as string}" is not supported`,
+      });
+    }
+
+    const obj = await this._getObject(path);
+    const entry = obj.entry as TarEntry;
+    const data = createStream(this._readMember(entry, 0, entry.size));
+    return DEFAULT_CONVERTER.toURL(data, { dstURLType: "data" });
+  }
+
+  public async _doHead(path: string): Promise<Stats> {
+    const obj = await this._getObject(path);
+    return { ...obj.stats };
+  }
+
+  public _doPatch(path: string): Promise<void> {
+    return Promise.reject(this._createReadOnlyError(path));
+  }
+
+  public async _getObject(path: string): Promise<TarObject> {
+    await this._load();
+    const obj = this.objects.get(path);
+    if (!obj) {
+      throw createError({
+        name: NotFoundError.name,
+        repository: this.repository,
+        path,
+      });
+    }
+    return obj;
+  }
+
+  public async _listObjects(path: string): Promise<Item[]> {
+    await this._load();
+    const items: Item[] = [];
+    for (const [key, obj] of this.objects) {
+      if (key === "/" || getParentPath(key) !== path) {
+        continue;
+      }
+      const type = obj.entry ? EntryType.File : EntryType.Directory;
+      items.push({ ...obj.stats, path: key, type });
+    }
+    return items;
+  }
+
+  /**
+   * Streams a part of a member.
+   * Gzipped archives are decompressed from the head up to the member only.
+   */
+  public async *_readMember(
+    entry: TarEntry,
+    start: number,
+    length: number
+  ): AsyncGenerator<Uint8Array> {
+    const reader = await this._createReader();
+    try {
+      await reader.skip(entry.offset + start);
+      yield* reader.stream(Math.min(length, entry.size - start));
+    } finally {
+      await reader.close();
+    }
+  }
+
+  public canPatchAccessed(): boolean {
+    return false;
+  }
+
+  public canPatchCreated(): boolean {
+    return false;
+  }
+
+  public canPatchModified(): boolean {
+    return false;
+  }
+
+  public supportDirectory(): boolean {
+    return true;
+  }
+
+  private _addObject(path: string, obj: TarObject) {
+    const parentPath = getParentPath(path);
+    if (!this.objects.has(parentPath)) {
+      this._addObject(parentPath, {
+        stats: { modified: obj.stats.modified },
+      });
+    }
+    this.objects.set(path, obj);
+  }
+
+  private async _createReader(): Promise<TarReader> {
+    const readRange = await this._getReadRange();
+    const bufferSize =
+      this.defaultReadOptions.bufferSize ?? DEFAULT_BUFFER_SIZE;
+    if (this.gzip) {
+      return new SequentialReader(gunzip(readChunks(readRange, bufferSize)));
+    }
+    return new RandomAccessReader(readRange, bufferSize);
+  }
+
+  private async _doLoad() {
+    const readRange = await this._getReadRange();
+    this.gzip = isGzip(await readRange(0, 2));
+
+    this.objects.set("/", { stats: {} });
+    const links: TarEntry[] = [];
+    const reader = await this._createReader();
+    try {
+      for await (const entry of readEntries(reader)) {
+        const path = this._resolve(entry.name);
+        if (path === "/") {
+          continue;
+        }
+        const stats: Stats = { modified: entry.modified, mode: entry.mode };
+        if (entry.type === TarEntryType.Directory) {
+          this._addObject(path, { stats });
+        } else if (entry.type === TarEntryType.File) {
+          stats.size = entry.size;
+          this._addObject(path, { entry, stats });
+        } else if (
+          entry.type === TarEntryType.HardLink ||
+          entry.type === TarEntryType.SymbolicLink
+        ) {
+          links.push(entry);
+        }
+      }
+    } catch (e) {
+      if (isFileSystemError(e)) {
+        throw e;
+      }
+      throw createError({
+        name: DataError.name,
+        repository: this.repository,
+        path: "/",
+        message: (e as Error).message,
+        e,
+      });
+    } finally {
+      await reader.close();
+    }
+
+    for (const link of links) {
+      const path = this._resolve(link.name);
+      const target =
+        link.type === TarEntryType.HardLink || link.linkname.startsWith("/")
+          ? this._resolve(link.linkname)
+          : this._resolve(link.linkname, getParentPath(path));
+      const obj = this.objects.get(target);
+      if (obj?.entry) {
+        this._addObject(path, {
+          entry: obj.entry,
+          stats: { ...obj.stats, modified: link.modified, mode: link.mode },
+        });
+      }
+    }
+  }
+
+  private async _getReadRange(): Promise<ReadRange> {
+    if (this.readRange) {
+      return this.readRange;
+    }
+
+    const source = this.source;
+    if (isTarSource(source)) {
+      this.readRange = (start, length) =>
+        source.fs.read(source.path, "uint8array", { start, length });
+    } else {
+      const u8 = await DEFAULT_CONVERTER.toUint8Array(source);
+      this.readRange = (start, length) =>
+        Promise.resolve(u8.subarray(start, start + length));
+    }
+    return this.readRange;
+  }
+
+  private _load() {
+    if (!this.loading) {
+      // Loads again next time if it fails.
+      this.loading = this._doLoad().catch((e) => {
+        this.objects.clear();
+        this.loading = undefined;
+        throw e;
+      });
+    }
+    return this.loading;
+  }
+
+  /**
+   * Resolves the name in the archive, which must not go outside of it.
+   */
+  private _resolve(name: string, base = "/"): string {
+    try {
+      return joinPaths(base, name);
+    } catch {
+      throw createError({
+        name: DataError.name,
+        repository: this.repository,
+        path: "/",
+        message: `Corrupt archive: illegal entry name "${name}"`,
+      });
+    }
+  }
+}
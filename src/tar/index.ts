@@ -0,0 +1,4 @@
+export * from "./tar";
+export * from "./TarDirectory";
+export * from "./TarFile";
+export * from "./TarFileSystem";
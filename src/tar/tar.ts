@@ -0,0 +1,301 @@
+import { Gunzip } from "fflate";
+import { EMPTY_UINT8_ARRAY } from "univ-conv";
+
+export const BLOCK_SIZE = 512;
+
+export enum TarEntryType {
+  File = "0",
+  HardLink = "1",
+  SymbolicLink = "2",
+  Directory = "5",
+  PaxHeader = "x",
+  PaxGlobalHeader = "g",
+  GnuLongName = "L",
+  GnuLongLink = "K",
+}
+
+export interface TarEntry {
+  linkname: string;
+  mode: number;
+  modified: number;
+  name: string;
+  offset: number;
+  size: number;
+  type: string;
+}
+
+export interface TarReader {
+  position: number;
+
+  close(): Promise<void>;
+  read(length: number): Promise<Uint8Array>;
+  skip(length: number): Promise<void>;
+  stream(length: number): AsyncGenerator<Uint8Array>;
+}
+
+export type ReadRange = (start: number, length: number) => Promise<Uint8Array>;
+
+export function isGzip(head: Uint8Array) {
+  return head[0] === 0x1f && head[1] === 0x8b;
+}
+
+export class RandomAccessReader implements TarReader {
+  public position = 0;
+
+  constructor(
+    private readonly readRange: ReadRange,
+    private readonly bufferSize: number
+  ) {}
+
+  public async close() {
+    // noop
+  }
+
+  public async read(length: number) {
+    const u8 = await this.readRange(this.position, length);
+    this.position += u8.byteLength;
+    return u8;
+  }
+
+  public skip(length: number) {
+    this.position += length;
+    return Promise.resolve();
+  }
+
+  public async *stream(length: number) {
+    const end = this.position + length;
+    while (this.position < end) {
+      const size = Math.min(this.bufferSize, end - this.position);
+      const chunk = await this.read(size);
+      if (chunk.byteLength === 0) {
+        return;
+      }
+      yield chunk;
+    }
+  }
+}
+
+export class SequentialReader implements TarReader {
+  public position = 0;
+
+  private buffer = EMPTY_UINT8_ARRAY;
+
+  constructor(private readonly chunks: AsyncIterator<Uint8Array>) {}
+
+  public async close() {
+    await this.chunks.return?.();
+  }
+
+  public async read(length: number) {
+    const parts: Uint8Array[] = [];
+    let remaining = length;
+    for await (const chunk of this.stream(length)) {
+      parts.push(chunk);
+      remaining -= chunk.byteLength;
+    }
+    if (parts.length === 1) {
+      return parts[0] as Uint8Array;
+    }
+    const u8 = new Uint8Array(length - remaining);
+    let offset = 0;
+    for (const part of parts) {
+      u8.set(part, offset);
+      offset += part.byteLength;
+    }
+    return u8;
+  }
+
+  public async skip(length: number) {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    for await (const _ of this.stream(length)) {
+      // discard
+    }
+  }
+
+  public async *stream(length: number) {
+    let remaining = length;
+    while (0 < remaining) {
+      if (this.buffer.byteLength === 0) {
+        const res = await this.chunks.next();
+        if (res.done) {
+          return;
+        }
+        this.buffer = res.value;
+        continue;
+      }
+      const chunk = this.buffer.subarray(0, remaining);
+      this.buffer = this.buffer.subarray(chunk.byteLength);
+      this.position += chunk.byteLength;
+      remaining -= chunk.byteLength;
+      yield chunk;
+    }
+  }
+}
+
+export async function* readChunks(
+  readRange: ReadRange,
+  bufferSize: number
+): AsyncGenerator<Uint8Array> {
+  let position = 0;
+  for (;;) {
+    const chunk = await readRange(position, bufferSize);
+    if (chunk.byteLength === 0) {
+      return;
+    }
+    yield chunk;
+    position += chunk.byteLength;
+  }
+}
+
+export async function* gunzip(
+  chunks: AsyncIterable<Uint8Array>
+): AsyncGenerator<Uint8Array> {
+  const queue: Uint8Array[] = [];
+  const gunzip = new Gunzip((data) => queue.push(data));
+  for await (const chunk of chunks) {
+    gunzip.push(chunk);
+    while (0 < queue.length) {
+      yield queue.shift() as Uint8Array;
+    }
+  }
+  gunzip.push(EMPTY_UINT8_ARRAY, true);
+  while (0 < queue.length) {
+    yield queue.shift() as Uint8Array;
+  }
+}
+
+const decoder = new TextDecoder();
+
+function readString(block: Uint8Array, offset: number, length: number) {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return decoder.decode(end < 0 ? field : field.subarray(0, end));
+}
+
+function readNumber(block: Uint8Array, offset: number, length: number) {
+  const field = block.subarray(offset, offset + length);
+  if ((field[0] as number) & 0x80) {
+    // GNU base-256 encoding
+    let value = (field[0] as number) & 0x7f;
+    for (let i = 1; i < field.length; i++) {
+      value = value * 256 + (field[i] as number);
+    }
+    return value;
+  }
+  const str = readString(block, offset, length).trim();
+  return str ? parseInt(str, 8) : 0;
+}
+
+function verifyChecksum(block: Uint8Array) {
+  const expected = readNumber(block, 148, 8);
+  let sum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    sum += 148 <= i && i < 156 ? 0x20 : (block[i] as number);
+  }
+  return sum === expected;
+}
+
+function parsePax(u8: Uint8Array) {
+  const records: { [key: string]: string } = {};
+  let i = 0;
+  while (i < u8.length) {
+    const space = u8.indexOf(0x20, i);
+    if (space < 0) {
+      break;
+    }
+    const length = parseInt(decoder.decode(u8.subarray(i, space)), 10);
+    if (!(0 < length)) {
+      break;
+    }
+    const record = decoder.decode(u8.subarray(space + 1, i + length - 1));
+    const eq = record.indexOf("=");
+    if (0 < eq) {
+      records[record.substring(0, eq)] = record.substring(eq + 1);
+    }
+    i += length;
+  }
+  return records;
+}
+
+function padding(size: number) {
+  const rest = size % BLOCK_SIZE;
+  return rest === 0 ? 0 : BLOCK_SIZE - rest;
+}
+
+/**
+ * Reads member headers, skipping their contents.
+ * `offset` of each entry points to its contents in the uncompressed stream.
+ */
+export async function* readEntries(
+  reader: TarReader
+): AsyncGenerator<TarEntry> {
+  let global: { [key: string]: string } = {};
+  let pax: { [key: string]: string } = {};
+  let longName: string | undefined;
+  let longLink: string | undefined;
+  for (;;) {
+    const block = await reader.read(BLOCK_SIZE);
+    if (block.byteLength < BLOCK_SIZE || block.every((b) => b === 0)) {
+      return;
+    }
+    if (!verifyChecksum(block)) {
+      throw new Error(`Illegal header checksum at ${reader.position}`);
+    }
+
+    const type = String.fromCharCode(block[156] as number);
+    const size = readNumber(block, 124, 12);
+    if (
+      type === TarEntryType.PaxHeader ||
+      type === TarEntryType.PaxGlobalHeader ||
+      type === TarEntryType.GnuLongName ||
+      type === TarEntryType.GnuLongLink
+    ) {
+      const data = await reader.read(size);
+      await reader.skip(padding(size));
+      if (type === TarEntryType.PaxHeader) {
+        pax = parsePax(data);
+      } else if (type === TarEntryType.PaxGlobalHeader) {
+        global = { ...global, ...parsePax(data) };
+      } else if (type === TarEntryType.GnuLongName) {
+        longName = readString(data, 0, data.length);
+      } else {
+        longLink = readString(data, 0, data.length);
+      }
+      continue;
+    }
+
+    const records = { ...global, ...pax };
+    let name = readString(block, 0, 100);
+    if (readString(block, 257, 5) === "ustar") {
+      const prefix = readString(block, 345, 155);
+      if (prefix) {
+        name = prefix + "/" + name;
+      }
+    }
+    const entry: TarEntry = {
+      name: records["path"] ?? longName ?? name,
+      linkname: records["linkpath"] ?? longLink ?? readString(block, 157, 100),
+      type: type === "\0" ? TarEntryType.File : type,
+      mode: readNumber(block, 100, 8),
+      size: records["size"] ? parseInt(records["size"], 10) : size,
+      modified: Math.floor(
+        (records["mtime"]
+          ? parseFloat(records["mtime"])
+          : readNumber(block, 136, 12)) * 1000
+      ),
+      offset: reader.position,
+    };
+    pax = {};
+    longName = undefined;
+    longLink = undefined;
+
+    yield entry;
+    const dataSize =
+      entry.type === TarEntryType.HardLink ||
+      entry.type === TarEntryType.SymbolicLink ||
+      entry.type === TarEntryType.Directory
+        ? 0
+        : entry.size;
+    await reader.skip(dataSize + padding(dataSize));
+  }
+}
@@ -1,3 +1,5 @@
+import { Data, hasReadable, hasReadableStream } from "univ-conv";
+import { ReadOptions } from "./core";
 import { createError, SyntaxError } from "./errors";
 
 // eslint-disable-next-line no-control-regex
@@ -73,3 +75,71 @@ for (let n = 0; n < 0x100; n++) {
 export function toHex(u8: Uint8Array) {
   return u8.reduce((result, i) => result + LUT_HEX_8b[i], ""); // eslint-disable-line
 }
+
+export function createStream(chunks: AsyncGenerator<Uint8Array>): Data {
+  if (hasReadable) {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const stream = require("stream") as typeof import("stream");
+    return stream.Readable.from(chunks, { objectMode: false });
+  }
+  if (hasReadableStream) {
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        const res = await chunks.next();
+        if (res.done) {
+          controller.close();
+        } else {
+          controller.enqueue(res.value);
+        }
+      },
+      cancel: async () => {
+        await chunks.return(undefined);
+      },
+    });
+  }
+  throw new Error("No stream implementation is available");
+}
+
+export function getFetch(): typeof fetch {
+  if (typeof fetch === "function") {
+    return fetch;
+  }
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  return require("node-fetch") as typeof fetch;
+}
+
+/**
+ * Requests the range of the read options with the Range header,
+ * and slices the body when the server ignored it and returned all of it.
+ */
+export async function fetchRange(
+  options: ReadOptions,
+  request: (headers: { [name: string]: string }) => Promise<Response>
+): Promise<Uint8Array> {
+  const start = options.start;
+  const length = options.length;
+  const headers: { [name: string]: string } = {};
+  const isRange = start != null || length != null;
+  if (isRange) {
+    const from = start ?? 0;
+    const to = length == null ? "" : String(from + length - 1);
+    headers["Range"] = `bytes=${from}-${to}`;
+  }
+
+  const response = await request(headers);
+  const u8 = new Uint8Array(await response.arrayBuffer());
+  if (isRange && response.status !== 206) {
+    const from = start ?? 0;
+    return u8.slice(from, length == null ? undefined : from + length);
+  }
+  return u8;
+}
+
+export function getCrypto(): Crypto {
+  if (typeof crypto === "object" && crypto.subtle) {
+    return crypto;
+  }
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  return (require("crypto") as typeof import("crypto"))
+    .webcrypto as unknown as Crypto;
+}
@@ -0,0 +1,29 @@
+import { AbstractDirectory } from "../AbstractDirectory";
+import { Item, NotExistAction } from "../core";
+import { VersioningFileSystem } from "./VersioningFileSystem";
+
+export class VersioningDirectory extends AbstractDirectory {
+  constructor(private readonly vfs: VersioningFileSystem, path: string) {
+    super(vfs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    await this.vfs.source.delete(this.path, {
+      onNotExist: NotExistAction.Error,
+      recursive: false,
+    });
+  }
+
+  public _doList(): Promise<Item[]> {
+    return this.vfs._list(this.path);
+  }
+
+  public async _doMkcol(): Promise<void> {
+    const vfs = this.vfs;
+    const path = this.path;
+    if (vfs._isHidden(path)) {
+      throw vfs._createHiddenError(path);
+    }
+    await vfs.source.mkcol(path);
+  }
+}
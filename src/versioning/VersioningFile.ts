@@ -0,0 +1,52 @@
+import { Data } from "univ-conv";
+import { AbstractFile } from "../AbstractFile";
+import { NotExistAction, ReadOptions, Stats, WriteOptions } from "../core";
+import { VersioningFileSystem } from "./VersioningFileSystem";
+
+export class VersioningFile extends AbstractFile {
+  constructor(private readonly vfs: VersioningFileSystem, path: string) {
+    super(vfs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    const vfs = this.vfs;
+    const path = this.path;
+    await vfs._saveVersion(path, await vfs.source.head(path));
+    await vfs.source.delete(path, {
+      onNotExist: NotExistAction.Error,
+      recursive: false,
+    });
+  }
+
+  public _doRead(_stats: Stats, options: ReadOptions): Promise<Data> {
+    return this.vfs.source.getFile(this.path).read(undefined, options);
+  }
+
+  public async _doWrite(
+    data: Data,
+    stats: Stats | undefined | null,
+    options: WriteOptions
+  ): Promise<void> {
+    const vfs = this.vfs;
+    const path = this.path;
+    if (vfs._isHidden(path)) {
+      throw vfs._createHiddenError(path);
+    }
+    if (stats) {
+      await vfs._saveVersion(path, stats);
+    }
+    await vfs.source.write(path, data, options);
+  }
+
+  public supportAppend(): boolean {
+    return true;
+  }
+
+  public supportRangeRead(): boolean {
+    return true;
+  }
+
+  public supportRangeWrite(): boolean {
+    return true;
+  }
+}
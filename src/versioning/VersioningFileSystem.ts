@@ -0,0 +1,273 @@
+import { AbstractFileSystem } from "../AbstractFileSystem";
+import {
+  Directory,
+  ExistsAction,
+  File,
+  FileSystem,
+  FileSystemOptions,
+  HeadOptions,
+  Item,
+  NoParentAction,
+  NotExistAction,
+  PatchOptions,
+  Stats,
+  URLOptions,
+} from "../core";
+import {
+  createError,
+  FileSystemError,
+  isNotFoundError,
+  NoModificationAllowedError,
+  NotFoundError,
+} from "../errors";
+import { joinPaths, normalizePath } from "../util";
+import { VersioningDirectory } from "./VersioningDirectory";
+import { VersioningFile } from "./VersioningFile";
+
+export interface VersioningFileSystemOptions extends FileSystemOptions {
+  /** Versions older than this in milliseconds are deleted */
+  maxAge?: number;
+  /** The number of versions to keep per file */
+  maxVersions?: number;
+  /** The FileSystem which has the versions, the source by default */
+  store?: FileSystem;
+  /** The directory of the versions on the store, "/.versions" by default */
+  versionsDir?: string;
+}
+
+export interface Version {
+  id: string;
+  /** The stats of the file before it was overwritten, patched or deleted */
+  stats: Stats;
+  /** When the version was saved */
+  versioned: number;
+}
+
+const VERSION_ID = /^\d{15}$/;
+
+/**
+ * Saves the contents and the stats of a file before it is
+ * overwritten, patched or deleted.
+ */
+export class VersioningFileSystem extends AbstractFileSystem {
+  public readonly store: FileSystem;
+  public readonly versionsDir: string;
+
+  private readonly maxAge?: number;
+  private readonly maxVersions?: number;
+
+  constructor(
+    public readonly source: FileSystem,
+    options?: VersioningFileSystemOptions
+  ) {
+    super(source.repository, options);
+    this.store = options?.store ?? source;
+    this.versionsDir = normalizePath(options?.versionsDir ?? "/.versions");
+    this.maxAge = options?.maxAge;
+    this.maxVersions = options?.maxVersions;
+  }
+
+  public _createHiddenError(path: string): FileSystemError {
+    return createError({
+      name: NoModificationAllowedError.name,
+      repository: this.repository,
+      path,
+      message: `"${path}" is reserved for versions`,
+    });
+  }
+
+  public _doGetDirectory(path: string): Directory {
+    return new VersioningDirectory(this, path);
+  }
+
+  public _doGetFile(path: string): File {
+    return new VersioningFile(this, path);
+  }
+
+  public _doGetURL(
+    path: string,
+    _isDirectory: boolean,
+    options: URLOptions
+  ): Promise<string> {
+    return this.source.getURL(path, options);
+  }
+
+  public async _doHead(path: string, options: HeadOptions): Promise<Stats> {
+    if (this._isHidden(path)) {
+      throw createError({
+        name: NotFoundError.name,
+        repository: this.repository,
+        path,
+      });
+    }
+    return this.source.head(path, options);
+  }
+
+  public async _doPatch(
+    path: string,
+    stats: Stats,
+    props: Stats,
+    options: PatchOptions
+  ): Promise<void> {
+    if (stats.size != null) {
+      await this._saveVersion(path, stats);
+    }
+    await this.source.patch(path, props, options);
+  }
+
+  /**
+   * Whether the path is in the versions directory on the source.
+   */
+  public _isHidden(path: string): boolean {
+    const dir = this.versionsDir;
+    return (
+      this.store === this.source && (path === dir || path.startsWith(dir + "/"))
+    );
+  }
+
+  public async _list(path: string): Promise<Item[]> {
+    const paths = await this.source.list(path);
+    return paths.filter((p) => !this._isHidden(p)).map((p) => ({ path: p }));
+  }
+
+  public async _saveVersion(path: string, stats: Stats): Promise<void> {
+    const store = this.store;
+    const dir = this._toVersionDir(path);
+    await store.mkcol(dir, {
+      onExists: ExistsAction.Skip,
+      onNoParent: NoParentAction.MakeParents,
+    });
+
+    // Milliseconds, incremented when the same millisecond is taken.
+    let time = Date.now();
+    let id: string;
+    for (;;) {
+      id = String(time).padStart(15, "0");
+      try {
+        await store.head(joinPaths(dir, id + ".json"));
+        time++;
+      } catch (e) {
+        if (isNotFoundError(e)) {
+          break;
+        }
+        throw e;
+      }
+    }
+
+    const data = await this.source.getFile(path).read();
+    await store.write(joinPaths(dir, id), data);
+    // The stats last, which mark the version complete.
+    await store.write(joinPaths(dir, id + ".json"), JSON.stringify(stats));
+    await this.prune(path);
+  }
+
+  public _toVersionDir(path: string): string {
+    return joinPaths(this.versionsDir, encodeURIComponent(path));
+  }
+
+  public canPatchAccessed(): boolean {
+    return true;
+  }
+
+  public canPatchCreated(): boolean {
+    return true;
+  }
+
+  public canPatchModified(): boolean {
+    return true;
+  }
+
+  /**
+   * Lists the versions of the file, the newest first.
+   */
+  public async listVersions(path: string): Promise<Version[]> {
+    path = this._checkPath(path);
+    const store = this.store;
+    const dir = this._toVersionDir(path);
+    let paths: string[];
+    try {
+      paths = await store.list(dir);
+    } catch (e) {
+      if (isNotFoundError(e)) {
+        return [];
+      }
+      throw e;
+    }
+
+    const versions: Version[] = [];
+    for (const versionPath of paths) {
+      const match = /\/(\d{15})\.json$/.exec(versionPath);
+      if (!match) {
+        continue;
+      }
+      const id = match[1] as string;
+      const stats = JSON.parse(await store.read(versionPath, "text")) as Stats;
+      versions.push({ id, stats, versioned: parseInt(id, 10) });
+    }
+    return versions.sort((a, b) => b.versioned - a.versioned);
+  }
+
+  /**
+   * Deletes the versions of the file beyond the retention policies.
+   */
+  public async prune(path: string): Promise<void> {
+    path = this._checkPath(path);
+    const store = this.store;
+    const dir = this._toVersionDir(path);
+    const versions = await this.listVersions(path);
+    const minVersioned =
+      this.maxAge == null ? -Infinity : Date.now() - this.maxAge;
+    for (let i = 0; i < versions.length; i++) {
+      const version = versions[i] as Version;
+      if (
+        (this.maxVersions == null || i < this.maxVersions) &&
+        minVersioned <= version.versioned
+      ) {
+        continue;
+      }
+      // The stats first, so that an incomplete version is never listed.
+      for (const name of [version.id + ".json", version.id]) {
+        // FileSystem.delete() throws NotFoundError regardless of onNotExist.
+        try {
+          await store.delete(joinPaths(dir, name), {
+            onNotExist: NotExistAction.Ignore,
+            recursive: false,
+          });
+        } catch (e) {
+          if (!isNotFoundError(e)) {
+            throw e;
+          }
+        }
+      }
+    }
+  }
+
+  public async readVersion(path: string, id: string): Promise<Uint8Array> {
+    path = this._checkPath(path);
+    if (!VERSION_ID.test(id)) {
+      throw createError({
+        name: NotFoundError.name,
+        repository: this.repository,
+        path,
+        message: `Version "${id}" is not found`,
+      });
+    }
+    return this.store.read(
+      joinPaths(this._toVersionDir(path), id),
+      "uint8array"
+    );
+  }
+
+  /**
+   * Writes the contents of the version back,
+   * the current contents become a version.
+   */
+  public async restore(path: string, id: string): Promise<void> {
+    const u8 = await this.readVersion(path, id);
+    await this.write(path, u8);
+  }
+
+  public supportDirectory(): boolean {
+    return this.source.supportDirectory();
+  }
+}
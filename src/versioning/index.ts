@@ -0,0 +1,3 @@
+export * from "./VersioningDirectory";
+export * from "./VersioningFile";
+export * from "./VersioningFileSystem";
@@ -0,0 +1,30 @@
+import { AbstractDirectory } from "../AbstractDirectory";
+import { Item } from "../core";
+import { InvalidModificationError } from "../errors";
+import { WebDAVFileSystem } from "./WebDAVFileSystem";
+
+export class WebDAVDirectory extends AbstractDirectory {
+  constructor(private readonly wfs: WebDAVFileSystem, path: string) {
+    super(wfs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    // DELETE on a collection is always recursive in WebDAV.
+    const children = await this._doList();
+    if (0 < children.length) {
+      throw this._createError(InvalidModificationError.name, {
+        message: `"${this.path}" is not empty`,
+      });
+    }
+    await this.wfs._fetch("DELETE", this.path, { isDirectory: true });
+  }
+
+  public async _doList(): Promise<Item[]> {
+    const items = await this.wfs._propfind(this.path, 1);
+    return items.filter((item) => item.path !== this.path);
+  }
+
+  public async _doMkcol(): Promise<void> {
+    await this.wfs._fetch("MKCOL", this.path, { isDirectory: true });
+  }
+}
@@ -0,0 +1,42 @@
+import { Data } from "univ-conv";
+import { AbstractFile } from "../AbstractFile";
+import { ReadOptions, Stats, WriteOptions } from "../core";
+import { fetchRange } from "../util";
+import { WebDAVFileSystem } from "./WebDAVFileSystem";
+
+export class WebDAVFile extends AbstractFile {
+  constructor(private readonly wfs: WebDAVFileSystem, path: string) {
+    super(wfs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    await this.wfs._fetch("DELETE", this.path);
+  }
+
+  public _doRead(_stats: Stats, options: ReadOptions): Promise<Data> {
+    return fetchRange(options, (headers) =>
+      this.wfs._fetch("GET", this.path, { headers })
+    );
+  }
+
+  public async _doWrite(
+    data: Data,
+    _stats: Stats | undefined | null,
+    options: WriteOptions
+  ): Promise<void> {
+    const body = await this._getConverter().toUint8Array(data, options);
+    await this.wfs._fetch("PUT", this.path, { body });
+  }
+
+  public supportAppend(): boolean {
+    return false;
+  }
+
+  public supportRangeRead(): boolean {
+    return true;
+  }
+
+  public supportRangeWrite(): boolean {
+    return false;
+  }
+}
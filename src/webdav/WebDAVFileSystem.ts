@@ -0,0 +1,380 @@
+import { AbstractFileSystem } from "../AbstractFileSystem";
+import {
+  Directory,
+  EntryType,
+  EXCLUDE_PROP_NAMES,
+  File,
+  FileSystemOptions,
+  Item,
+  Stats,
+  URLOptions,
+} from "../core";
+import {
+  createError,
+  FileSystemError,
+  InvalidCharacterError,
+  InvalidStateError,
+  NetworkError,
+  NoModificationAllowedError,
+  NotAllowedError,
+  NotFoundError,
+  NotReadableError,
+  NotSupportedError,
+  PathExistError,
+  QuotaExceededError,
+  TimeoutError,
+} from "../errors";
+import { getFetch, getPathParts, normalizePath } from "../util";
+import { WebDAVDirectory } from "./WebDAVDirectory";
+import { WebDAVFile } from "./WebDAVFile";
+import {
+  DAV_NAMESPACE,
+  escapeXml,
+  findChild,
+  findChildren,
+  parseXml,
+  PROP_NAMESPACE,
+  XmlElement,
+} from "./xml";
+
+export interface WebDAVFileSystemOptions extends FileSystemOptions {
+  headers?: { [name: string]: string };
+}
+
+export type WebDAVMethod =
+  | "DELETE"
+  | "GET"
+  | "MKCOL"
+  | "PROPFIND"
+  | "PROPPATCH"
+  | "PUT";
+
+export interface WebDAVRequest {
+  body?: BodyInit;
+  headers?: { [name: string]: string };
+  isDirectory?: boolean;
+}
+
+const READ_METHODS: WebDAVMethod[] = ["GET", "PROPFIND"];
+
+const PROPFIND_BODY = `<?xml version="1.0" encoding="utf-8"?>
+<D:propfind xmlns:D="DAV:"><D:allprop/></D:propfind>`;
+
+const PROP_NAME = /^[A-Za-z_][\w.-]*$/;
+
+export class WebDAVFileSystem extends AbstractFileSystem {
+  private readonly basePath: string;
+  private readonly headers: { [name: string]: string };
+
+  constructor(baseURL: string, options?: WebDAVFileSystemOptions) {
+    super(baseURL.replace(/\/+$/, ""), options);
+    this.basePath = normalizePath(new URL(this.repository).pathname);
+    this.headers = { ...options?.headers };
+  }
+
+  public _doGetDirectory(path: string): Directory {
+    return new WebDAVDirectory(this, path);
+  }
+
+  public _doGetFile(path: string): File {
+    return new WebDAVFile(this, path);
+  }
+
+  /**
+   * The URL of the resource, which can be fetched only by GET and never expires.
+   */
+  public _doGetURL(
+    path: string,
+    isDirectory: boolean,
+    options: URLOptions
+  ): Promise<string> {
+    if (options.method !== "GET" || options.expires != null) {
+      return Promise.reject(
+        createError({
+          name: NotSupportedError.name,
+          repository: this.repository,
+          path,
+          message:
+            options.method !== "GET"
+              ? `"${options.method as string}" is not supported`
+              : "Expiring URLs are not supported",
+        })
+      );
+    }
+    return Promise.resolve(this._getURL(path, isDirectory));
+  }
+
+  public async _doHead(path: string): Promise<Stats> {
+    const responses = await this._propfind(path, 0);
+    const self = responses.find((item) => item.path === path);
+    if (!self) {
+      throw createError({
+        name: NotFoundError.name,
+        repository: this.repository,
+        path,
+      });
+    }
+    const stats: Stats = { ...self };
+    delete stats["path"];
+    delete stats["type"];
+    return stats;
+  }
+
+  public async _doPatch(
+    path: string,
+    stats: Stats,
+    props: Stats
+  ): Promise<void> {
+    const sets: string[] = [];
+    const removes: string[] = [];
+    for (const [key, value] of Object.entries(props)) {
+      if (EXCLUDE_PROP_NAMES.includes(key)) {
+        continue;
+      }
+      if (!PROP_NAME.test(key)) {
+        throw createError({
+          name: InvalidCharacterError.name,
+          repository: this.repository,
+          path,
+          message: `"${key}" is not a valid property name`,
+        });
+      }
+      if (value == null) {
+        removes.push(`<U:${key}/>`);
+      } else {
+        sets.push(`<U:${key}>${escapeXml(JSON.stringify(value))}</U:${key}>`);
+      }
+    }
+    if (sets.length === 0 && removes.length === 0) {
+      return;
+    }
+
+    let body = `<?xml version="1.0" encoding="utf-8"?>
+<D:propertyupdate xmlns:D="DAV:" xmlns:U="${PROP_NAMESPACE}">`;
+    if (0 < sets.length) {
+      body += `<D:set><D:prop>${sets.join("")}</D:prop></D:set>`;
+    }
+    if (0 < removes.length) {
+      body += `<D:remove><D:prop>${removes.join("")}</D:prop></D:remove>`;
+    }
+    body += "</D:propertyupdate>";
+
+    const response = await this._fetch("PROPPATCH", path, {
+      body,
+      headers: { "Content-Type": "application/xml; charset=utf-8" },
+      isDirectory: stats.size == null,
+    });
+    if (response.status !== 207) {
+      throw this._createError(path, "PROPPATCH", response.status);
+    }
+    const multistatus = parseXml(await response.text());
+    for (const res of findChildren(multistatus, "response")) {
+      for (const propstat of findChildren(res, "propstat")) {
+        const status = this._parseStatus(findChild(propstat, "status"));
+        if (status < 200 || 300 <= status) {
+          throw this._createError(path, "PROPPATCH", status);
+        }
+      }
+    }
+  }
+
+  public _createError(
+    path: string,
+    method: WebDAVMethod,
+    status: number,
+    e?: unknown
+  ): FileSystemError {
+    let name: string;
+    switch (status) {
+      case 401:
+      case 403:
+        name = NotAllowedError.name;
+        break;
+      case 404:
+        name = NotFoundError.name;
+        break;
+      case 405:
+        name =
+          method === "MKCOL" ? PathExistError.name : NotSupportedError.name;
+        break;
+      case 408:
+      case 504:
+        name = TimeoutError.name;
+        break;
+      case 409:
+        // A collection cannot be made at the Request-URI until one or more intermediate collections have been created.
+        name =
+          method === "PUT" || method === "MKCOL"
+            ? NotFoundError.name
+            : InvalidStateError.name;
+        break;
+      case 412:
+        name = PathExistError.name;
+        break;
+      case 423:
+        name = NoModificationAllowedError.name;
+        break;
+      case 507:
+        name = QuotaExceededError.name;
+        break;
+      default:
+        if (e) {
+          name = NetworkError.name;
+        } else if (READ_METHODS.includes(method)) {
+          name = NotReadableError.name;
+        } else {
+          name = NoModificationAllowedError.name;
+        }
+    }
+    return createError({
+      name,
+      repository: this.repository,
+      path,
+      method,
+      status,
+      e,
+    });
+  }
+
+  public async _fetch(
+    method: WebDAVMethod,
+    path: string,
+    request: WebDAVRequest = {}
+  ): Promise<Response> {
+    const url = this._getURL(path, request.isDirectory);
+    let response: Response;
+    try {
+      response = await getFetch()(url, {
+        method,
+        headers: { ...this.headers, ...request.headers },
+        body: request.body,
+      });
+    } catch (e) {
+      throw this._createError(path, method, 0, e);
+    }
+    if (!response.ok) {
+      throw this._createError(path, method, response.status);
+    }
+    return response;
+  }
+
+  public _getURL(path: string, isDirectory?: boolean) {
+    const parts = getPathParts(path).map((part) => encodeURIComponent(part));
+    let url = this.repository + "/" + parts.join("/");
+    if (isDirectory && !url.endsWith("/")) {
+      url += "/";
+    }
+    return url;
+  }
+
+  public async _propfind(path: string, depth: 0 | 1): Promise<Item[]> {
+    const response = await this._fetch("PROPFIND", path, {
+      body: PROPFIND_BODY,
+      headers: {
+        Depth: String(depth),
+        "Content-Type": "application/xml; charset=utf-8",
+      },
+      isDirectory: depth === 1,
+    });
+    const multistatus = parseXml(await response.text());
+    const items: Item[] = [];
+    for (const res of findChildren(multistatus, "response")) {
+      const href = findChild(res, "href")?.text;
+      if (!href) {
+        continue;
+      }
+      const item = this._toItem(href, res);
+      if (item) {
+        items.push(item);
+      }
+    }
+    return items;
+  }
+
+  public canPatchAccessed(): boolean {
+    return false;
+  }
+
+  public canPatchCreated(): boolean {
+    return false;
+  }
+
+  public canPatchModified(): boolean {
+    return false;
+  }
+
+  public supportDirectory(): boolean {
+    return true;
+  }
+
+  private _parseStatus(status?: XmlElement) {
+    const match = /HTTP\/[\d.]+\s+(\d+)/.exec(status?.text ?? "");
+    return match ? parseInt(match[1] as string, 10) : 0;
+  }
+
+  private _toItem(href: string, res: XmlElement): Item | undefined {
+    const pathname = new URL(href, this.repository + "/").pathname;
+    const parts = getPathParts(pathname).map((part) =>
+      decodeURIComponent(part)
+    );
+    const baseParts = getPathParts(this.basePath);
+    if (baseParts.some((part, i) => parts[i] !== part)) {
+      return undefined;
+    }
+    const item: Item = {
+      path: normalizePath(parts.slice(baseParts.length).join("/")),
+    };
+
+    let isDirectory = false;
+    for (const propstat of findChildren(res, "propstat")) {
+      const status = this._parseStatus(findChild(propstat, "status"));
+      if (status < 200 || 300 <= status) {
+        continue;
+      }
+      for (const prop of findChild(propstat, "prop")?.children ?? []) {
+        if (prop.namespace === PROP_NAMESPACE) {
+          try {
+            item[prop.name] = JSON.parse(prop.text) as string;
+          } catch {
+            item[prop.name] = prop.text;
+          }
+          continue;
+        }
+        if (prop.namespace !== DAV_NAMESPACE) {
+          continue;
+        }
+        switch (prop.name) {
+          case "resourcetype":
+            isDirectory = findChild(prop, "collection") != null;
+            break;
+          case "getcontentlength":
+            item.size = parseInt(prop.text, 10);
+            break;
+          case "getlastmodified":
+            item.modified = Date.parse(prop.text);
+            break;
+          case "creationdate":
+            item.created = Date.parse(prop.text);
+            break;
+          case "getetag":
+            item.etag = prop.text.replace(/"/g, "");
+            break;
+        }
+      }
+    }
+
+    for (const key of ["size", "modified", "created"]) {
+      if (Number.isNaN(item[key])) {
+        delete item[key];
+      }
+    }
+    if (isDirectory) {
+      delete item.size;
+      item.type = EntryType.Directory;
+    } else {
+      item.size = item.size ?? 0;
+      item.type = EntryType.File;
+    }
+    return item;
+  }
+}
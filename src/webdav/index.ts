@@ -0,0 +1,4 @@
+export * from "./WebDAVDirectory";
+export * from "./WebDAVFile";
+export * from "./WebDAVFileSystem";
+export * from "./xml";
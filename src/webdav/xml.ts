@@ -0,0 +1,103 @@
+import { XMLParser } from "fast-xml-parser";
+
+export const DAV_NAMESPACE = "DAV:";
+export const PROP_NAMESPACE = "urn:univ-fs:";
+
+export interface XmlElement {
+  children: XmlElement[];
+  name: string;
+  namespace: string;
+  text: string;
+}
+
+type XmlNode = { [key: string]: XmlNode[] | string | Attributes };
+type Attributes = { [key: string]: string };
+
+const parser = new XMLParser({
+  preserveOrder: true,
+  ignoreAttributes: false,
+  attributeNamePrefix: "",
+  parseTagValue: false,
+  trimValues: false,
+});
+
+function toElement(
+  node: XmlNode,
+  namespaces: { [prefix: string]: string }
+): XmlElement | undefined {
+  const tag = Object.keys(node).find((key) => key !== ":@");
+  if (!tag || tag.startsWith("#") || tag.startsWith("?")) {
+    return undefined;
+  }
+
+  const attributes = (node[":@"] ?? {}) as Attributes;
+  const scope = { ...namespaces };
+  for (const [key, value] of Object.entries(attributes)) {
+    if (key === "xmlns") {
+      scope[""] = value;
+    } else if (key.startsWith("xmlns:")) {
+      scope[key.substring(6)] = value;
+    }
+  }
+
+  const colon = tag.indexOf(":");
+  const prefix = colon < 0 ? "" : tag.substring(0, colon);
+  const element: XmlElement = {
+    name: colon < 0 ? tag : tag.substring(colon + 1),
+    namespace: scope[prefix] ?? "",
+    children: [],
+    text: "",
+  };
+  for (const child of node[tag] as XmlNode[]) {
+    const text = child["#text"];
+    if (typeof text === "string") {
+      element.text += text;
+      continue;
+    }
+    const childElement = toElement(child, scope);
+    if (childElement) {
+      element.children.push(childElement);
+    }
+  }
+  return element;
+}
+
+export function parseXml(xml: string): XmlElement | undefined {
+  const nodes = parser.parse(xml) as XmlNode[];
+  for (const node of nodes) {
+    const element = toElement(node, {});
+    if (element) {
+      return element;
+    }
+  }
+  return undefined;
+}
+
+export function findChildren(
+  element: XmlElement | undefined,
+  name: string,
+  namespace = DAV_NAMESPACE
+) {
+  if (!element) {
+    return [];
+  }
+  return element.children.filter(
+    (child) => child.name === name && child.namespace === namespace
+  );
+}
+
+export function findChild(
+  element: XmlElement | undefined,
+  name: string,
+  namespace = DAV_NAMESPACE
+): XmlElement | undefined {
+  return findChildren(element, name, namespace)[0];
+}
+
+export function escapeXml(str: string) {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
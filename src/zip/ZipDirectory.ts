@@ -0,0 +1,32 @@
+import { AbstractDirectory } from "../AbstractDirectory";
+import { Item } from "../core";
+import { InvalidModificationError } from "../errors";
+import { ZipFileSystem } from "./ZipFileSystem";
+
+export class ZipDirectory extends AbstractDirectory {
+  constructor(private readonly zfs: ZipFileSystem, path: string) {
+    super(zfs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    await this.zfs._getObject(this.path);
+    const children = await this.zfs._listObjects(this.path);
+    if (0 < children.length) {
+      throw this._createError(InvalidModificationError.name, {
+        message: `"${this.path}" is not empty`,
+      });
+    }
+    await this.zfs._deleteObject(this.path);
+  }
+
+  public async _doList(): Promise<Item[]> {
+    await this.zfs._getObject(this.path);
+    return this.zfs._listObjects(this.path);
+  }
+
+  public async _doMkcol(): Promise<void> {
+    await this.zfs._putObject(this.path, {
+      stats: { modified: Date.now() },
+    });
+  }
+}
@@ -0,0 +1,44 @@
+import { Data } from "univ-conv";
+import { AbstractFile } from "../AbstractFile";
+import { Stats, WriteOptions } from "../core";
+import { ZipFileSystem } from "./ZipFileSystem";
+
+export class ZipFile extends AbstractFile {
+  constructor(private readonly zfs: ZipFileSystem, path: string) {
+    super(zfs, path);
+  }
+
+  public async _doDelete(): Promise<void> {
+    await this.zfs._getObject(this.path);
+    await this.zfs._deleteObject(this.path);
+  }
+
+  public async _doRead(): Promise<Data> {
+    return this.zfs._readContent(this.path);
+  }
+
+  public async _doWrite(
+    data: Data,
+    _stats: Stats | undefined | null,
+    options: WriteOptions
+  ): Promise<void> {
+    const converter = this._getConverter();
+    const content = await converter.toUint8Array(data, {
+      ...options,
+      start: undefined,
+    });
+    await this.zfs._putContent(this.path, content.slice());
+  }
+
+  public supportAppend(): boolean {
+    return false;
+  }
+
+  public supportRangeRead(): boolean {
+    return false;
+  }
+
+  public supportRangeWrite(): boolean {
+    return false;
+  }
+}
@@ -0,0 +1,355 @@
+import { Data, DEFAULT_CONVERTER, EMPTY_UINT8_ARRAY } from "univ-conv";
+import { AbstractFileSystem } from "../AbstractFileSystem";
+import {
+  Directory,
+  EntryType,
+  EXCLUDE_PROP_NAMES,
+  File,
+  FileSystem,
+  FileSystemOptions,
+  Item,
+  Stats,
+  URLOptions,
+} from "../core";
+import {
+  createError,
+  DataError,
+  isNotFoundError,
+  NotFoundError,
+  NotSupportedError,
+  TypeMismatchError,
+} from "../errors";
+import { getParentPath, normalizePath } from "../util";
+import {
+  compress,
+  crc32,
+  decompress,
+  readZip,
+  writeZip,
+  ZipRecord,
+} from "./zip";
+import { ZipDirectory } from "./ZipDirectory";
+import { ZipFile } from "./ZipFile";
+
+export interface ZipSource {
+  fs: FileSystem;
+  path: string;
+}
+
+export interface ZipObject {
+  content?: Uint8Array;
+  record?: ZipRecord;
+  stats: Stats;
+}
+
+function isZipSource(source: unknown): source is ZipSource {
+  return (
+    typeof source === "object" &&
+    source != null &&
+    "fs" in source &&
+    "path" in source
+  );
+}
+
+export class ZipFileSystem extends AbstractFileSystem {
+  private loading?: Promise<void>;
+  private readonly objects = new Map<string, ZipObject>();
+
+  constructor(
+    repository: string,
+    private source?: Data | ZipSource,
+    options?: FileSystemOptions
+  ) {
+    super(repository, options);
+  }
+
+  public async _deleteObject(path: string) {
+    await this._load();
+    this.objects.delete(path);
+    this._touch(getParentPath(path));
+  }
+
+  public _doGetDirectory(path: string): Directory {
+    return new ZipDirectory(this, path);
+  }
+
+  public _doGetFile(path: string): File {
+    return new ZipFile(this, path);
+  }
+
+  public async _doGetURL(
+    path: string,
+    isDirectory: boolean,
+    options: URLOptions
+  ): Promise<string> {
+    if (isDirectory) {
+      throw createError({
+        name: NotSupportedError.name,
+        repository: this.repository,
+        path,
+        message: `"${path}" is a directory`,
+      });
+    }
+    if (options.method !== "GET") {
+      throw createError({
+        name: NotSupportedError.name,
+        repository: this.repository,
+        path,
+        message: `"${options.method as string}" is not supported`,
+      });
+    }
+
+    const content = await this._readContent(path);
+    return DEFAULT_CONVERTER.toURL(content, { dstURLType: "data" });
+  }
+
+  public async _doHead(path: string): Promise<Stats> {
+    const obj = await this._getObject(path);
+    return { ...obj.stats };
+  }
+
+  public async _doPatch(path: string, _stats: Stats, props: Stats) {
+    const obj = await this._getObject(path);
+    for (const key of Object.keys(props)) {
+      if (!EXCLUDE_PROP_NAMES.includes(key)) {
+        throw createError({
+          name: NotSupportedError.name,
+          repository: this.repository,
+          path,
+          message: `Cannot patch "${key}" on the FileSystem`,
+        });
+      }
+    }
+    if (props.modified != null) {
+      obj.stats.modified = props.modified;
+      if (obj.record) {
+        obj.record = { ...obj.record, modified: props.modified };
+      }
+    }
+  }
+
+  public async _getObject(path: string): Promise<ZipObject> {
+    await this._load();
+    const obj = this.objects.get(path);
+    if (!obj) {
+      throw createError({
+        name: NotFoundError.name,
+        repository: this.repository,
+        path,
+      });
+    }
+    return obj;
+  }
+
+  public async _listObjects(path: string): Promise<Item[]> {
+    await this._load();
+    const items: Item[] = [];
+    for (const [key, obj] of this.objects) {
+      if (key === "/" || getParentPath(key) !== path) {
+        continue;
+      }
+      const type =
+        obj.stats.size == null ? EntryType.Directory : EntryType.File;
+      items.push({ ...obj.stats, path: key, type });
+    }
+    return items;
+  }
+
+  public async _putContent(path: string, content: Uint8Array) {
+    const now = Date.now();
+    await this._putObject(path, {
+      content,
+      stats: {
+        modified: now,
+        size: content.byteLength,
+        etag: crc32(content).toString(16),
+      },
+    });
+  }
+
+  public async _putObject(path: string, obj: ZipObject) {
+    const parentPath = getParentPath(path);
+    const parent = await this._getObject(parentPath);
+    if (parent.stats.size != null) {
+      throw createError({
+        name: TypeMismatchError.name,
+        repository: this.repository,
+        path: parentPath,
+        message: `"${parentPath}" is not a directory`,
+      });
+    }
+    this.objects.set(path, obj);
+    this._touch(parentPath);
+  }
+
+  public async _readContent(path: string): Promise<Uint8Array> {
+    const obj = await this._getObject(path);
+    if (obj.content) {
+      return obj.content;
+    }
+    if (!obj.record) {
+      return EMPTY_UINT8_ARRAY;
+    }
+    try {
+      return decompress(obj.record);
+    } catch (e) {
+      throw createError({
+        name: DataError.name,
+        repository: this.repository,
+        path,
+        message: (e as Error).message,
+        e,
+      });
+    }
+  }
+
+  public canPatchAccessed(): boolean {
+    return false;
+  }
+
+  public canPatchCreated(): boolean {
+    return false;
+  }
+
+  public canPatchModified(): boolean {
+    return true;
+  }
+
+  /**
+   * Rebuilds the archive from the current entries.
+   * When the archive is a file on another FileSystem, it is overwritten.
+   */
+  public async flush(): Promise<Uint8Array> {
+    await this._load();
+    const records: ZipRecord[] = [];
+    const paths = Array.from(this.objects.keys()).sort();
+    for (const path of paths) {
+      if (path === "/") {
+        continue;
+      }
+      const obj = this.objects.get(path) as ZipObject;
+      const name = path.substring(1);
+      const modified = obj.stats.modified ?? Date.now();
+      if (obj.stats.size == null) {
+        records.push({
+          name: name + "/",
+          method: 0,
+          crc: 0,
+          size: 0,
+          modified,
+          data: EMPTY_UINT8_ARRAY,
+        });
+      } else if (obj.content) {
+        obj.record = compress(name, obj.content, modified);
+        delete obj.content;
+        records.push(obj.record);
+      } else {
+        records.push(obj.record as ZipRecord);
+      }
+    }
+
+    const archive = writeZip(records);
+    if (isZipSource(this.source)) {
+      await this.source.fs.write(this.source.path, archive);
+    } else {
+      this.source = archive;
+    }
+    return archive;
+  }
+
+  public supportDirectory(): boolean {
+    return true;
+  }
+
+  private _addParents(path: string, modified: number) {
+    const parentPath = getParentPath(path);
+    if (this.objects.has(parentPath)) {
+      return;
+    }
+    this._addParents(parentPath, modified);
+    this.objects.set(parentPath, { stats: { modified } });
+  }
+
+  private async _doLoad() {
+    const source = this.source;
+    let archive: Uint8Array;
+    if (source == null) {
+      archive = EMPTY_UINT8_ARRAY;
+    } else if (isZipSource(source)) {
+      try {
+        archive = await source.fs.read(source.path, "uint8array");
+      } catch (e) {
+        if (!isNotFoundError(e)) {
+          throw e;
+        }
+        archive = EMPTY_UINT8_ARRAY;
+      }
+    } else {
+      archive = await DEFAULT_CONVERTER.toUint8Array(source);
+    }
+
+    let records: ZipRecord[];
+    try {
+      records = readZip(archive);
+    } catch (e) {
+      throw createError({
+        name: DataError.name,
+        repository: this.repository,
+        path: "/",
+        message: (e as Error).message,
+        e,
+      });
+    }
+
+    const now = Date.now();
+    this.objects.set("/", { stats: { modified: now } });
+    for (const record of records) {
+      let path: string;
+      try {
+        path = normalizePath(record.name);
+      } catch {
+        throw createError({
+          name: DataError.name,
+          repository: this.repository,
+          path: "/",
+          message: `Corrupt archive: illegal entry name "${record.name}"`,
+        });
+      }
+      if (path === "/") {
+        continue;
+      }
+      this._addParents(path, record.modified);
+      if (record.name.endsWith("/")) {
+        this.objects.set(path, { stats: { modified: record.modified } });
+      } else {
+        this.objects.set(path, {
+          record,
+          stats: {
+            modified: record.modified,
+            size: record.size,
+            etag: record.crc.toString(16),
+          },
+        });
+      }
+    }
+  }
+
+  private _load() {
+    if (!this.loading) {
+      // Loads again next time if it fails.
+      this.loading = this._doLoad().catch((e) => {
+        this.objects.clear();
+        this.loading = undefined;
+        throw e;
+      });
+    }
+    return this.loading;
+  }
+
+  private _touch(path: string) {
+    const obj = this.objects.get(path);
+    if (obj) {
+      obj.stats.modified = Date.now();
+    }
+  }
+}
@@ -0,0 +1,4 @@
+export * from "./zip";
+export * from "./ZipDirectory";
+export * from "./ZipFile";
+export * from "./ZipFileSystem";
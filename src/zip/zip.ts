@@ -0,0 +1,256 @@
+import { deflateSync, inflateSync } from "fflate";
+
+export interface ZipRecord {
+  crc: number;
+  data: Uint8Array;
+  method: number;
+  modified: number;
+  name: string;
+  size: number;
+}
+
+export const METHOD_STORED = 0;
+export const METHOD_DEFLATED = 8;
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const EXTENDED_TIMESTAMP = 0x5455;
+const FLAG_UTF8 = 0x0800;
+const VERSION = 20;
+
+const CRC_TABLE = new Uint32Array(256);
+for (let n = 0; n < 256; n++) {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  CRC_TABLE[n] = c;
+}
+
+export function crc32(u8: Uint8Array) {
+  let crc = 0xffffffff;
+  for (let i = 0; i < u8.length; i++) {
+    crc = (CRC_TABLE[(crc ^ (u8[i] as number)) & 0xff] as number) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function compress(name: string, content: Uint8Array, modified: number) {
+  const crc = crc32(content);
+  const deflated = deflateSync(content);
+  const record: ZipRecord = {
+    name,
+    crc,
+    size: content.byteLength,
+    modified,
+    method: METHOD_STORED,
+    data: content,
+  };
+  if (deflated.byteLength < content.byteLength) {
+    record.method = METHOD_DEFLATED;
+    record.data = deflated;
+  }
+  return record;
+}
+
+export function decompress(record: ZipRecord) {
+  let content: Uint8Array;
+  if (record.method === METHOD_STORED) {
+    content = record.data.slice();
+  } else if (record.method === METHOD_DEFLATED) {
+    content = inflateSync(record.data, new Uint8Array(record.size));
+  } else {
+    throw new Error(`Compression method ${record.method} is not supported`);
+  }
+  if (crc32(content) !== record.crc) {
+    throw new Error(`CRC mismatch: ${record.name}`);
+  }
+  return content;
+}
+
+function fromDosDateTime(time: number, date: number) {
+  return new Date(
+    1980 + (date >>> 9),
+    ((date >>> 5) & 0xf) - 1,
+    date & 0x1f,
+    time >>> 11,
+    (time >>> 5) & 0x3f,
+    (time & 0x1f) * 2
+  ).getTime();
+}
+
+function toDosDateTime(ms: number) {
+  const d = new Date(ms);
+  const year = Math.max(d.getFullYear(), 1980);
+  const time =
+    (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >>> 1);
+  const date = ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate();
+  return { time, date };
+}
+
+function readExtendedTimestamp(view: DataView, start: number, end: number) {
+  let i = start;
+  while (i + 4 <= end) {
+    const id = view.getUint16(i, true);
+    const size = view.getUint16(i + 2, true);
+    if (id === EXTENDED_TIMESTAMP && 5 <= size) {
+      const flags = view.getUint8(i + 4);
+      if (flags & 1) {
+        return view.getUint32(i + 5, true) * 1000;
+      }
+    }
+    i += 4 + size;
+  }
+  return undefined;
+}
+
+export function readZip(archive: Uint8Array): ZipRecord[] {
+  if (archive.byteLength === 0) {
+    return [];
+  }
+
+  const view = new DataView(
+    archive.buffer,
+    archive.byteOffset,
+    archive.byteLength
+  );
+  let eocd = -1;
+  const min = Math.max(0, archive.byteLength - 0xffff - 22);
+  for (let i = archive.byteLength - 22; min <= i; i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error("End of central directory record is not found");
+  }
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new Error("ZIP64 is not supported");
+  }
+
+  const decoder = new TextDecoder();
+  const records: ZipRecord[] = [];
+  for (let n = 0; n < count; n++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error(`Illegal central directory header at ${offset}`);
+    }
+    const method = view.getUint16(offset + 10, true);
+    const time = view.getUint16(offset + 12, true);
+    const date = view.getUint16(offset + 14, true);
+    const crc = view.getUint32(offset + 16, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const nameStart = offset + 46;
+    const name = decoder.decode(
+      archive.subarray(nameStart, nameStart + nameLength)
+    );
+    const extraStart = nameStart + nameLength;
+    const modified =
+      readExtendedTimestamp(view, extraStart, extraStart + extraLength) ??
+      fromDosDateTime(time, date);
+
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Illegal local file header at ${localOffset}`);
+    }
+    const dataStart =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    const data = archive.subarray(dataStart, dataStart + compressedSize);
+
+    records.push({ name, method, crc, size, modified, data });
+    offset = extraStart + extraLength + commentLength;
+  }
+  return records;
+}
+
+export function writeZip(records: ZipRecord[]): Uint8Array {
+  if (0xffff <= records.length) {
+    throw new Error("ZIP64 is not supported");
+  }
+
+  const encoder = new TextEncoder();
+  const names = records.map((record) => encoder.encode(record.name));
+  const extraLength = 9;
+  let localSize = 0;
+  let centralSize = 0;
+  records.forEach((record, i) => {
+    const nameLength = (names[i] as Uint8Array).byteLength;
+    localSize += 30 + nameLength + extraLength + record.data.byteLength;
+    centralSize += 46 + nameLength + extraLength;
+  });
+  if (0xffffffff <= localSize + centralSize) {
+    throw new Error("ZIP64 is not supported");
+  }
+
+  const archive = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(archive.buffer);
+  const offsets: number[] = [];
+  let i = 0;
+  const writeHeader = (record: ZipRecord, name: Uint8Array) => {
+    const { time, date } = toDosDateTime(record.modified);
+    view.setUint16(i, VERSION, true);
+    view.setUint16(i + 2, FLAG_UTF8, true);
+    view.setUint16(i + 4, record.method, true);
+    view.setUint16(i + 6, time, true);
+    view.setUint16(i + 8, date, true);
+    view.setUint32(i + 10, record.crc, true);
+    view.setUint32(i + 14, record.data.byteLength, true);
+    view.setUint32(i + 18, record.size, true);
+    view.setUint16(i + 22, name.byteLength, true);
+    view.setUint16(i + 24, extraLength, true);
+  };
+  const writeExtra = (record: ZipRecord) => {
+    view.setUint16(i, EXTENDED_TIMESTAMP, true);
+    view.setUint16(i + 2, 5, true);
+    view.setUint8(i + 4, 1);
+    view.setUint32(i + 5, Math.floor(record.modified / 1000), true);
+    i += extraLength;
+  };
+
+  records.forEach((record, n) => {
+    const name = names[n] as Uint8Array;
+    offsets.push(i);
+    view.setUint32(i, LOCAL_FILE_HEADER, true);
+    i += 4;
+    writeHeader(record, name);
+    i += 26;
+    archive.set(name, i);
+    i += name.byteLength;
+    writeExtra(record);
+    archive.set(record.data, i);
+    i += record.data.byteLength;
+  });
+
+  const centralOffset = i;
+  records.forEach((record, n) => {
+    const name = names[n] as Uint8Array;
+    view.setUint32(i, CENTRAL_DIRECTORY_HEADER, true);
+    view.setUint16(i + 4, VERSION, true);
+    i += 6;
+    writeHeader(record, name);
+    view.setUint32(i + 32, record.name.endsWith("/") ? 0x10 : 0, true);
+    view.setUint32(i + 36, offsets[n] as number, true);
+    i += 40;
+    archive.set(name, i);
+    i += name.byteLength;
+    writeExtra(record);
+  });
+
+  view.setUint32(i, END_OF_CENTRAL_DIRECTORY, true);
+  view.setUint16(i + 8, records.length, true);
+  view.setUint16(i + 10, records.length, true);
+  view.setUint32(i + 12, i - centralOffset, true);
+  view.setUint32(i + 16, centralOffset, true);
+  return archive;
+}